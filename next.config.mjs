@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // Native module used by the export route; load it from node_modules as is
+    serverComponentsExternalPackages: ["@napi-rs/canvas"],
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,51 @@
+/**
+ * Export a window from the command line, with the same options as the
+ * export route:
+ *
+ *   npm run export-window -- <slug> format=pdf paper=a3 dpi=200 legend=1 [out=<file>]
+ *   npm run export-window -- <slug> format=dxf widthMm=900 leadMm=1.6
+ *
+ * Storage is chosen as for the app (`STORAGE_DRIVER`,
+ * `BLOB_READ_WRITE_TOKEN`); the file is written to `<slug>.<format>`
+ * unless `out` says otherwise.
+ */
+
+import { writeFile } from "fs/promises";
+import { getImageBySlug } from "@/lib/db";
+import { exportQuery, isCutPatternFormat } from "@/lib/exportOptions";
+import { exportCutPattern, exportPdf, exportPng } from "@/lib/exportWindow";
+import { exportOptionsSchema, parse, ValidationError, type SchemaIssue } from "@/lib/schema";
+
+const describe = (issues: SchemaIssue[]) => issues.map((issue) => `${issue.path}: ${issue.message}`).join("\n");
+
+async function main(args: string[]) {
+  const [slug, ...pairs] = args;
+  if (!slug || pairs.some((pair) => !pair.includes("="))) {
+    throw new Error("Usage: export-window <slug> [format=png|pdf|svg|dxf|csv] [key=value ...] [out=<file>]");
+  }
+  const query = new URLSearchParams(pairs.join("&"));
+  const out = query.get("out");
+  query.delete("out");
+  if (!query.has("format")) query.set("format", "png");
+
+  const result = parse(exportOptionsSchema, exportQuery(query));
+  if (!result.ok) throw new ValidationError(result.issues);
+  const options = result.value;
+  const image = await getImageBySlug(slug);
+  if (!image) throw new Error(`Image "${slug}" not found`);
+
+  const file = out ?? `${image.slug}.${options.format}`;
+  const bytes = isCutPatternFormat(options.format)
+    ? Buffer.from(await exportCutPattern(image, { ...options, format: options.format }))
+    : options.format === "pdf"
+      ? await exportPdf(image, options)
+      : await exportPng(image, options);
+  await writeFile(file, bytes);
+  console.log(`Wrote ${file} (${Math.round(bytes.length / 1024)} KB)`);
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  if (error instanceof ValidationError) console.error(describe(error.issues));
+  else console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
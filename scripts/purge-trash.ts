@@ -0,0 +1,22 @@
+/**
+ * Purge trashed images past the retention period (`TRASH_RETENTION_DAYS`),
+ * for a scheduled job:
+ *
+ *   npm run purge-trash
+ *
+ * Storage is chosen as for the app (`STORAGE_DRIVER`,
+ * `BLOB_READ_WRITE_TOKEN`). Hosts that schedule HTTP calls instead can
+ * POST to `/api/trash/purge`.
+ */
+
+import { purgeExpiredImages } from "@/lib/db";
+
+async function main() {
+  const purged = await purgeExpiredImages();
+  console.log(purged.length > 0 ? `Purged ${purged.join(", ")}` : "Nothing to purge");
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
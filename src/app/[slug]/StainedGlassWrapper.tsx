@@ -4,10 +4,21 @@ import { useState, useRef, useEffect, useCallback } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import StainedGlass from "@/components/StainedGlass";
+import LayoutControls from "@/components/LayoutControls";
+import StyleControls from "@/components/StyleControls";
+import DaylightControls from "@/components/DaylightControls";
+import ExportControls from "@/components/ExportControls";
+import type { TessellationSettings } from "@/lib/tessellation";
+import type { GlassStyle } from "@/lib/glassStyle";
+import type { CellQuality } from "@/lib/delaunay";
+import type { PaletteReportRow } from "@/lib/glassPalette";
+import type { DaylightSettings } from "@/lib/daylight";
 
 interface StainedGlassWrapperProps {
   imageUrl: string;
   slug: string;
+  tessellation: TessellationSettings;
+  glassStyle: GlassStyle;
   viewMode?: boolean;
 }
 
@@ -25,8 +36,19 @@ function useIsMobile(breakpoint = 768) {
 export default function StainedGlassWrapper({
   imageUrl,
   slug,
+  tessellation,
+  glassStyle,
   viewMode = false,
 }: StainedGlassWrapperProps) {
+  // `draft` is what the window shows; it differs from `saved` while previewing
+  const [savedLayout, setSavedLayout] = useState(tessellation);
+  const [draftLayout, setDraftLayout] = useState(tessellation);
+  const [layoutQuality, setLayoutQuality] = useState<CellQuality | null>(null);
+  const [editingPieces, setEditingPieces] = useState(false);
+  const [savedStyle, setSavedStyle] = useState(glassStyle);
+  const [draftStyle, setDraftStyle] = useState(glassStyle);
+  const [paletteReport, setPaletteReport] = useState<PaletteReportRow[] | null>(null);
+  const [daylight, setDaylight] = useState<DaylightSettings | null>(null);
   const [menuOpen, setMenuOpen] = useState(false);
   const [slugValue, setSlugValue] = useState(slug);
   const [error, setError] = useState("");
@@ -184,7 +206,66 @@ export default function StainedGlassWrapper({
         )}
       </div>
 
-      <StainedGlass imageUrl={imageUrl} slug={slug} viewMode={effectiveViewMode} onHoverAnnotation={setPanelVisible} />
+      {/* Layout controls – same visibility rules as rename */}
+      <div className={`fixed right-16 top-1/2 translate-y-8 z-40 transition-opacity duration-200 ${isMobile || effectiveViewMode || panelVisible ? "opacity-0 pointer-events-none" : "opacity-100"}`}>
+        <LayoutControls
+          slug={slug}
+          saved={savedLayout}
+          draft={draftLayout}
+          quality={layoutQuality}
+          onPreview={setDraftLayout}
+          onCommit={(settings) => {
+            setSavedLayout(settings);
+            setDraftLayout(settings);
+          }}
+          editing={editingPieces}
+          onEditingChange={setEditingPieces}
+        />
+      </div>
+
+      {/* Glass controls – same visibility rules as rename */}
+      <div className={`fixed right-16 top-1/2 translate-y-20 z-40 transition-opacity duration-200 ${isMobile || effectiveViewMode || panelVisible ? "opacity-0 pointer-events-none" : "opacity-100"}`}>
+        <StyleControls
+          slug={slug}
+          saved={savedStyle}
+          draft={draftStyle}
+          onPreview={setDraftStyle}
+          onCommit={(style) => {
+            setSavedStyle(style);
+            setDraftStyle(style);
+          }}
+          report={paletteReport}
+        />
+      </div>
+
+      {/* Daylight – viewers only, where the editing controls would be */}
+      {effectiveViewMode && (
+        <div className={`fixed right-16 top-1/2 -translate-y-1/2 z-40 transition-opacity duration-200 ${panelVisible ? "opacity-0 pointer-events-none" : "opacity-100"}`}>
+          <DaylightControls settings={daylight} onChange={setDaylight} />
+        </div>
+      )}
+
+      {/* Download – below the other controls, for editors and viewers alike */}
+      {!isMobile && (
+        <div className={`fixed right-16 top-1/2 ${effectiveViewMode ? "translate-y-8" : "translate-y-32"} z-40 transition-opacity duration-200 ${panelVisible ? "opacity-0 pointer-events-none" : "opacity-100"}`}>
+          <ExportControls slug={slug} />
+        </div>
+      )}
+
+      <StainedGlass
+        imageUrl={imageUrl}
+        slug={slug}
+        tessellation={effectiveViewMode ? savedLayout : draftLayout}
+        glassStyle={effectiveViewMode ? savedStyle : draftStyle}
+        viewMode={effectiveViewMode}
+        onHoverAnnotation={setPanelVisible}
+        onLayout={setLayoutQuality}
+        editing={!effectiveViewMode && editingPieces}
+        onEditLayout={setDraftLayout}
+        saveColours={!effectiveViewMode && draftLayout === savedLayout && draftStyle === savedStyle}
+        onPaletteReport={setPaletteReport}
+        daylight={daylight}
+      />
     </div>
   );
 }
@@ -1,5 +1,7 @@
-import { notFound } from "next/navigation";
-import { getImageBySlug } from "@/lib/db";
+import { notFound, permanentRedirect } from "next/navigation";
+import { getImageByAlias, getImageBySlug } from "@/lib/db";
+import { defaultTessellation } from "@/lib/tessellation";
+import { defaultGlassStyle } from "@/lib/glassStyle";
 import StainedGlassWrapper from "./StainedGlassWrapper";
 
 interface PageProps {
@@ -10,12 +12,20 @@ export default async function ImagePage({ params }: PageProps) {
   const image = await getImageBySlug(params.slug);
 
   if (!image) {
+    // Renamed images keep their old slug as an alias
+    const renamed = await getImageByAlias(params.slug);
+    if (renamed) permanentRedirect(`/${renamed.slug}`);
     notFound();
   }
 
   return (
     <main className="min-h-screen flex items-center justify-center p-2">
-      <StainedGlassWrapper imageUrl={image.blobUrl} slug={params.slug} />
+      <StainedGlassWrapper
+        imageUrl={image.blobUrl}
+        slug={params.slug}
+        tessellation={image.tessellation ?? defaultTessellation(image.blobUrl)}
+        glassStyle={image.style ?? defaultGlassStyle()}
+      />
     </main>
   );
 }
@@ -1,5 +1,7 @@
-import { notFound } from "next/navigation";
-import { getImageBySlug } from "@/lib/db";
+import { notFound, permanentRedirect } from "next/navigation";
+import { getImageByAlias, getImageBySlug } from "@/lib/db";
+import { defaultTessellation } from "@/lib/tessellation";
+import { defaultGlassStyle } from "@/lib/glassStyle";
 import StainedGlassWrapper from "../StainedGlassWrapper";
 
 interface PageProps {
@@ -10,12 +12,21 @@ export default async function ViewPage({ params }: PageProps) {
   const image = await getImageBySlug(params.slug);
 
   if (!image) {
+    // Renamed images keep their old slug as an alias
+    const renamed = await getImageByAlias(params.slug);
+    if (renamed) permanentRedirect(`/${renamed.slug}/view`);
     notFound();
   }
 
   return (
     <main className="min-h-screen flex items-center justify-center p-2">
-      <StainedGlassWrapper imageUrl={image.blobUrl} slug={params.slug} viewMode />
+      <StainedGlassWrapper
+        imageUrl={image.blobUrl}
+        slug={params.slug}
+        tessellation={image.tessellation ?? defaultTessellation(image.blobUrl)}
+        glassStyle={image.style ?? defaultGlassStyle()}
+        viewMode
+      />
     </main>
   );
 }
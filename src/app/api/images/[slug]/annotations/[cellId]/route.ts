@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCellAnnotation,
+  setCellAnnotation,
+  patchCellAnnotation,
+  deleteCellAnnotation,
+} from "@/lib/db";
+import { migrateInlineImages } from "@/lib/attachments";
+import { authorFrom, errorResponse, parseCellId, parseJsonBody, resolveImage } from "@/lib/http";
+import { cellAnnotationSchema, cellAnnotationPatchSchema } from "@/lib/schema";
+
+type Params = { params: { slug: string; cellId: string } };
+
+/**
+ * Shared guard: 404 for unknown images, 308 for renamed ones, 400 for
+ * malformed cell ids. Converts legacy inline images first, so no edit
+ * works from a cell that still has one.
+ */
+async function resolveCell(
+  request: NextRequest,
+  params: Params["params"]
+): Promise<{ cellId: number } | { response: NextResponse }> {
+  const cellId = parseCellId(params.cellId);
+  if (cellId === null) {
+    return {
+      response: NextResponse.json({ error: "Invalid cell id" }, { status: 400 }),
+    };
+  }
+  const resolved = await resolveImage(request, params.slug);
+  if ("response" in resolved) return resolved;
+  await migrateInlineImages(resolved.image);
+  return { cellId };
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const resolved = await resolveCell(request, params);
+    if ("response" in resolved) return resolved.response;
+    const annotation = await getCellAnnotation(params.slug, resolved.cellId);
+    if (!annotation) {
+      return NextResponse.json({ error: "Annotation not found" }, { status: 404 });
+    }
+    return NextResponse.json(annotation);
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const resolved = await resolveCell(request, params);
+    if ("response" in resolved) return resolved.response;
+    const body = await parseJsonBody(request, cellAnnotationSchema);
+    if ("response" in body) return body.response;
+    await setCellAnnotation(params.slug, resolved.cellId, body.value, authorFrom(request));
+    return NextResponse.json(body.value);
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const resolved = await resolveCell(request, params);
+    if ("response" in resolved) return resolved.response;
+    const body = await parseJsonBody(request, cellAnnotationPatchSchema);
+    if ("response" in body) return body.response;
+    const updated = await patchCellAnnotation(
+      params.slug,
+      resolved.cellId,
+      body.value,
+      authorFrom(request)
+    );
+    if (!updated) {
+      return NextResponse.json({ error: "Annotation not found" }, { status: 404 });
+    }
+    return NextResponse.json(updated);
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const resolved = await resolveCell(request, params);
+    if ("response" in resolved) return resolved.response;
+    const deleted = await deleteCellAnnotation(
+      params.slug,
+      resolved.cellId,
+      authorFrom(request)
+    );
+    if (!deleted) {
+      return NextResponse.json({ error: "Annotation not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
@@ -1,20 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getAnnotations, saveAnnotations, getImageBySlug } from "@/lib/db";
+import { migrateInlineImages } from "@/lib/attachments";
+import {
+  getVersionedAnnotations,
+  saveAnnotations,
+  VersionConflictError,
+} from "@/lib/db";
+import { authorFrom, errorResponse, parseJsonBody, resolveImage } from "@/lib/http";
+import { annotationsMapSchema } from "@/lib/schema";
+
+/**
+ * The version the client based its edit on: `If-Match: <etag>`, or
+ * `If-None-Match: *` when it has never seen a saved version.
+ * Requests with neither header overwrite unconditionally.
+ */
+function baseVersionFrom(request: NextRequest): string | null | undefined {
+  const ifMatch = request.headers.get("if-match");
+  if (ifMatch) return ifMatch;
+  if (request.headers.get("if-none-match") === "*") return null;
+  return undefined;
+}
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: { slug: string } }
 ) {
   try {
-    const image = await getImageBySlug(params.slug);
-    if (!image) {
-      return NextResponse.json({ error: "Image not found" }, { status: 404 });
-    }
-    const annotations = await getAnnotations(params.slug);
-    return NextResponse.json(annotations);
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    // Legacy inline images are converted before the editor sees them
+    await migrateInlineImages(resolved.image);
+    const { annotations, version } = await getVersionedAnnotations(params.slug);
+    return NextResponse.json(annotations, {
+      headers: version ? { ETag: version } : undefined,
+    });
   } catch (error: unknown) {
-    const msg = error instanceof Error ? error.message : String(error);
-    return NextResponse.json({ error: msg }, { status: 500 });
+    return errorResponse(error);
   }
 }
 
@@ -23,15 +43,33 @@ export async function PUT(
   { params }: { params: { slug: string } }
 ) {
   try {
-    const image = await getImageBySlug(params.slug);
-    if (!image) {
-      return NextResponse.json({ error: "Image not found" }, { status: 404 });
-    }
-    const data = await request.json();
-    await saveAnnotations(params.slug, data);
-    return NextResponse.json({ success: true });
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    const body = await parseJsonBody(request, annotationsMapSchema);
+    if ("response" in body) return body.response;
+    await migrateInlineImages(resolved.image);
+    const version = await saveAnnotations(
+      params.slug,
+      body.value,
+      baseVersionFrom(request),
+      authorFrom(request)
+    );
+    return NextResponse.json(
+      { success: true, version },
+      { headers: { ETag: version } }
+    );
   } catch (error: unknown) {
-    const msg = error instanceof Error ? error.message : String(error);
-    return NextResponse.json({ error: msg }, { status: 500 });
+    if (error instanceof VersionConflictError) {
+      // Hand back the current state so the editor can reconcile
+      const current = await getVersionedAnnotations(params.slug);
+      return NextResponse.json(
+        { error: "Annotations were changed by someone else", ...current },
+        {
+          status: 409,
+          headers: current.version ? { ETag: current.version } : undefined,
+        }
+      );
+    }
+    return errorResponse(error);
   }
 }
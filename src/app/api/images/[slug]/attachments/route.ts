@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storeAttachment, AttachmentError } from "@/lib/attachments";
+import { errorResponse, resolveImage } from "@/lib/http";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    const { image } = resolved;
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!(file instanceof Blob)) {
+      return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+    }
+    const attachment = await storeAttachment(image, file);
+    return NextResponse.json(attachment);
+  } catch (error: unknown) {
+    if (error instanceof AttachmentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Attachment upload error:", error instanceof Error ? error.message : error);
+    return errorResponse(error);
+  }
+}
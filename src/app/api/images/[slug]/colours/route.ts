@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCellColours, saveCellColours } from "@/lib/db";
+import { errorResponse, parseJsonBody, resolveImage } from "@/lib/http";
+import { storedCellColoursSchema } from "@/lib/schema";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Piece colours sampled by the editor, with the key of the layout they
+ * belong to.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    const colours = await getCellColours(params.slug);
+    if (!colours) {
+      return NextResponse.json({ error: "No colours saved" }, { status: 404 });
+    }
+    return NextResponse.json(colours);
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Replace the stored colours.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    const body = await parseJsonBody(request, storedCellColoursSchema);
+    if ("response" in body) return body.response;
+    await saveCellColours(params.slug, body.value);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
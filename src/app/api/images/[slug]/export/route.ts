@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ExportFormat, exportQuery, isCutPatternFormat } from "@/lib/exportOptions";
+import { ExportBusyError, exportCutPattern, exportPdf, exportPng } from "@/lib/exportWindow";
+import { errorResponse, invalidBody, resolveImage } from "@/lib/http";
+import { exportOptionsSchema, parse } from "@/lib/schema";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  png: "image/png",
+  pdf: "application/pdf",
+  svg: "image/svg+xml; charset=utf-8",
+  dxf: "application/dxf",
+  csv: "text/csv; charset=utf-8",
+};
+
+/**
+ * Download the finished window:
+ * `?format=png[&scale=N | &dpi=N&widthMm=N]` or
+ * `?format=pdf[&paper=a4|a3|letter|tabloid][&dpi=N][&widthMm=N][&legend=1]`,
+ * or its cut pattern (`svg`, `dxf`) or parts list (`csv`):
+ * `?format=svg&widthMm=N[&leadMm=N][&colours=palette|sampled]`.
+ * One export runs at a time; others get a 503 to retry.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    const result = parse(exportOptionsSchema, exportQuery(request.nextUrl.searchParams));
+    if (!result.ok) return invalidBody(result.issues);
+    const options = result.value;
+
+    const { image } = resolved;
+    const body = isCutPatternFormat(options.format)
+      ? await exportCutPattern(image, { ...options, format: options.format })
+      : new Uint8Array(options.format === "pdf" ? await exportPdf(image, options) : await exportPng(image, options));
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": CONTENT_TYPES[options.format],
+        "Content-Disposition": `attachment; filename="${image.slug}.${options.format}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: unknown) {
+    if (error instanceof ExportBusyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 503, headers: { "Retry-After": "5" } }
+      );
+    }
+    return errorResponse(error);
+  }
+}
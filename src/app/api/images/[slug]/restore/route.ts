@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { restoreImage } from "@/lib/db";
+import { errorResponse } from "@/lib/http";
+
+/**
+ * Take an image back out of the trash.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const restored = await restoreImage(params.slug);
+    if (!restored) {
+      return NextResponse.json({ error: "Image not in trash" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
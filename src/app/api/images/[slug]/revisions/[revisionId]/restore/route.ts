@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorFrom, errorResponse, parseJsonBody, resolveImage } from "@/lib/http";
+import { restoreRevision } from "@/lib/revisions";
+import { restoreBodySchema } from "@/lib/schema";
+
+/**
+ * Restore a revision. Body `{ "cellId": N }` restores only that cell;
+ * `{}` restores every cell.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { slug: string; revisionId: string } }
+) {
+  try {
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    const body = await parseJsonBody(request, restoreBodySchema);
+    if ("response" in body) return body.response;
+    const annotations = await restoreRevision(params.slug, params.revisionId, {
+      cellId: body.value.cellId,
+      author: authorFrom(request),
+    });
+    if (!annotations) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+    return NextResponse.json(annotations);
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
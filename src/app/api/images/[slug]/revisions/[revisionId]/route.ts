@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRevision } from "@/lib/db";
+import { errorResponse, resolveImage } from "@/lib/http";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string; revisionId: string } }
+) {
+  try {
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    const revision = await getRevision(params.slug, params.revisionId);
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+    return NextResponse.json(revision);
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, invalidBody, parseCellId, resolveImage } from "@/lib/http";
+import { diffRevisions } from "@/lib/revisions";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Diff two revisions: `?from=<id>&to=<id>[&cellId=N]`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    const query = request.nextUrl.searchParams;
+    const from = query.get("from");
+    const to = query.get("to");
+    const rawCellId = query.get("cellId");
+    const cellId = rawCellId === null ? undefined : parseCellId(rawCellId);
+    if (!from || !to || cellId === null) {
+      return invalidBody([
+        ...(!from ? [{ path: "from", message: "Required" }] : []),
+        ...(!to ? [{ path: "to", message: "Required" }] : []),
+        ...(cellId === null ? [{ path: "cellId", message: "Invalid cell id" }] : []),
+      ]);
+    }
+    const diff = await diffRevisions(params.slug, from, to, cellId);
+    if (!diff) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+    return NextResponse.json(diff);
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, invalidBody, parseCellId, resolveImage } from "@/lib/http";
+import { listRevisions } from "@/lib/revisions";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * List annotation revisions, newest first. `?cellId=N` narrows the list
+ * to revisions that changed that cell.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    const rawCellId = request.nextUrl.searchParams.get("cellId");
+    const cellId = rawCellId === null ? undefined : parseCellId(rawCellId);
+    if (cellId === null) {
+      return invalidBody([{ path: "cellId", message: "Invalid cell id" }]);
+    }
+    return NextResponse.json(await listRevisions(params.slug, cellId));
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
@@ -1,19 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getImageBySlug, deleteImage, updateImageSlug } from "@/lib/db";
+import { trashImage, updateImageSlug } from "@/lib/db";
+import { errorResponse, parseJsonBody, resolveImage } from "@/lib/http";
+import { renameBodySchema } from "@/lib/schema";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { slug: string } }
 ) {
   try {
-    const image = await getImageBySlug(params.slug);
-    if (!image) {
-      return NextResponse.json({ error: "Image not found" }, { status: 404 });
-    }
-    return NextResponse.json(image);
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    return NextResponse.json(resolved.image);
   } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : "Unknown error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return errorResponse(err);
   }
 }
 
@@ -22,23 +21,26 @@ export async function PATCH(
   { params }: { params: { slug: string } }
 ) {
   try {
-    const body = await request.json();
-    const newSlug = body.slug?.trim().toLowerCase().replace(/[^a-z0-9-]/g, "-");
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    const body = await parseJsonBody(request, renameBodySchema);
+    if ("response" in body) return body.response;
+    const newSlug = body.value.slug.trim().toLowerCase().replace(/[^a-z0-9-]/g, "-");
     if (!newSlug) {
       return NextResponse.json({ error: "Invalid slug" }, { status: 400 });
     }
-    const updated = await updateImageSlug(params.slug, newSlug);
-    if (!updated) {
-      return NextResponse.json(
-        { error: "Image not found or slug already taken" },
-        { status: 404 }
-      );
+    // The old slug stays behind as an alias that redirects here
+    const result = await updateImageSlug(params.slug, newSlug);
+    if (result === "not_found") {
+      return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+    if (result === "taken") {
+      return NextResponse.json({ error: "Slug already taken" }, { status: 409 });
     }
     return NextResponse.json({ success: true, slug: newSlug });
   } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : "Unknown error";
-    console.error("Rename error:", message);
-    return NextResponse.json({ error: message }, { status: 500 });
+    console.error("Rename error:", err instanceof Error ? err.message : err);
+    return errorResponse(err);
   }
 }
 
@@ -47,13 +49,15 @@ export async function DELETE(
   { params }: { params: { slug: string } }
 ) {
   try {
-    const deleted = await deleteImage(params.slug);
-    if (!deleted) {
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    // Soft delete – the image can be restored from the trash
+    const trashed = await trashImage(params.slug);
+    if (!trashed) {
       return NextResponse.json({ error: "Image not found" }, { status: 404 });
     }
     return NextResponse.json({ success: true });
   } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : "Unknown error";
-    return NextResponse.json({ error: message }, { status: 500 });
+    return errorResponse(err);
   }
 }
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updateImageStyle } from "@/lib/db";
+import { errorResponse, parseJsonBody, resolveImage } from "@/lib/http";
+import { glassStyleSchema } from "@/lib/schema";
+import { defaultGlassStyle } from "@/lib/glassStyle";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The image's glass style, or the defaults if it has none.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    return NextResponse.json(resolved.image.style ?? defaultGlassStyle());
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Replace the glass style.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    const body = await parseJsonBody(request, glassStyleSchema);
+    if ("response" in body) return body.response;
+    const updated = await updateImageStyle(params.slug, body.value);
+    if (!updated) {
+      return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+    return NextResponse.json(body.value);
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updateImageTessellation } from "@/lib/db";
+import { errorResponse, parseJsonBody, resolveImage } from "@/lib/http";
+import { tessellationSchema } from "@/lib/schema";
+import { defaultTessellation } from "@/lib/tessellation";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The image's tessellation settings, or the defaults if it has none.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    const { image } = resolved;
+    return NextResponse.json(image.tessellation ?? defaultTessellation(image.blobUrl));
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Replace the tessellation settings. Annotations are anchored to image
+ * points, so they follow their pieces into the new layout.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const resolved = await resolveImage(request, params.slug);
+    if ("response" in resolved) return resolved.response;
+    const body = await parseJsonBody(request, tessellationSchema);
+    if ("response" in body) return body.response;
+    const updated = await updateImageTessellation(params.slug, body.value);
+    if (!updated) {
+      return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+    return NextResponse.json(body.value);
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
@@ -1,11 +1,16 @@
 import { NextResponse } from "next/server";
 import { getImages } from "@/lib/db";
+import { errorResponse } from "@/lib/http";
 
 export const dynamic = "force-dynamic";
 
 export async function GET() {
-  const images = await getImages();
-  return NextResponse.json(images, {
-    headers: { "Cache-Control": "no-store, max-age=0" },
-  });
+  try {
+    const images = (await getImages()).filter((img) => !img.trashedAt);
+    return NextResponse.json(images, {
+      headers: { "Cache-Control": "no-store, max-age=0" },
+    });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
 }
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { migrateAllAnchors } from "@/lib/anchorMigration";
+import { errorResponse } from "@/lib/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * One-time migration: pin annotations saved before anchors existed to
+ * the piece they are shown on. Safe to re-run – anchored annotations
+ * are skipped.
+ */
+export async function POST() {
+  try {
+    const anchored = await migrateAllAnchors();
+    return NextResponse.json({ success: true, anchored });
+  } catch (error: unknown) {
+    console.error("Anchor migration error:", error instanceof Error ? error.message : error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { migrateAllInlineImages } from "@/lib/attachments";
+import { errorResponse } from "@/lib/http";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Move every inline `imageDataUrl` annotation image into a stored
+ * attachment at once. The annotation routes also convert an image's
+ * cells as they are read or saved, so this only saves the wait. Safe
+ * to re-run – converted cells are skipped.
+ */
+export async function POST() {
+  try {
+    const converted = await migrateAllInlineImages();
+    return NextResponse.json({ success: true, converted });
+  } catch (error: unknown) {
+    console.error("Inline image migration error:", error instanceof Error ? error.message : error);
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { purgeImage } from "@/lib/db";
+import { errorResponse } from "@/lib/http";
+
+/**
+ * Permanently delete a trashed image. Images must be trashed first.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const purged = await purgeImage(params.slug);
+    if (!purged) {
+      return NextResponse.json({ error: "Image not in trash" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
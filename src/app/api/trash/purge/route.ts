@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { purgeExpiredImages } from "@/lib/db";
+import { errorResponse } from "@/lib/http";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Purge trashed images past the retention period, for a scheduled job
+ * (or run `npm run purge-trash`). Nothing else purges automatically.
+ */
+export async function POST() {
+  try {
+    const purged = await purgeExpiredImages();
+    return NextResponse.json({ success: true, purged });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
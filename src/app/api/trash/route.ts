@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getImages, purgeDate } from "@/lib/db";
+import { errorResponse } from "@/lib/http";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * List trashed images, most recently trashed first, with the date each
+ * will be purged automatically.
+ */
+export async function GET() {
+  try {
+    const trashed = (await getImages())
+      .filter((img) => img.trashedAt)
+      .sort((a, b) => b.trashedAt!.localeCompare(a.trashedAt!))
+      .map((img) => ({ ...img, purgeAt: purgeDate(img)!.toISOString() }));
+    return NextResponse.json(trashed, {
+      headers: { "Cache-Control": "no-store, max-age=0" },
+    });
+  } catch (err: unknown) {
+    return errorResponse(err);
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { put } from "@vercel/blob";
 import { addImage, ImageRecord } from "@/lib/db";
+import { getStorage } from "@/lib/storage";
+import { ValidationError } from "@/lib/schema";
+import { invalidBody } from "@/lib/http";
 
 function generateSlug(name: string): string {
   const base = name
@@ -41,18 +43,15 @@ export async function POST(request: NextRequest) {
     const ext = file.name.match(/\.[^/.]+$/)?.[0] ?? "";
     const blobPath = `images/${slug}${ext}`;
 
-    // Upload to Vercel Blob (random suffix ensures unique URLs)
-    const blob = await put(blobPath, file, {
-      access: "public",
-      contentType: file.type,
-    });
+    // Upload through the configured storage driver
+    const url = await getStorage().putFile(blobPath, file, file.type);
 
     const imageRecord: ImageRecord = {
       id: slug,
       slug,
       originalName: file.name,
       fileName: `${slug}${ext}`,
-      blobUrl: blob.url,
+      blobUrl: url,
       uploadedAt: new Date().toISOString(),
     };
 
@@ -61,9 +60,10 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       image: imageRecord,
-      url: blob.url,
+      url,
     });
   } catch (error: unknown) {
+    if (error instanceof ValidationError) return invalidBody(error.issues);
     const msg = error instanceof Error ? error.message : String(error);
     console.error("Upload error:", msg);
     return NextResponse.json(
@@ -1,19 +1,31 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
+import HistoryDrawer from "./HistoryDrawer";
+
+export interface AnnotationAttachment {
+  url: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
 
 export interface CellAnnotation {
   title: string;
   description: string;
   date: string;
-  imageDataUrl?: string;
+  attachment?: AnnotationAttachment;
+  /** Normalized image point that ties the annotation to a piece. */
+  anchor?: { x: number; y: number };
 }
 
 interface CellInfoPanelProps {
+  slug: string;
   cellId: number;
   annotation: CellAnnotation | null;
   onSave: (cellId: number, data: CellAnnotation) => void;
   onDelete: (cellId: number) => void;
+  onRestore: (cellId: number, annotation: CellAnnotation | null) => void;
   onClose: () => void;
 }
 
@@ -22,18 +34,23 @@ interface CellInfoPanelProps {
  * Displayed as a fixed right-side panel matching the hover display style.
  */
 export default function CellInfoPanel({
+  slug,
   cellId,
   annotation,
   onSave,
   onDelete,
+  onRestore,
   onClose,
 }: CellInfoPanelProps) {
   const [title, setTitle] = useState(annotation?.title ?? "");
   const [description, setDescription] = useState(annotation?.description ?? "");
   const [date, setDate] = useState(annotation?.date ?? new Date().toISOString().split("T")[0]);
-  const [imageDataUrl, setImageDataUrl] = useState<string | undefined>(
-    annotation?.imageDataUrl
+  const [attachment, setAttachment] = useState<AnnotationAttachment | undefined>(
+    annotation?.attachment
   );
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
   const fileRef = useRef<HTMLInputElement>(null);
   const panelRef = useRef<HTMLDivElement>(null);
 
@@ -42,7 +59,8 @@ export default function CellInfoPanel({
     setTitle(annotation?.title ?? "");
     setDescription(annotation?.description ?? "");
     setDate(annotation?.date ?? new Date().toISOString().split("T")[0]);
-    setImageDataUrl(annotation?.imageDataUrl);
+    setAttachment(annotation?.attachment);
+    setUploadError("");
   }, [annotation, cellId]);
 
   // Close on Escape
@@ -65,16 +83,31 @@ export default function CellInfoPanel({
     return () => document.removeEventListener("mousedown", handler);
   }, [onClose]);
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
-    const reader = new FileReader();
-    reader.onload = () => setImageDataUrl(reader.result as string);
-    reader.readAsDataURL(file);
+    setUploading(true);
+    setUploadError("");
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch(`/api/images/${encodeURIComponent(slug)}/attachments`, {
+        method: "POST",
+        body: formData,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Upload failed");
+      setAttachment(data);
+    } catch (err: unknown) {
+      setUploadError(err instanceof Error ? err.message : "Upload failed");
+      if (fileRef.current) fileRef.current.value = "";
+    } finally {
+      setUploading(false);
+    }
   };
 
   const handleRemoveImage = () => {
-    setImageDataUrl(undefined);
+    setAttachment(undefined);
     if (fileRef.current) fileRef.current.value = "";
   };
 
@@ -84,7 +117,7 @@ export default function CellInfoPanel({
       title: title.trim(),
       description: description.trim(),
       date: date || new Date().toISOString().split("T")[0],
-      imageDataUrl,
+      attachment,
     });
     onClose();
   };
@@ -124,6 +157,12 @@ export default function CellInfoPanel({
           <p className="text-[11px] text-amber-400/60 tracking-[0.15em] uppercase font-medium">
             {annotation ? "Edit piece" : "Add piece"} &mdash; #{cellId + 1}
           </p>
+          <button
+            onClick={() => setShowHistory((v) => !v)}
+            className={`ml-auto text-[11px] tracking-wide uppercase transition ${showHistory ? "text-amber-400/80" : "text-gray-500 hover:text-gray-300"}`}
+          >
+            History
+          </button>
         </div>
 
         <div className="space-y-6">
@@ -174,10 +213,12 @@ export default function CellInfoPanel({
             <label className="block text-[11px] text-gray-500/80 tracking-wide uppercase mb-2">
               Image (optional)
             </label>
-            {imageDataUrl ? (
+            {attachment ? (
               <div className="relative rounded-xl overflow-hidden">
                 <img
-                  src={imageDataUrl}
+                  src={attachment.url}
+                  width={attachment.width}
+                  height={attachment.height}
                   alt="preview"
                   className="w-full object-contain"
                 />
@@ -194,9 +235,16 @@ export default function CellInfoPanel({
                 type="file"
                 accept="image/*"
                 onChange={handleImageChange}
+                disabled={uploading}
                 className="w-full text-[12px] text-gray-500 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:text-[11px] file:font-medium file:bg-white/5 file:text-gray-400 hover:file:bg-white/10 transition"
               />
             )}
+            {uploading && (
+              <p className="mt-2 text-[11px] text-amber-400/60">Uploading…</p>
+            )}
+            {uploadError && (
+              <p className="mt-2 text-[11px] text-red-400/80">{uploadError}</p>
+            )}
           </div>
         </div>
 
@@ -204,7 +252,7 @@ export default function CellInfoPanel({
         <div className="flex items-center gap-3 mt-10">
           <button
             onClick={handleSave}
-            disabled={!title.trim()}
+            disabled={!title.trim() || uploading}
             className="flex-1 px-4 py-2.5 text-[13px] font-medium rounded-lg bg-amber-500 text-black hover:bg-amber-400 disabled:opacity-30 disabled:cursor-not-allowed transition"
           >
             {annotation ? "Save" : "Add to glass"}
@@ -224,6 +272,10 @@ export default function CellInfoPanel({
             Cancel
           </button>
         </div>
+
+        {showHistory && (
+          <HistoryDrawer slug={slug} cellId={cellId} onRestore={onRestore} />
+        )}
       </div>
 
       {/* Bottom accent line */}
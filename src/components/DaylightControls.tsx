@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import {
+  DAYLIGHT_SOURCES,
+  DAYLIGHT_SURFACES,
+  DaylightSettings,
+  DaylightSource,
+  DaylightSurface,
+  defaultDaylight,
+} from "@/lib/daylight";
+import { usePrefersReducedMotion } from "./DaylightLayer";
+
+interface DaylightControlsProps {
+  /** `null` while daylight is off. */
+  settings: DaylightSettings | null;
+  onChange: (settings: DaylightSettings | null) => void;
+}
+
+const SOURCE_LABELS: Record<DaylightSource, string> = {
+  clock: "Follow my clock",
+  slider: "Choose a time",
+  cycle: "Run through a day",
+};
+
+const SURFACE_LABELS: Record<DaylightSurface, string> = {
+  floor: "On the floor",
+  wall: "On the far wall",
+};
+
+function formatHour(hour: number): string {
+  const minutes = Math.round(hour * 60);
+  return `${String(Math.floor(minutes / 60) % 24).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Viewer popover for lighting the window with simulated daylight.
+ * Nothing here is saved; it only changes how this viewer sees the window.
+ */
+export default function DaylightControls({ settings, onChange }: DaylightControlsProps) {
+  const [open, setOpen] = useState(false);
+  const reducedMotion = usePrefersReducedMotion();
+  const sources = DAYLIGHT_SOURCES.filter((s) => s !== "cycle" || !reducedMotion);
+
+  const update = (patch: Partial<DaylightSettings>) => {
+    if (settings) onChange({ ...settings, ...patch });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`${settings ? "text-amber-300" : "text-white"} hover:text-amber-300 transition-colors`}
+        title="Daylight"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2.5}
+            d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z"
+          />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute right-8 top-1/2 -translate-y-1/2 w-56 rounded-xl bg-gray-900/95 backdrop-blur-xl border border-white/10 shadow-2xl overflow-hidden animate-fadeIn">
+          <div className="p-3 space-y-3">
+            <label className="flex items-center justify-between text-xs text-gray-200">
+              Daylight
+              <input
+                type="checkbox"
+                checked={settings !== null}
+                onChange={(e) => onChange(e.target.checked ? defaultDaylight() : null)}
+                className="accent-amber-500"
+              />
+            </label>
+
+            {settings && (
+              <>
+                <div>
+                  <label className="block text-[11px] text-gray-500 uppercase tracking-wide mb-1.5">
+                    Time of day
+                  </label>
+                  <select
+                    value={settings.source === "cycle" && reducedMotion ? "clock" : settings.source}
+                    onChange={(e) => update({ source: e.target.value as DaylightSource })}
+                    className="w-full px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-200 focus:outline-none focus:border-amber-500/50 transition"
+                  >
+                    {sources.map((source) => (
+                      <option key={source} value={source} className="bg-gray-900">
+                        {SOURCE_LABELS[source]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {settings.source === "slider" && (
+                  <div>
+                    <div className="flex justify-between text-[11px] text-gray-500 mb-1">
+                      <span>Hour</span>
+                      <span className="tabular-nums text-gray-300">{formatHour(settings.hour)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={0}
+                      max={24}
+                      step={0.25}
+                      value={settings.hour}
+                      onChange={(e) => update({ hour: Number(e.target.value) })}
+                      className="w-full accent-amber-500"
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-[11px] text-gray-500 uppercase tracking-wide mb-1.5">
+                    Light falls
+                  </label>
+                  <select
+                    value={settings.surface}
+                    onChange={(e) => update({ surface: e.target.value as DaylightSurface })}
+                    className="w-full px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-200 focus:outline-none focus:border-amber-500/50 transition"
+                  >
+                    {DAYLIGHT_SURFACES.map((surface) => (
+                      <option key={surface} value={surface} className="bg-gray-900">
+                        {SURFACE_LABELS[surface]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
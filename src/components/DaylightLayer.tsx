@@ -0,0 +1,209 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Point, VoronoiCell } from "@/lib/delaunay";
+import {
+  castPolygon,
+  DAY_CYCLE_SECONDS,
+  DaylightSettings,
+  hourOf,
+  paneLight,
+  sunAt,
+} from "@/lib/daylight";
+
+interface DaylightLayerProps {
+  /** Panes in canvas coordinates. */
+  cells: VoronoiCell[];
+  /** Glass colour of each pane, as drawn in the window. */
+  fills: Map<number, [number, number, number]>;
+  width: number;
+  height: number;
+  outline: Point[] | null;
+  settings: DaylightSettings;
+}
+
+/** Share of the available height the cast-light panel takes. */
+export const CAST_PANEL_SHARE = 0.3;
+
+const CAST_PANEL_GAP = 16;
+
+/** Height of the cast-light panel under a window `height` tall. */
+export function castPanelHeight(height: number): number {
+  return Math.round((height * CAST_PANEL_SHARE) / (1 - CAST_PANEL_SHARE));
+}
+
+/** Space to leave under the window for the panel. */
+export function castPanelSpace(height: number): number {
+  return castPanelHeight(height) + CAST_PANEL_GAP;
+}
+
+export function usePrefersReducedMotion(): boolean {
+  const [reduced, setReduced] = useState(false);
+  useEffect(() => {
+    const query = window.matchMedia("(prefers-reduced-motion: reduce)");
+    const update = () => setReduced(query.matches);
+    update();
+    query.addEventListener("change", update);
+    return () => query.removeEventListener("change", update);
+  }, []);
+  return reduced;
+}
+
+function tracePolygon(ctx: CanvasRenderingContext2D, vertices: Point[]) {
+  ctx.beginPath();
+  ctx.moveTo(vertices[0].x, vertices[0].y);
+  for (let i = 1; i < vertices.length; i++) ctx.lineTo(vertices[i].x, vertices[i].y);
+  ctx.closePath();
+}
+
+/** Size a canvas's backing store for the screen it is shown on. */
+function fitCanvas(canvas: HTMLCanvasElement, width: number, height: number) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  const dpr = window.devicePixelRatio || 1;
+  if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  return ctx;
+}
+
+/**
+ * Daylight over the window: the sun brightens the panes it shines
+ * through and each pane casts its colour onto a floor or wall in a
+ * panel under the window. Moves only in `cycle` mode, which falls back
+ * to the clock for viewers who prefer reduced motion.
+ */
+export default function DaylightLayer({
+  cells,
+  fills,
+  width,
+  height,
+  outline,
+  settings,
+}: DaylightLayerProps) {
+  const glareRef = useRef<HTMLCanvasElement>(null);
+  const castRef = useRef<HTMLCanvasElement>(null);
+  const patternRef = useRef<HTMLCanvasElement | null>(null);
+  const reducedMotion = usePrefersReducedMotion();
+  const panelHeight = castPanelHeight(height);
+
+  const draw = useCallback(
+    (hour: number) => {
+      const sun = sunAt(hour);
+      const [sr, sg, sb] = sun.colour;
+      const lit = (c: [number, number, number]) =>
+        [Math.round((c[0] * sr) / 255), Math.round((c[1] * sg) / 255), Math.round((c[2] * sb) / 255)];
+
+      /* ---- light on the window ---------------------------- */
+      const glare = glareRef.current && fitCanvas(glareRef.current, width, height);
+      if (glare) {
+        glare.save();
+        if (outline) {
+          tracePolygon(glare, outline);
+          glare.clip();
+        }
+        // Dusk and night dim the glass
+        glare.fillStyle = `rgba(6, 8, 20, ${(1 - sun.intensity) * 0.5})`;
+        glare.fillRect(0, 0, width, height);
+        glare.globalCompositeOperation = "lighter";
+        for (const { id, seed, vertices } of cells) {
+          const fill = fills.get(id);
+          const light = paneLight(seed, sun, width, height);
+          if (!fill || light < 0.02) continue;
+          const [r, g, b] = lit(fill);
+          tracePolygon(glare, vertices);
+          glare.fillStyle = `rgba(${r}, ${g}, ${b}, ${light * 0.45})`;
+          glare.fill();
+        }
+        glare.restore();
+      }
+
+      /* ---- light in the room ------------------------------ */
+      const cast = castRef.current && fitCanvas(castRef.current, width, panelHeight);
+      if (!cast) return;
+      const surface = cast.createLinearGradient(0, 0, 0, panelHeight);
+      if (settings.surface === "floor") {
+        surface.addColorStop(0, "rgb(28, 24, 22)");
+        surface.addColorStop(1, "rgb(48, 42, 38)");
+      } else {
+        surface.addColorStop(0, "rgb(44, 42, 40)");
+        surface.addColorStop(1, "rgb(30, 29, 28)");
+      }
+      cast.fillStyle = surface;
+      cast.fillRect(0, 0, width, panelHeight);
+
+      if (sun.intensity > 0) {
+        // Patches drawn sharp offscreen, then blurred in one go
+        const pattern = (patternRef.current ??= document.createElement("canvas"));
+        const ctx = fitCanvas(pattern, width, panelHeight);
+        if (ctx) {
+          ctx.globalCompositeOperation = "lighter";
+          for (const { id, vertices } of cells) {
+            const fill = fills.get(id);
+            const patch = fill && castPolygon(vertices, sun, settings.surface, width, height, panelHeight);
+            if (!fill || !patch) continue;
+            const [r, g, b] = lit(fill);
+            tracePolygon(ctx, patch);
+            ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${0.55 * sun.intensity})`;
+            ctx.fill();
+          }
+          cast.save();
+          cast.globalCompositeOperation = "lighter";
+          cast.filter = "blur(3px)";
+          cast.drawImage(pattern, 0, 0, width, panelHeight);
+          cast.restore();
+        }
+      }
+
+      const hh = Math.floor(hour) % 24;
+      const mm = Math.floor((hour % 1) * 60);
+      cast.font = "11px ui-sans-serif, system-ui, sans-serif";
+      cast.fillStyle = "rgba(255, 255, 255, 0.45)";
+      cast.textAlign = "right";
+      cast.fillText(`${String(hh).padStart(2, "0")}:${String(mm).padStart(2, "0")}`, width - 10, panelHeight - 10);
+    },
+    [cells, fills, width, height, outline, settings.surface, panelHeight]
+  );
+
+  useEffect(() => {
+    const source = settings.source === "cycle" && reducedMotion ? "clock" : settings.source;
+    if (source === "slider") {
+      draw(settings.hour);
+      return;
+    }
+    if (source === "clock") {
+      draw(hourOf(new Date()));
+      const timer = setInterval(() => draw(hourOf(new Date())), 60_000);
+      return () => clearInterval(timer);
+    }
+    // A whole day every DAY_CYCLE_SECONDS, starting from now
+    const startHour = hourOf(new Date());
+    const start = performance.now();
+    let frame = 0;
+    const tick = (now: number) => {
+      draw((startHour + ((now - start) / 1000) * (24 / DAY_CYCLE_SECONDS)) % 24);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [draw, settings.source, settings.hour, reducedMotion]);
+
+  return (
+    <>
+      <canvas
+        ref={glareRef}
+        className="absolute inset-0 pointer-events-none z-[5] rounded-lg"
+        style={{ width, height }}
+      />
+      <canvas
+        ref={castRef}
+        className="absolute left-0 pointer-events-none rounded-lg"
+        style={{ top: height + CAST_PANEL_GAP, width, height: panelHeight }}
+        aria-hidden
+      />
+    </>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from "react";
+import {
+  CUT_COLOURS,
+  CutColours,
+  ExportFormat,
+  isCutPatternFormat,
+  PAPER_NAMES,
+  PaperName,
+} from "@/lib/exportOptions";
+
+interface ExportControlsProps {
+  slug: string;
+}
+
+const PAPER_LABELS: Record<PaperName, string> = {
+  a4: "A4",
+  a3: "A3",
+  letter: "US Letter",
+  tabloid: "Tabloid",
+};
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  png: "Image (PNG)",
+  pdf: "Poster (PDF)",
+  svg: "Cut pattern (SVG)",
+  dxf: "Cut pattern (DXF)",
+  csv: "Parts list (CSV)",
+};
+
+const COLOUR_LABELS: Record<CutColours, string> = {
+  palette: "Nearest glass sheet",
+  sampled: "Sampled colour",
+};
+
+const PNG_SCALES = [0.5, 1, 2];
+
+const POSTER_WIDTHS = [0, 500, 1000];
+
+const selectClass =
+  "w-full px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-200 focus:outline-none focus:border-amber-500/50 transition";
+
+const labelClass = "block text-[11px] text-gray-500 uppercase tracking-wide mb-1.5";
+
+/**
+ * Popover for downloading the window as an image, a printable poster
+ * or a cut pattern for the glazier. The file is drawn by the export
+ * route, from the saved layout and style, so unsaved previews are not
+ * included.
+ */
+export default function ExportControls({ slug }: ExportControlsProps) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("png");
+  const [scale, setScale] = useState(1);
+  const [paper, setPaper] = useState<PaperName>("a4");
+  const [widthMm, setWidthMm] = useState(0);
+  const [legend, setLegend] = useState(true);
+  const [windowCm, setWindowCm] = useState(60);
+  const [leadMm, setLeadMm] = useState("");
+  const [colours, setColours] = useState<CutColours | "">("");
+
+  const query = new URLSearchParams({ format });
+  if (format === "png") {
+    query.set("scale", String(scale));
+  } else if (isCutPatternFormat(format)) {
+    query.set("widthMm", String(windowCm * 10));
+    if (leadMm.trim()) query.set("leadMm", leadMm.trim());
+    if (colours) query.set("colours", colours);
+  } else {
+    query.set("paper", paper);
+    if (widthMm > 0) query.set("widthMm", String(widthMm));
+    if (legend) query.set("legend", "1");
+  }
+  const href = `/api/images/${encodeURIComponent(slug)}/export?${query}`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-white hover:text-amber-300 transition-colors"
+        title="Download"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2.5}
+            d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+          />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute right-8 top-1/2 -translate-y-1/2 w-56 rounded-xl bg-gray-900/95 backdrop-blur-xl border border-white/10 shadow-2xl overflow-hidden animate-fadeIn">
+          <div className="p-3 space-y-3">
+            <div>
+              <label className={labelClass}>Download as</label>
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as ExportFormat)}
+                className={selectClass}
+              >
+                {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((f) => (
+                  <option key={f} value={f} className="bg-gray-900">
+                    {FORMAT_LABELS[f]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {format === "png" ? (
+              <div>
+                <label className={labelClass}>Size</label>
+                <select value={scale} onChange={(e) => setScale(Number(e.target.value))} className={selectClass}>
+                  {PNG_SCALES.map((s) => (
+                    <option key={s} value={s} className="bg-gray-900">
+                      {s === 1 ? "Full resolution" : `${s * 100}%`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : isCutPatternFormat(format) ? (
+              <>
+                <div>
+                  <label className={labelClass}>Window width (cm)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    step={0.5}
+                    value={windowCm}
+                    onChange={(e) => setWindowCm(Number(e.target.value))}
+                    className={selectClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Lead width (mm)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={leadMm}
+                    placeholder="Default for the leading"
+                    onChange={(e) => setLeadMm(e.target.value)}
+                    className={selectClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Colours</label>
+                  <select
+                    value={colours}
+                    onChange={(e) => setColours(e.target.value as CutColours | "")}
+                    className={selectClass}
+                  >
+                    <option value="" className="bg-gray-900">
+                      As the window is styled
+                    </option>
+                    {CUT_COLOURS.map((c) => (
+                      <option key={c} value={c} className="bg-gray-900">
+                        {COLOUR_LABELS[c]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            ) : (
+              <>
+                <div>
+                  <label className={labelClass}>Paper</label>
+                  <select
+                    value={paper}
+                    onChange={(e) => setPaper(e.target.value as PaperName)}
+                    className={selectClass}
+                  >
+                    {PAPER_NAMES.map((name) => (
+                      <option key={name} value={name} className="bg-gray-900">
+                        {PAPER_LABELS[name]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Printed width</label>
+                  <select value={widthMm} onChange={(e) => setWidthMm(Number(e.target.value))} className={selectClass}>
+                    {POSTER_WIDTHS.map((w) => (
+                      <option key={w} value={w} className="bg-gray-900">
+                        {w === 0 ? "One page" : `${w / 10} cm`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex items-center justify-between text-xs text-gray-200">
+                  Number annotated pieces
+                  <input
+                    type="checkbox"
+                    checked={legend}
+                    onChange={(e) => setLegend(e.target.checked)}
+                    className="accent-amber-500"
+                  />
+                </label>
+              </>
+            )}
+
+            <a
+              href={href}
+              download
+              className="block w-full px-2 py-1 text-xs font-medium text-center rounded-lg bg-amber-500 text-black hover:bg-amber-400 transition"
+            >
+              Download
+            </a>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,12 @@ interface ImageRecord {
   fileName: string;
   blobUrl: string;
   uploadedAt: string;
+  trashedAt?: string;
+  purgeAt?: string;
+}
+
+function daysUntil(iso: string): number {
+  return Math.max(0, Math.ceil((Date.parse(iso) - Date.now()) / 86_400_000));
 }
 
 export default function Gallery() {
@@ -19,6 +25,9 @@ export default function Gallery() {
   const [isUploading, setIsUploading] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [uploadError, setUploadError] = useState("");
+  const [view, setView] = useState<"gallery" | "trash">("gallery");
+  const [trash, setTrash] = useState<ImageRecord[]>([]);
+  const [lastTrashed, setLastTrashed] = useState<ImageRecord | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
 
@@ -35,10 +44,26 @@ export default function Gallery() {
     }
   };
 
+  const fetchTrash = async () => {
+    try {
+      const res = await fetch("/api/trash");
+      if (res.ok) setTrash(await res.json());
+    } catch (err) {
+      console.error("Failed to load trash:", err);
+    }
+  };
+
   useEffect(() => {
-    fetchImages();
+    fetchImages().then(fetchTrash);
   }, []);
 
+  // Hide the undo toast after a few seconds
+  useEffect(() => {
+    if (!lastTrashed) return;
+    const timer = setTimeout(() => setLastTrashed(null), 6000);
+    return () => clearTimeout(timer);
+  }, [lastTrashed]);
+
   /* ── upload handling ───────────────────────────────────── */
   const handleFile = async (file: File) => {
     const allowed = ["image/jpeg", "image/png", "image/webp", "image/gif"];
@@ -75,6 +100,7 @@ export default function Gallery() {
   const handleBgClick = (e: React.MouseEvent) => {
     // Only trigger if clicking background, not an image link or button
     const target = e.target as HTMLElement;
+    if (view === "trash") return;
     if (target.closest("a") || target.closest("button")) return;
     fileInputRef.current?.click();
   };
@@ -86,13 +112,37 @@ export default function Gallery() {
     e.target.value = "";
   };
 
-  const handleDelete = async (slug: string, e: React.MouseEvent) => {
+  // Deleting only moves the image to the trash, so no confirm() here
+  const handleDelete = async (image: ImageRecord, e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    if (!confirm("Delete this image?")) return;
     try {
-      await fetch(`/api/images/${slug}`, { method: "DELETE" });
-      setImages((prev) => prev.filter((img) => img.slug !== slug));
+      const res = await fetch(`/api/images/${image.slug}`, { method: "DELETE" });
+      if (!res.ok) return;
+      setImages((prev) => prev.filter((img) => img.slug !== image.slug));
+      setLastTrashed(image);
+      fetchTrash();
+    } catch {
+      // silently fail
+    }
+  };
+
+  const handleRestore = async (slug: string) => {
+    try {
+      const res = await fetch(`/api/images/${slug}/restore`, { method: "POST" });
+      if (!res.ok) return;
+      setLastTrashed(null);
+      await Promise.all([fetchImages(), fetchTrash()]);
+    } catch {
+      // silently fail
+    }
+  };
+
+  const handlePurge = async (slug: string) => {
+    if (!confirm("Delete this image forever? Its annotations cannot be recovered.")) return;
+    try {
+      const res = await fetch(`/api/trash/${slug}`, { method: "DELETE" });
+      if (res.ok) setTrash((prev) => prev.filter((img) => img.slug !== slug));
     } catch {
       // silently fail
     }
@@ -101,12 +151,12 @@ export default function Gallery() {
   /* ── render ────────────────────────────────────────────── */
   return (
     <main
-      className="min-h-screen px-16 py-12 cursor-pointer"
+      className={`min-h-screen px-16 py-12 ${view === "trash" ? "" : "cursor-pointer"}`}
       onClick={handleBgClick}
       onDrop={handleDrop}
       onDragOver={(e) => {
         e.preventDefault();
-        setIsDragging(true);
+        if (view === "gallery") setIsDragging(true);
       }}
       onDragLeave={() => setIsDragging(false)}
     >
@@ -141,7 +191,67 @@ export default function Gallery() {
         </div>
       )}
 
-      {loading ? (
+      {/* Trash toggle */}
+      {(trash.length > 0 || view === "trash") && (
+        <button
+          onClick={() => setView((v) => (v === "trash" ? "gallery" : "trash"))}
+          className="fixed top-4 left-4 z-40 px-3 py-1.5 rounded-lg bg-gray-900/80 border border-white/10 text-xs text-gray-400 hover:text-amber-300 transition-colors"
+        >
+          {view === "trash" ? "← Gallery" : `Trash (${trash.length})`}
+        </button>
+      )}
+
+      {/* Undo toast */}
+      {lastTrashed && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-2 rounded-lg bg-gray-900/95 border border-white/10 text-sm text-gray-300">
+          Moved to trash
+          <button
+            onClick={() => handleRestore(lastTrashed.slug)}
+            className="text-amber-400 hover:text-amber-300 font-medium"
+          >
+            Undo
+          </button>
+        </div>
+      )}
+
+      {view === "trash" ? (
+        trash.length === 0 ? (
+          <div className="flex items-center justify-center h-[80vh]">
+            <p className="text-gray-500 text-sm">Trash is empty</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
+            {trash.map((image) => (
+              <div key={image.id} className="group relative aspect-[4/3] overflow-hidden">
+                <img
+                  src={image.blobUrl}
+                  alt={image.originalName}
+                  className="w-full h-full object-cover grayscale opacity-50"
+                />
+                <div className="absolute inset-x-0 bottom-0 p-3 flex items-center justify-between gap-2 bg-gradient-to-t from-black/80 to-transparent">
+                  <span className="text-[11px] text-gray-400">
+                    {image.purgeAt && `Deleted in ${daysUntil(image.purgeAt)} days`}
+                  </span>
+                  <div className="flex gap-1.5">
+                    <button
+                      onClick={() => handleRestore(image.slug)}
+                      className="px-2 py-1 text-xs font-medium rounded-lg bg-amber-500 text-black hover:bg-amber-400 transition"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => handlePurge(image.slug)}
+                      className="px-2 py-1 text-xs font-medium rounded-lg bg-red-500/10 text-red-400 hover:bg-red-500/20 transition"
+                    >
+                      Delete forever
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      ) : loading ? (
         <div className="flex items-center justify-center h-[80vh]">
           <div className="w-8 h-8 border-3 border-amber-500/30 border-t-amber-500 rounded-full animate-spin" />
         </div>
@@ -162,9 +272,9 @@ export default function Gallery() {
               />
               {/* Delete button on hover */}
               <button
-                onClick={(e) => handleDelete(image.slug, e)}
+                onClick={(e) => handleDelete(image, e)}
                 className="absolute top-1.5 right-1.5 w-6 h-6 rounded-full bg-black/60 text-gray-400 hover:text-red-400 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity text-xs"
-                title="Delete"
+                title="Move to trash"
               >
                 &times;
               </button>
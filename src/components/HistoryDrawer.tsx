@@ -0,0 +1,169 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { CellAnnotation } from "./CellInfoPanel";
+import { authorHeaders, getAuthorLabel, setAuthorLabel } from "@/lib/author";
+
+interface RevisionSummary {
+  id: string;
+  createdAt: string;
+  author: string;
+  cell: CellAnnotation | null;
+}
+
+interface HistoryDrawerProps {
+  slug: string;
+  cellId: number;
+  onRestore: (cellId: number, annotation: CellAnnotation | null) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "title",
+  description: "description",
+  date: "date",
+  attachment: "image",
+};
+
+/**
+ * Fields that differ between a cell and its previous (older) state.
+ */
+function changedFields(
+  cell: CellAnnotation | null,
+  previous: CellAnnotation | null
+): string[] {
+  if (!cell) return ["deleted"];
+  if (!previous) return ["created"];
+  return Object.keys(FIELD_LABELS).filter(
+    (k) =>
+      JSON.stringify(cell[k as keyof CellAnnotation]) !==
+      JSON.stringify(previous[k as keyof CellAnnotation])
+  ).map((k) => FIELD_LABELS[k]);
+}
+
+/**
+ * Revision list for one cell, shown inside the editor panel.
+ */
+export default function HistoryDrawer({ slug, cellId, onRestore }: HistoryDrawerProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[] | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [author, setAuthor] = useState("");
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => setAuthor(getAuthorLabel()), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRevisions(null);
+    fetch(`/api/images/${encodeURIComponent(slug)}/revisions?cellId=${cellId}`, {
+      cache: "no-store",
+    })
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => {
+        if (!cancelled) setRevisions(data);
+      })
+      .catch(() => {
+        if (!cancelled) setRevisions([]);
+      });
+    return () => { cancelled = true; };
+  }, [slug, cellId, reloadKey]);
+
+  const handleRestore = async (revision: RevisionSummary) => {
+    setRestoring(revision.id);
+    setError("");
+    try {
+      const res = await fetch(
+        `/api/images/${encodeURIComponent(slug)}/revisions/${revision.id}/restore`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authorHeaders() },
+          body: JSON.stringify({ cellId }),
+        }
+      );
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Restore failed");
+      }
+      onRestore(cellId, revision.cell);
+      setReloadKey((k) => k + 1);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Restore failed");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-white/5">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-6 h-px bg-amber-500/40" />
+        <p className="text-[11px] text-amber-400/60 tracking-[0.15em] uppercase font-medium">
+          History
+        </p>
+      </div>
+
+      <label className="block text-[11px] text-gray-500/80 tracking-wide uppercase mb-2">
+        Your name
+      </label>
+      <input
+        type="text"
+        value={author}
+        onChange={(e) => {
+          setAuthor(e.target.value);
+          setAuthorLabel(e.target.value);
+        }}
+        placeholder="Shown on your edits…"
+        className="w-full mb-6 px-0 py-1.5 text-[13px] font-light bg-transparent border-0 border-b border-white/10 text-white/80 placeholder-gray-600 focus:outline-none focus:border-amber-500/40 transition"
+      />
+
+      {revisions === null ? (
+        <p className="text-[12px] text-gray-600">Loading…</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-[12px] text-gray-600">No saved changes yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {revisions.map((revision, i) => {
+            const previous = revisions[i + 1]?.cell ?? null;
+            const isCurrent = i === 0;
+            return (
+              <li
+                key={revision.id}
+                className="flex items-start justify-between gap-3 rounded-lg bg-white/[0.02] px-3 py-2.5"
+              >
+                <div className="min-w-0">
+                  <p className="text-[13px] text-white/80 truncate">
+                    {revision.cell?.title ?? <span className="text-gray-500 italic">removed</span>}
+                  </p>
+                  <p className="text-[11px] text-gray-500 mt-0.5">
+                    {new Date(revision.createdAt).toLocaleString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}{" "}
+                    &middot; {revision.author}
+                  </p>
+                  <p className="text-[11px] text-amber-400/50 mt-0.5">
+                    {changedFields(revision.cell, previous).join(", ")}
+                  </p>
+                </div>
+                {isCurrent ? (
+                  <span className="text-[11px] text-gray-600 flex-shrink-0">current</span>
+                ) : (
+                  <button
+                    onClick={() => handleRestore(revision)}
+                    disabled={restoring !== null}
+                    className="flex-shrink-0 px-2.5 py-1 text-[11px] font-medium rounded-lg bg-white/5 text-gray-400 hover:bg-white/10 disabled:opacity-30 transition"
+                  >
+                    {restoring === revision.id ? "Restoring…" : "Restore"}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {error && <p className="mt-3 text-[11px] text-red-400/80">{error}</p>}
+    </div>
+  );
+}
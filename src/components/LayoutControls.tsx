@@ -0,0 +1,366 @@
+"use client";
+
+import { useState } from "react";
+import type { CellQuality } from "@/lib/delaunay";
+import {
+  MAX_CELLS,
+  MAX_RELAX_ITERATIONS,
+  MIN_CELLS,
+  isTiling,
+  randomSeed,
+  TESSELLATION_ALGORITHMS,
+  TessellationSettings,
+} from "@/lib/tessellation";
+import { OUTLINE_SHAPES, OutlineShape } from "@/lib/outlines";
+
+interface LayoutControlsProps {
+  slug: string;
+  saved: TessellationSettings;
+  draft: TessellationSettings;
+  /** Measures of the layout currently shown. */
+  quality: CellQuality | null;
+  /** Show `settings` in the window without saving them. */
+  onPreview: (settings: TessellationSettings) => void;
+  /** Called once `settings` have been saved. */
+  onCommit: (settings: TessellationSettings) => void;
+  /** Whether pieces are being edited by hand in the window. */
+  editing: boolean;
+  onEditingChange: (editing: boolean) => void;
+}
+
+const ALGORITHM_LABELS: Record<string, string> = {
+  "jittered-grid": "Jittered grid",
+  "poisson-disk": "Poisson disk",
+  "hexagonal": "Hexagons",
+  "triangular": "Triangles",
+  "rose-window": "Rose window",
+  "quad-tree": "Quad-tree mosaic",
+  "content-aware": "Follow the photo",
+};
+
+const OUTLINE_LABELS: Record<OutlineShape, string> = {
+  rectangle: "Rectangle",
+  arch: "Round arch",
+  round: "Circle",
+  lancet: "Lancet",
+  custom: "Custom SVG path",
+};
+
+/** Path data of the first `<path>` in an SVG document, if any. */
+function firstSvgPath(svg: string): string | null {
+  const doc = new DOMParser().parseFromString(svg, "image/svg+xml");
+  return doc.querySelector("path")?.getAttribute("d") ?? null;
+}
+
+function clampCells(n: number): number {
+  return Math.max(MIN_CELLS, Math.min(MAX_CELLS, Math.round(n)));
+}
+
+/**
+ * Editor popover for previewing and saving a new piece layout.
+ */
+export default function LayoutControls({
+  slug,
+  saved,
+  draft,
+  quality,
+  onPreview,
+  onCommit,
+  editing,
+  onEditingChange,
+}: LayoutControlsProps) {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved);
+
+  const update = (patch: Partial<TessellationSettings>) => {
+    setError("");
+    onPreview({ ...draft, ...patch });
+  };
+
+  // Changes to how seeds are generated replace any hand edits
+  const regenerate = (patch: Partial<TessellationSettings>) => {
+    onEditingChange(false);
+    update({ ...patch, seeds: undefined });
+  };
+
+  const setOutline = (shape: OutlineShape, path?: string) => {
+    update({
+      outline:
+        shape === "rectangle"
+          ? undefined
+          : shape === "custom"
+            ? { shape, path: path ?? draft.outline?.path ?? "" }
+            : { shape },
+    });
+  };
+
+  const handleSvgFile = async (file: File) => {
+    const path = firstSvgPath(await file.text());
+    if (path) setOutline("custom", path);
+    else setError("No <path> found in that SVG");
+  };
+
+  const handleCancel = () => {
+    onPreview(saved);
+    onEditingChange(false);
+    setOpen(false);
+    setError("");
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/images/${encodeURIComponent(slug)}/tessellation`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Save failed");
+      onCommit(data);
+      onEditingChange(false);
+      setOpen(false);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Save failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (open ? handleCancel() : setOpen(true))}
+        className="text-white hover:text-amber-300 transition-colors"
+        title="Layout"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2.5}
+            d="M4 5h6v6H4zM14 5h6v4h-6zM14 13h6v6h-6zM4 15h6v4H4z"
+          />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute right-8 top-1/2 -translate-y-1/2 w-60 rounded-xl bg-gray-900/95 backdrop-blur-xl border border-white/10 shadow-2xl overflow-hidden animate-fadeIn">
+          <div className="p-3 space-y-3">
+            <div>
+              <label className="block text-[11px] text-gray-500 uppercase tracking-wide mb-1.5">
+                Pieces
+              </label>
+              <div className="flex gap-1.5">
+                <button
+                  onClick={() => regenerate({ cellCount: clampCells(draft.cellCount * 0.8) })}
+                  disabled={draft.cellCount <= MIN_CELLS}
+                  className="px-2 py-1 text-xs font-medium rounded-lg bg-white/5 text-gray-400 hover:bg-white/10 disabled:opacity-30 transition"
+                >
+                  Fewer
+                </button>
+                <input
+                  type="number"
+                  min={MIN_CELLS}
+                  max={MAX_CELLS}
+                  value={draft.cellCount}
+                  onChange={(e) => {
+                    const n = Number(e.target.value);
+                    if (Number.isFinite(n) && n > 0) regenerate({ cellCount: clampCells(n) });
+                  }}
+                  className="w-full min-w-0 px-2 py-1 text-xs text-center rounded-lg bg-white/5 border border-white/10 text-gray-200 focus:outline-none focus:border-amber-500/50 transition"
+                />
+                <button
+                  onClick={() => regenerate({ cellCount: clampCells(draft.cellCount * 1.25) })}
+                  disabled={draft.cellCount >= MAX_CELLS}
+                  className="px-2 py-1 text-xs font-medium rounded-lg bg-white/5 text-gray-400 hover:bg-white/10 disabled:opacity-30 transition"
+                >
+                  More
+                </button>
+              </div>
+            </div>
+
+            {draft.algorithm === "content-aware" ? (
+              <div>
+                <label className="block text-[11px] text-gray-500 uppercase tracking-wide mb-1.5">
+                  Edge snapping
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={draft.edgeSnap ?? 0.5}
+                  onChange={(e) => update({ edgeSnap: Number(e.target.value) })}
+                  className="w-full accent-amber-500"
+                />
+              </div>
+            ) : draft.algorithm === "jittered-grid" && (
+              <div>
+                <label className="block text-[11px] text-gray-500 uppercase tracking-wide mb-1.5">
+                  Irregularity
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={draft.jitter}
+                  onChange={(e) => regenerate({ jitter: Number(e.target.value) })}
+                  className="w-full accent-amber-500"
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="block text-[11px] text-gray-500 uppercase tracking-wide mb-1.5">
+                Algorithm
+              </label>
+              <select
+                value={draft.algorithm}
+                onChange={(e) =>
+                  regenerate({ algorithm: e.target.value as TessellationSettings["algorithm"] })
+                }
+                className="w-full px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-200 focus:outline-none focus:border-amber-500/50 transition"
+              >
+                {TESSELLATION_ALGORITHMS.map((algorithm) => (
+                  <option key={algorithm} value={algorithm} className="bg-gray-900">
+                    {ALGORITHM_LABELS[algorithm] ?? algorithm}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {!isTiling(draft.algorithm) && (
+              <div>
+                <label className="block text-[11px] text-gray-500 uppercase tracking-wide mb-1.5">
+                  Relax &middot; {draft.relaxIterations ?? 0}
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_RELAX_ITERATIONS}
+                  step={1}
+                  value={draft.relaxIterations ?? 0}
+                  onChange={(e) => regenerate({ relaxIterations: Number(e.target.value) })}
+                  className="w-full accent-amber-500"
+                />
+                <label className="flex items-center gap-2 mt-1.5 text-xs text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={!!draft.relaxWeighted}
+                    disabled={!draft.relaxIterations}
+                    onChange={(e) => regenerate({ relaxWeighted: e.target.checked })}
+                    className="accent-amber-500"
+                  />
+                  Toward detail in the photo
+                </label>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-[11px] text-gray-500 uppercase tracking-wide mb-1.5">
+                Outline
+              </label>
+              <select
+                value={draft.outline?.shape ?? "rectangle"}
+                onChange={(e) => setOutline(e.target.value as OutlineShape)}
+                className="w-full px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-200 focus:outline-none focus:border-amber-500/50 transition"
+              >
+                {OUTLINE_SHAPES.map((shape) => (
+                  <option key={shape} value={shape} className="bg-gray-900">
+                    {OUTLINE_LABELS[shape]}
+                  </option>
+                ))}
+              </select>
+              {draft.outline?.shape === "custom" && (
+                <div className="mt-1.5 space-y-1.5">
+                  <textarea
+                    value={draft.outline.path ?? ""}
+                    onChange={(e) => setOutline("custom", e.target.value)}
+                    placeholder="M 0 100 L 50 0 L 100 100 Z"
+                    rows={3}
+                    className="w-full px-2 py-1 text-[11px] font-mono rounded-lg bg-white/5 border border-white/10 text-gray-200 placeholder-gray-600 focus:outline-none focus:border-amber-500/50 transition resize-none"
+                  />
+                  <label className="block w-full px-2 py-1 text-xs text-center font-medium rounded-lg bg-white/5 text-gray-300 hover:bg-white/10 cursor-pointer transition">
+                    Load from .svg
+                    <input
+                      type="file"
+                      accept=".svg,image/svg+xml"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleSvgFile(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </div>
+              )}
+            </div>
+
+            <button
+              onClick={() => regenerate({ seed: randomSeed() })}
+              className="w-full px-2 py-1 text-xs font-medium rounded-lg bg-white/5 text-gray-300 hover:bg-white/10 transition"
+            >
+              Reshuffle
+            </button>
+
+            <div>
+              <button
+                onClick={() => onEditingChange(!editing)}
+                className={`w-full px-2 py-1 text-xs font-medium rounded-lg transition ${
+                  editing
+                    ? "bg-amber-500/20 text-amber-300 hover:bg-amber-500/30"
+                    : "bg-white/5 text-gray-300 hover:bg-white/10"
+                }`}
+              >
+                {editing ? "Stop editing pieces" : "Edit pieces by hand"}
+              </button>
+              {draft.seeds && (
+                <p className="mt-1.5 text-[11px] text-gray-500">
+                  Hand-edited &middot; {draft.seeds.length} seeds &middot;{" "}
+                  <button
+                    onClick={() => regenerate({})}
+                    className="text-gray-400 underline hover:text-gray-200"
+                  >
+                    discard edits
+                  </button>
+                </p>
+              )}
+            </div>
+
+            {quality && (
+              <p className="text-[11px] text-gray-500">
+                {quality.cellCount} pieces &middot; size variance {quality.areaVariance.toFixed(2)}{" "}
+                &middot; min angle {Math.round(quality.minAngle)}&deg;
+              </p>
+            )}
+
+            {error && <p className="text-red-400 text-xs">{error}</p>}
+
+            <div className="flex gap-1.5">
+              <button
+                onClick={handleSave}
+                disabled={!dirty || saving}
+                className="flex-1 px-2 py-1 text-xs font-medium rounded-lg bg-amber-500 text-black hover:bg-amber-400 disabled:opacity-40 transition"
+              >
+                {saving ? "Saving…" : "Save layout"}
+              </button>
+              <button
+                onClick={handleCancel}
+                className="px-2 py-1 text-xs font-medium rounded-lg bg-white/5 text-gray-400 hover:bg-white/10 transition"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
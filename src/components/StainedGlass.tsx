@@ -1,19 +1,107 @@
 "use client";
 
-import { useEffect, useRef, useState, useCallback } from "react";
-import { generateVoronoiCells, VoronoiCell } from "@/lib/delaunay";
+import { useEffect, useMemo, useRef, useState, useCallback } from "react";
+import {
+  Bounds,
+  cellGraph,
+  cellQuality,
+  CellQuality,
+  colourGraph,
+  createCellIndex,
+  floodFill,
+  neighbourToward,
+  Point,
+  pointInPolygon,
+  scaleCells,
+  VoronoiCell,
+} from "@/lib/delaunay";
+import { anchorOf, bindAnnotations, nextAnnotationKey } from "@/lib/anchors";
 import CellInfoPanel, { CellAnnotation } from "./CellInfoPanel";
-
-const NUM_CELLS = 120;
+import { authorHeaders } from "@/lib/author";
+import { tessellate, TessellationSettings } from "@/lib/tessellation";
+import { DETAIL_MAP_SIZE, downsamplePixels, ImagePixels } from "@/lib/contentAware";
+import { outlinePolygon } from "@/lib/outlines";
+import type { GlassStyle } from "@/lib/glassStyle";
+import {
+  colourCells,
+  COLOUR_SAMPLE_SIZE,
+  layoutKey,
+  packColours,
+  unpackColours,
+} from "@/lib/cellColours";
+import {
+  GLASS_PRESETS,
+  matchGlass,
+  paletteReport,
+  PaletteReportRow,
+} from "@/lib/glassPalette";
+import { createGlassRenderer, GlassRenderer, GlassScene } from "@/lib/renderers";
+import { glassScene, paintGlass } from "@/lib/glassScene";
+import type { DaylightSettings } from "@/lib/daylight";
+import DaylightLayer, { CAST_PANEL_SHARE, castPanelSpace } from "./DaylightLayer";
+import {
+  addSeed,
+  ManualSeed,
+  mergePieces,
+  moveSeed,
+  pinnedAnnotations,
+  removeSeed,
+  seedsFromCells,
+  splitPiece,
+  withAnnotations,
+} from "@/lib/manualSeeds";
 
 interface StainedGlassProps {
   imageUrl: string;
   slug: string;
-  shuffleKey?: number;
+  tessellation: TessellationSettings;
+  glassStyle: GlassStyle;
   viewMode?: boolean;
   onHoverAnnotation?: (hovering: boolean) => void;
+  /** Called with quality measures whenever a new layout is built. */
+  onLayout?: (quality: CellQuality) => void;
+  /** Hand-edit the layout: drag, add, remove, merge and split pieces. */
+  editing?: boolean;
+  /** Called with the settings after each hand edit. */
+  onEditLayout?: (settings: TessellationSettings) => void;
+  /**
+   * Store sampled colours with the image for viewers to reuse. Only
+   * set while showing the saved layout and style.
+   */
+  saveColours?: boolean;
+  /** Called with the pane count per sheet while a fixed palette is in use. */
+  onPaletteReport?: (report: PaletteReportRow[] | null) => void;
+  /** Light the window with simulated daylight; view mode only. */
+  daylight?: DaylightSettings | null;
+}
+
+/** Piece colours as stored with the image. */
+interface StoredColours {
+  layout: string;
+  colours: number[];
 }
 
+type EditTool = "move" | "merge" | "split";
+
+const EDIT_TOOLS: Array<{ tool: EditTool; label: string; hint: string }> = [
+  { tool: "move", label: "Move", hint: "Drag a seed · double-click to add · Delete to remove" },
+  { tool: "merge", label: "Merge", hint: "Click two neighbouring pieces" },
+  { tool: "split", label: "Split", hint: "Draw a line across a piece" },
+];
+
+/** How close, in CSS pixels, a click must be to grab a seed. */
+const SEED_HIT_RADIUS = 8;
+
+/** Largest RGB distance from the clicked piece for region selection. */
+const REGION_TOLERANCE = 48;
+
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
 /* ── read-only display panel ─────────────────────────────── */
 
 function ReadOnlyPanel({ annotation }: { annotation: CellAnnotation }) {
@@ -68,10 +156,12 @@ function ReadOnlyPanel({ annotation }: { annotation: CellAnnotation }) {
         )}
 
         {/* Image with soft edges */}
-        {annotation.imageDataUrl && (
+        {annotation.attachment && (
           <div className="mt-8 rounded-xl overflow-hidden flex-shrink-0">
             <img
-              src={annotation.imageDataUrl}
+              src={annotation.attachment.url}
+              width={annotation.attachment.width}
+              height={annotation.attachment.height}
               alt={annotation.title}
               className="w-full object-contain"
             />
@@ -93,221 +183,599 @@ function ReadOnlyPanel({ annotation }: { annotation: CellAnnotation }) {
 
 /* ── component ───────────────────────────────────────────── */
 
-export default function StainedGlass({ imageUrl, slug, shuffleKey = 0, viewMode = false, onHoverAnnotation }: StainedGlassProps) {
+export default function StainedGlass({ imageUrl, slug, tessellation, glassStyle, viewMode = false, onHoverAnnotation, onLayout, editing = false, onEditLayout, saveColours = false, onPaletteReport, daylight = null }: StainedGlassProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [cells, setCells] = useState<VoronoiCell[]>([]);
+  const [layoutSize, setLayoutSize] = useState({ width: 0, height: 0 });
+  // Downsampled copy of the image for content-aware layouts
+  const [pixels, setPixels] = useState<ImagePixels | undefined>(undefined);
+  const [colourPixels, setColourPixels] = useState<ImagePixels | undefined>(undefined);
   const [hoveredCell, setHoveredCell] = useState<number | null>(null);
-  const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
   const [selectedCell, setSelectedCell] = useState<number | null>(null);
   const [viewSelectedCell, setViewSelectedCell] = useState<number | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Keyed by annotation key, not cell id – see `cellKeys`
   const [annotations, setAnnotations] = useState<Record<number, CellAnnotation>>({});
+  const [annotationsError, setAnnotationsError] = useState("");
+  const [saveError, setSaveError] = useState("");
+  // On-screen size of the canvas in CSS pixels
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const [imageLoaded, setImageLoaded] = useState(false);
   const imageRef = useRef<HTMLImageElement | null>(null);
-  const scaleRef = useRef(1);
+  // Hand editing; seeds are indices into the editable seed set
+  const [editTool, setEditTool] = useState<EditTool>("move");
+  const [selectedSeed, setSelectedSeed] = useState<number | null>(null);
+  const [mergeFrom, setMergeFrom] = useState<number | null>(null);
+  const [splitLine, setSplitLine] = useState<{ a: Point; b: Point } | null>(null);
+  const dragSeedRef = useRef<number | null>(null);
+  // Pieces picked by shift-click flood fill
+  const [region, setRegion] = useState<Set<number> | null>(null);
+  // Colours saved with the image; `undefined` until fetched
+  const [storedColours, setStoredColours] = useState<StoredColours | null | undefined>(undefined);
+  const savedColoursRef = useRef<string | null>(null);
 
   // Load persisted annotations from server on mount
   useEffect(() => {
     let cancelled = false;
     fetch(`/api/images/${encodeURIComponent(slug)}/annotations`, { cache: "no-store" })
-      .then((res) => (res.ok ? res.json() : {}))
-      .then((data) => {
-        if (!cancelled) setAnnotations(data);
+      .then(async (res) => {
+        const data = await res.json();
+        if (cancelled) return;
+        if (res.ok) {
+          setAnnotations(data);
+        } else if (data.corrupt) {
+          // Stored annotations failed validation – show the window without them
+          setAnnotationsError("This window's annotations could not be loaded.");
+        }
       })
       .catch(() => {});
     return () => { cancelled = true; };
   }, [slug]);
 
-  /* ── load image & generate cells ──────────────────────── */
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/images/${encodeURIComponent(slug)}/colours`, { cache: "no-store" })
+      .then(async (res) => {
+        const data = res.ok ? ((await res.json()) as StoredColours) : null;
+        if (cancelled) return;
+        setStoredColours(data);
+        savedColoursRef.current = data?.layout ?? null;
+      })
+      .catch(() => {
+        if (!cancelled) setStoredColours(null);
+      });
+    return () => { cancelled = true; };
+  }, [slug]);
+
+  /* ── load image ───────────────────────────────────────── */
   useEffect(() => {
     const img = new Image();
     img.crossOrigin = "anonymous";
     img.onload = () => {
       imageRef.current = img;
-
-      const maxWidth = window.innerWidth - 20;
-      const maxHeight = window.innerHeight - 40;
-      const scale = Math.min(maxWidth / img.width, maxHeight / img.height, 1);
-      scaleRef.current = scale;
-
-      const displayWidth = Math.round(img.width * scale);
-      const displayHeight = Math.round(img.height * scale);
-      setDimensions({ width: displayWidth, height: displayHeight });
-
-      const seed = `${imageUrl}__${shuffleKey}`;
-      setCells(generateVoronoiCells(displayWidth, displayHeight, NUM_CELLS, seed));
+      const width = img.naturalWidth;
+      const height = img.naturalHeight;
+      setLayoutSize({ width, height });
+      const full = readPixels(img);
+      setPixels(full && downsamplePixels(full, DETAIL_MAP_SIZE));
+      setColourPixels(full && downsamplePixels(full, COLOUR_SAMPLE_SIZE));
+      setDimensions(fitToWindow(width, height));
       setImageLoaded(true);
     };
     img.src = imageUrl;
   }, [imageUrl]);
 
+  /* ── generate cells ───────────────────────────────────── */
+
+  // Layout in image pixels; independent of the window it is shown in
+  const cells = useMemo(
+    () =>
+      layoutSize.width > 0
+        ? tessellate(tessellation, layoutSize.width, layoutSize.height, pixels)
+        : [],
+    [tessellation, layoutSize, pixels]
+  );
+
+  // Cell ids only mean something within one layout
+  useEffect(() => {
+    setHoveredCell(null);
+    setSelectedCell(null);
+    setViewSelectedCell(null);
+    setRegion(null);
+  }, [cells]);
+
+  // Which pieces share a lead line; also strokes each line once
+  const graph = useMemo(() => cellGraph(cells), [cells]);
+
+  // Glass colour index per cell when neighbours must differ
+  const glassColours = useMemo(
+    () => (glassStyle.palette === "distinct-neighbours" ? colourGraph(graph) : null),
+    [glassStyle.palette, graph]
+  );
+
+  /* ── sample colours (once per layout) ─────────────────── */
+
+  const sampling = glassStyle.sampling ?? "seed";
+  const colourLayout = useMemo(
+    () => layoutKey(tessellation, sampling, layoutSize.width, layoutSize.height, pixels !== undefined),
+    [tessellation, sampling, layoutSize, pixels]
+  );
+
+  // The cells with their glass colour: the stored colours when they are
+  // for this layout, otherwise sampled from the image
+  const colouredCells = useMemo(() => {
+    if (cells.length === 0 || storedColours === undefined) return cells;
+    if (storedColours?.layout === colourLayout) {
+      const restored = unpackColours(cells, storedColours.colours);
+      if (restored) return restored;
+    }
+    if (!colourPixels) return cells;
+    return colourCells(cells, colourPixels, layoutSize.width, layoutSize.height, sampling);
+  }, [cells, storedColours, colourLayout, colourPixels, layoutSize, sampling]);
+
+  // Sheet of the fixed palette each piece is cut from
+  const glass = glassStyle.glass ?? GLASS_PRESETS[0].colours;
+  const glassMatches = useMemo(
+    () => (glassStyle.palette === "fixed" ? matchGlass(colouredCells, glass) : null),
+    [glassStyle.palette, colouredCells, glass]
+  );
+
+  useEffect(() => {
+    if (!onPaletteReport) return;
+    onPaletteReport(glassMatches ? paletteReport(colouredCells, glass, glassMatches) : null);
+  }, [onPaletteReport, glassMatches, colouredCells, glass]);
+
+  // Sampled colour by cell id
+  const colours = useMemo(() => {
+    const byId = new Map<number, [number, number, number]>();
+    for (const { id, colour } of colouredCells) if (colour) byId.set(id, colour);
+    return byId;
+  }, [colouredCells]);
+
+  useEffect(() => {
+    if (!saveColours || colouredCells === cells || savedColoursRef.current === colourLayout) return;
+    const layout = colourLayout;
+    savedColoursRef.current = layout;
+    fetch(`/api/images/${encodeURIComponent(slug)}/colours`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ layout, colours: packColours(colouredCells) }),
+    })
+      .then((res) => {
+        if (!res.ok && savedColoursRef.current === layout) savedColoursRef.current = null;
+      })
+      .catch(() => {
+        if (savedColoursRef.current === layout) savedColoursRef.current = null;
+      });
+  }, [saveColours, colouredCells, cells, colourLayout, slug]);
+
+  useEffect(() => {
+    if (onLayout && cells.length > 0) onLayout(cellQuality(cells));
+  }, [cells, onLayout]);
+
+  // Daylight casts its light into a panel under the window
+  const daylightShown = viewMode && daylight !== null;
+
+  /* ── re-fit on resize (the layout itself never changes) ─ */
+  useEffect(() => {
+    if (!imageLoaded) return;
+    let frame = 0;
+    const share = daylightShown ? CAST_PANEL_SHARE : 0;
+    const handleResize = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        setDimensions(fitToWindow(layoutSize.width, layoutSize.height, share));
+      });
+    };
+    handleResize();
+    window.addEventListener("resize", handleResize);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("resize", handleResize);
+    };
+  }, [imageLoaded, layoutSize, daylightShown]);
+
+  // Cells in canvas coordinates, for drawing and hit-testing
+  const displayCells = useMemo(
+    () =>
+      layoutSize.width > 0
+        ? scaleCells(
+            colouredCells,
+            dimensions.width / layoutSize.width,
+            dimensions.height / layoutSize.height
+          )
+        : [],
+    [colouredCells, layoutSize, dimensions]
+  );
+
+  // Window outline in canvas coordinates; null for a plain rectangle
+  const displayOutline = useMemo(() => {
+    if (layoutSize.width === 0) return null;
+    const polygon = outlinePolygon(tessellation.outline, layoutSize.width, layoutSize.height);
+    if (!polygon) return null;
+    const sx = dimensions.width / layoutSize.width;
+    const sy = dimensions.height / layoutSize.height;
+    return polygon.map((p) => ({ x: p.x * sx, y: p.y * sy }));
+  }, [tessellation.outline, layoutSize, dimensions]);
+
+  /* ── annotation ↔ cell binding ────────────────────────── */
+  const cellKeys = useMemo(
+    () =>
+      bindAnnotations(
+        annotations,
+        cells,
+        layoutSize.width,
+        layoutSize.height,
+        tessellation.seeds && pinnedAnnotations(tessellation.seeds)
+      ),
+    [annotations, cells, layoutSize, tessellation.seeds]
+  );
+
+  const annotationAt = useCallback(
+    (cellId: number | null): CellAnnotation | null => {
+      const key = cellId === null ? undefined : cellKeys.get(cellId);
+      return key === undefined ? null : annotations[key] ?? null;
+    },
+    [annotations, cellKeys]
+  );
+
+  /* ── hand editing ─────────────────────────────────────── */
+
+  // Seeds as drawn while editing, in canvas coordinates. A generated
+  // layout becomes a seed set – one seed per cell, in order – on its
+  // first edit.
+  const editSeeds = useMemo((): Point[] => {
+    if (!editing) return [];
+    if (!tessellation.seeds) return displayCells.map((c) => c.seed);
+    return tessellation.seeds.map((s) => ({
+      x: s.x * dimensions.width,
+      y: s.y * dimensions.height,
+    }));
+  }, [editing, tessellation.seeds, displayCells, dimensions]);
+
+  const editableSeeds = useCallback(
+    (): ManualSeed[] =>
+      tessellation.seeds
+        ? withAnnotations(tessellation.seeds, cellKeys)
+        : seedsFromCells(cells, layoutSize.width, layoutSize.height, cellKeys),
+    [tessellation.seeds, cells, cellKeys, layoutSize]
+  );
+
+  const applyEdit = useCallback(
+    (seeds: ManualSeed[] | null) => {
+      if (seeds) onEditLayout?.({ ...tessellation, seeds });
+    },
+    [onEditLayout, tessellation]
+  );
+
+  // Canvas coordinates → image pixels
+  const toLayout = useCallback(
+    (p: Point): Point => ({
+      x: (p.x * layoutSize.width) / dimensions.width,
+      y: (p.y * layoutSize.height) / dimensions.height,
+    }),
+    [layoutSize, dimensions]
+  );
+
+  const seedAtPoint = useCallback(
+    (p: Point): number | null => {
+      let nearest: number | null = null;
+      let best = SEED_HIT_RADIUS * SEED_HIT_RADIUS;
+      editSeeds.forEach((s, i) => {
+        const d = (s.x - p.x) ** 2 + (s.y - p.y) ** 2;
+        if (d <= best) {
+          best = d;
+          nearest = i;
+        }
+      });
+      return nearest;
+    },
+    [editSeeds]
+  );
+
+  useEffect(() => {
+    setSelectedSeed(null);
+    setMergeFrom(null);
+    setSplitLine(null);
+    dragSeedRef.current = null;
+  }, [editing, editTool]);
+
+  useEffect(() => {
+    if (!editing) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest("input, textarea, select")) return;
+      if ((e.key === "Delete" || e.key === "Backspace") && selectedSeed !== null) {
+        e.preventDefault();
+        applyEdit(removeSeed(editableSeeds(), selectedSeed));
+        setSelectedSeed(null);
+      } else if (e.key === "Escape") {
+        setSelectedSeed(null);
+        setMergeFrom(null);
+        setSplitLine(null);
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [editing, selectedSeed, applyEdit, editableSeeds]);
+
   /* ── draw ──────────────────────────────────────────────── */
-  const draw = useCallback(() => {
-    const canvas = canvasRef.current;
-    const img = imageRef.current;
-    if (!canvas || !img || cells.length === 0) return;
 
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
+  // Glass colour of each pane and its leading, shared by the renderer and daylight
+  const paint = useMemo(
+    () => paintGlass(colouredCells, cellKeys, { distinct: glassColours, matches: glassMatches, glass }),
+    [colouredCells, cellKeys, glassColours, glassMatches, glass]
+  );
+
+  const daylightFills = useMemo(() => {
+    const fills = new Map<number, [number, number, number]>();
+    paint.fills.forEach(({ colour }, id) => fills.set(id, colour));
+    return fills;
+  }, [paint]);
+
+  // Image, tinted pieces and leads – everything hover and selection
+  // leave alone – rendered once per layout by a WebGL or Canvas 2D
+  // renderer into an offscreen canvas
+  const rendererRef = useRef<GlassRenderer | null>(null);
+  useEffect(() => () => rendererRef.current?.dispose(), []);
+
+  const renderBase = useCallback(() => {
+    const img = imageRef.current;
+    if (!img || displayCells.length === 0) return;
 
     const { width, height } = dimensions;
-    canvas.width = width;
-    canvas.height = height;
-
-    // Draw source image to an offscreen canvas for colour sampling
-    const offscreen = document.createElement("canvas");
-    offscreen.width = width;
-    offscreen.height = height;
-    const offCtx = offscreen.getContext("2d")!;
-    offCtx.drawImage(img, 0, 0, img.width, img.height, 0, 0, width, height);
-    const imageData = offCtx.getImageData(0, 0, width, height);
-
-    ctx.clearRect(0, 0, width, height);
-
-    // Draw the source image as the base layer
-    ctx.drawImage(img, 0, 0, img.width, img.height, 0, 0, width, height);
-
-    /* ---- overlay each cell with a low-opacity colour tint ---- */
-    for (const cell of cells) {
-      const { vertices, seed, id } = cell;
-
-      // Sample colour at the cell's seed point
-      const sx = Math.round(Math.max(0, Math.min(width - 1, seed.x)));
-      const sy = Math.round(Math.max(0, Math.min(height - 1, seed.y)));
-      const idx = (sy * width + sx) * 4;
-      const r = imageData.data[idx];
-      const g = imageData.data[idx + 1];
-      const b = imageData.data[idx + 2];
-
-      // Boost saturation for a vivid stained-glass tint
-      const [h, s, l] = rgbToHsl(r, g, b);
-      const filled = !!annotations[id];
-      const enhS = Math.min(1, filled ? s * 1.8 + 0.15 : s * 1.5 + 0.1);
-      const enhL = filled
-        ? Math.max(0.35, Math.min(0.85, l * 1.3))
-        : Math.max(0.18, Math.min(0.78, l));
-      const [er, eg, eb] = hslToRgb(h, enhS, enhL);
-
-      // Build path helper
-      const buildPath = () => {
-        ctx.beginPath();
-        ctx.moveTo(vertices[0].x, vertices[0].y);
-        for (let i = 1; i < vertices.length; i++) {
-          ctx.lineTo(vertices[i].x, vertices[i].y);
-        }
-        ctx.closePath();
-      };
+    const scene: GlassScene = {
+      ...glassScene(
+        {
+          cells: displayCells,
+          graph,
+          scaleX: width / layoutSize.width,
+          scaleY: height / layoutSize.height,
+          width,
+          height,
+          outline: displayOutline,
+        },
+        paint,
+        cellKeys,
+        glassStyle
+      ),
+      // Back the canvas at device resolution so the leading stays crisp
+      dpr: window.devicePixelRatio || 1,
+      image: img,
+    };
+    rendererRef.current ??= createGlassRenderer();
+    if (!rendererRef.current.render(scene)) {
+      // WebGL failed or lost its context – carry on in Canvas 2D
+      rendererRef.current.dispose();
+      rendererRef.current = createGlassRenderer(true);
+      rendererRef.current.render(scene);
+    }
+  }, [displayCells, displayOutline, paint, cellKeys, glassStyle, dimensions, layoutSize, graph]);
 
-      const isHoveredFilled = viewMode && filled && hoveredCell === id;
-      const opacity = filled ? 0.85 : 0.5;
+  // In view mode, filled cells light up under the pointer
+  const hoverHighlight =
+    viewMode && hoveredCell !== null && cellKeys.has(hoveredCell) ? hoveredCell : null;
+  const focusedCell = viewMode ? viewSelectedCell : selectedCell;
 
-      // Colour overlay – filled cells are vivid, unfilled are nearly transparent
-      buildPath();
-      ctx.fillStyle = `rgba(${er}, ${eg}, ${eb}, ${opacity})`;
-      ctx.fill();
+  /** Hover, focus, region and hand-editing marks, drawn over the base. */
+  const paintOverlay = useCallback(
+    (ctx: CanvasRenderingContext2D) => {
+      const cellById = (id: number | null) => displayCells.find((c) => c.id === id);
 
-      // In view mode, add a bright highlight on hovered filled cells
-      if (isHoveredFilled) {
-        buildPath();
+      ctx.save();
+      if (displayOutline) {
+        tracePolygon(ctx, displayOutline);
+        ctx.clip();
+      }
+      const hovered = cellById(hoverHighlight);
+      if (hovered) {
+        tracePolygon(ctx, hovered.vertices);
         ctx.fillStyle = `rgba(255, 255, 255, 0.18)`;
         ctx.fill();
       }
-    }
 
-    /* ---- coloured borders between cells -------------------- */
-    ctx.lineJoin = "round";
-
-    for (const cell of cells) {
-      const { vertices, seed, id } = cell;
-      const filled = !!annotations[id];
-
-      // Sample the cell's colour for the border
-      const sx = Math.round(Math.max(0, Math.min(width - 1, seed.x)));
-      const sy = Math.round(Math.max(0, Math.min(height - 1, seed.y)));
-      const idx = (sy * width + sx) * 4;
-      const r = imageData.data[idx];
-      const g = imageData.data[idx + 1];
-      const b = imageData.data[idx + 2];
-      const [h, s, l] = rgbToHsl(r, g, b);
-      const enhS = Math.min(1, s * 1.5 + 0.1);
-      const enhL = Math.max(0.35, Math.min(0.85, l * 1.3));
-      const [er, eg, eb] = hslToRgb(h, enhS, enhL);
-
-      const buildPath = () => {
+      /* ---- keyboard focus and region selection --------------- */
+      const focused = cellById(focusedCell);
+      if (focused) {
+        tracePolygon(ctx, focused.vertices);
+        ctx.strokeStyle = "rgba(255, 255, 255, 0.95)";
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
+      if (region) {
+        // Only the region's outline: edges with it on one side only
+        const scaleX = dimensions.width / layoutSize.width;
+        const scaleY = dimensions.height / layoutSize.height;
+        ctx.strokeStyle = "rgba(245, 158, 11, 0.95)";
+        ctx.lineWidth = 2.5;
         ctx.beginPath();
-        ctx.moveTo(vertices[0].x, vertices[0].y);
-        for (let i = 1; i < vertices.length; i++) {
-          ctx.lineTo(vertices[i].x, vertices[i].y);
+        for (const { a, b, from, to } of graph.edges) {
+          if (region.has(a) === (b !== null && region.has(b))) continue;
+          ctx.moveTo(from.x * scaleX, from.y * scaleY);
+          ctx.lineTo(to.x * scaleX, to.y * scaleY);
         }
-        ctx.closePath();
-      };
-
-      if (filled) {
-        // Bright, prominent border for filled cells
-        // Lightened colour: blend 60% toward white
-        const lr = Math.round(er + (255 - er) * 0.6);
-        const lg = Math.round(eg + (255 - eg) * 0.6);
-        const lb = Math.round(eb + (255 - eb) * 0.6);
-
-        buildPath();
-        ctx.shadowColor = `rgba(${lr}, ${lg}, ${lb}, 1)`;
-        ctx.shadowBlur = 10;
-        ctx.strokeStyle = `rgba(${lr}, ${lg}, ${lb}, 0.8)`;
-        ctx.lineWidth = 3.5;
         ctx.stroke();
-        ctx.shadowBlur = 0;
+      }
+      ctx.restore();
 
-        buildPath();
-        ctx.strokeStyle = `rgba(255, 255, 255, 0.9)`;
-        ctx.lineWidth = 1.8;
+      /* ---- hand-editing overlay ------------------------------ */
+      if (!editing) return;
+      const mergeCell = cellById(mergeFrom);
+      if (mergeCell) {
+        tracePolygon(ctx, mergeCell.vertices);
+        ctx.strokeStyle = "rgba(245, 158, 11, 0.95)";
+        ctx.lineWidth = 2.5;
         ctx.stroke();
-      } else {
-        // Subtle thin border for unfilled cells
-        buildPath();
-        ctx.strokeStyle = `rgba(${er}, ${eg}, ${eb}, 0.25)`;
+      }
+      editSeeds.forEach((p, i) => {
+        const selected = i === selectedSeed;
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, selected ? 5 : 3.5, 0, 2 * Math.PI);
+        ctx.fillStyle = selected ? "rgba(245, 158, 11, 1)" : "rgba(255, 255, 255, 0.9)";
+        ctx.fill();
+        ctx.strokeStyle = "rgba(0, 0, 0, 0.6)";
         ctx.lineWidth = 1;
         ctx.stroke();
+      });
+      if (splitLine) {
+        ctx.beginPath();
+        ctx.moveTo(splitLine.a.x, splitLine.a.y);
+        ctx.lineTo(splitLine.b.x, splitLine.b.y);
+        ctx.setLineDash([6, 4]);
+        ctx.strokeStyle = "rgba(255, 255, 255, 0.95)";
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+        ctx.setLineDash([]);
       }
-    }
-  }, [cells, annotations, dimensions, viewMode, hoveredCell]);
+    },
+    [displayCells, displayOutline, dimensions, layoutSize, graph, hoverHighlight, focusedCell, region, editing, mergeFrom, editSeeds, selectedSeed, splitLine]
+  );
+
+  // Cells in canvas coordinates, bucketed for hit-testing and dirty rects
+  const cellIndex = useMemo(() => createCellIndex(displayCells), [displayCells]);
 
+  /**
+   * Copy the base layer to the screen and paint the overlay – only
+   * within `dirty` (canvas coordinates) when given. False when there
+   * is nothing to draw on or with yet.
+   */
+  const present = useCallback(
+    (dirty?: Bounds[]): boolean => {
+      const canvas = canvasRef.current;
+      const base = rendererRef.current?.canvas;
+      const ctx = canvas?.getContext("2d");
+      if (!canvas || !base || !ctx) return false;
+      if (canvas.width !== base.width || canvas.height !== base.height) {
+        canvas.width = base.width;
+        canvas.height = base.height;
+      }
+      const dpr = base.width / dimensions.width;
+
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      const rects = (dirty ?? [{ minX: 0, minY: 0, maxX: dimensions.width, maxY: dimensions.height }]).map(
+        (b) => {
+          // Pad for stroke widths; whole device pixels avoid seams
+          const x = Math.max(0, Math.floor((b.minX - 4) * dpr));
+          const y = Math.max(0, Math.floor((b.minY - 4) * dpr));
+          return {
+            x,
+            y,
+            w: Math.min(base.width, Math.ceil((b.maxX + 4) * dpr)) - x,
+            h: Math.min(base.height, Math.ceil((b.maxY + 4) * dpr)) - y,
+          };
+        }
+      );
+      ctx.beginPath();
+      for (const r of rects) ctx.rect(r.x, r.y, r.w, r.h);
+      ctx.clip();
+      for (const r of rects) {
+        if (r.w <= 0 || r.h <= 0) continue;
+        ctx.clearRect(r.x, r.y, r.w, r.h);
+        ctx.drawImage(base, r.x, r.y, r.w, r.h, r.x, r.y, r.w, r.h);
+      }
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      paintOverlay(ctx);
+      ctx.restore();
+      return true;
+    },
+    [dimensions, paintOverlay]
+  );
+
+  // Re-render the base only when the layout or its colours change; a
+  // hover or selection change repaints just the cells it affects
+  const renderedBaseRef = useRef<typeof renderBase | null>(null);
+  const presentedRef = useRef({ hover: hoverHighlight, focus: focusedCell, region, editing });
   useEffect(() => {
-    draw();
-  }, [draw]);
+    const previous = presentedRef.current;
+    presentedRef.current = { hover: hoverHighlight, focus: focusedCell, region, editing };
+    if (renderedBaseRef.current !== renderBase) {
+      renderBase();
+      if (present()) renderedBaseRef.current = renderBase;
+      return;
+    }
+    if (editing || previous.editing || previous.region !== region) {
+      present();
+      return;
+    }
+    const changed = new Set<number | null>();
+    if (previous.hover !== hoverHighlight) changed.add(previous.hover).add(hoverHighlight);
+    if (previous.focus !== focusedCell) changed.add(previous.focus).add(focusedCell);
+    const dirty = Array.from(changed)
+      .map((id) => (id === null ? undefined : cellIndex.boundsOf(id)))
+      .filter((b): b is Bounds => b !== undefined);
+    if (dirty.length > 0) present(dirty);
+  }, [renderBase, present, cellIndex, hoverHighlight, focusedCell, region, editing]);
 
   /* ── hit-testing ──────────────────────────────────────── */
   const findCellAtPoint = useCallback(
-    (x: number, y: number): number | null => {
-      for (const cell of cells) {
-        if (pointInPolygon(x, y, cell.vertices)) return cell.id;
-      }
-      return null;
-    },
-    [cells]
+    (x: number, y: number): number | null => cellIndex.cellAt(x, y),
+    [cellIndex]
   );
 
   const handleMouseMove = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
-      const canvas = canvasRef.current;
-      const container = containerRef.current;
-      if (!canvas || !container) return;
-      const canvasRect = canvas.getBoundingClientRect();
-      const containerRect = container.getBoundingClientRect();
-      const id = findCellAtPoint(
-        e.clientX - canvasRect.left,
-        e.clientY - canvasRect.top
-      );
+      const p = canvasPoint(e);
+      if (editing && dragSeedRef.current !== null) {
+        applyEdit(moveSeed(editableSeeds(), dragSeedRef.current, toLayout(p), layoutSize.width, layoutSize.height));
+      }
+      if (editing && splitLine) setSplitLine({ ...splitLine, b: p });
+      const id = findCellAtPoint(p.x, p.y);
       setHoveredCell(id);
-      setMousePos({
-        x: e.clientX - containerRect.left,
-        y: e.clientY - containerRect.top,
-      });
     },
-    [findCellAtPoint]
+    [findCellAtPoint, editing, applyEdit, editableSeeds, toLayout, layoutSize, splitLine]
+  );
+
+  const handleMouseLeave = useCallback(() => {
+    setHoveredCell(null);
+    dragSeedRef.current = null;
+    setSplitLine(null);
+  }, []);
+
+  const handleMouseDown = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (!editing) return;
+      const p = canvasPoint(e);
+      if (editTool === "move") {
+        const seed = seedAtPoint(p);
+        setSelectedSeed(seed);
+        dragSeedRef.current = seed;
+      } else if (editTool === "split") {
+        setSplitLine({ a: p, b: p });
+      }
+    },
+    [editing, editTool, seedAtPoint]
   );
 
-  const handleMouseLeave = useCallback(() => setHoveredCell(null), []);
+  const handleMouseUp = useCallback(() => {
+    dragSeedRef.current = null;
+    if (!splitLine) return;
+    setSplitLine(null);
+    // Split the piece under the middle of the line
+    const mid = {
+      x: (splitLine.a.x + splitLine.b.x) / 2,
+      y: (splitLine.a.y + splitLine.b.y) / 2,
+    };
+    const id = findCellAtPoint(mid.x, mid.y);
+    const cell = cells.find((c) => c.id === id);
+    if (!cell) return;
+    // Mirrored seeds are placed from the cell's own outline, so split
+    // the seed set it was actually built from
+    const seeds = editableSeeds();
+    const piece = tessellation.seeds ? cell : { ...cell, id: cells.indexOf(cell) };
+    applyEdit(
+      splitPiece(seeds, piece, toLayout(splitLine.a), toLayout(splitLine.b), layoutSize.width, layoutSize.height)
+    );
+  }, [splitLine, findCellAtPoint, cells, editableSeeds, tessellation.seeds, applyEdit, toLayout, layoutSize]);
+
+  const handleDoubleClick = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (!editing || editTool !== "move") return;
+      const p = canvasPoint(e);
+      if (editSeeds.some((s) => Math.hypot(s.x - p.x, s.y - p.y) < SEED_HIT_RADIUS)) return;
+      applyEdit(addSeed(editableSeeds(), toLayout(p), layoutSize.width, layoutSize.height));
+      setSelectedSeed(editSeeds.length);
+    },
+    [editing, editTool, editSeeds, applyEdit, editableSeeds, toLayout, layoutSize]
+  );
 
   const handleClick = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -315,64 +783,174 @@ export default function StainedGlass({ imageUrl, slug, shuffleKey = 0, viewMode
       if (!canvas) return;
       const rect = canvas.getBoundingClientRect();
       const id = findCellAtPoint(e.clientX - rect.left, e.clientY - rect.top);
+      if (editing) {
+        if (editTool !== "merge") return;
+        if (mergeFrom === null || id === null || id === mergeFrom) {
+          setMergeFrom(id === mergeFrom ? null : id);
+          return;
+        }
+        // Cell ids of a generated layout are its seeds' order once editing starts
+        const index = (cellId: number) =>
+          tessellation.seeds ? cellId : cells.findIndex((c) => c.id === cellId);
+        const pieces = tessellation.seeds ? cells : cells.map((c, i) => ({ ...c, id: i }));
+        const merged = mergePieces(editableSeeds(), pieces, index(mergeFrom), index(id));
+        // Not neighbours – start over from the piece just clicked
+        if (merged) applyEdit(merged);
+        setMergeFrom(merged ? null : id);
+        return;
+      }
       if (viewMode) {
         // In view mode, clicking a filled cell shows read-only display
-        if (id !== null && annotations[id]) {
+        if (id !== null && cellKeys.has(id)) {
           setViewSelectedCell((prev) => (prev === id ? null : id));
         } else {
           setViewSelectedCell(null);
         }
+      } else if (e.shiftKey && id !== null && colours.has(id)) {
+        // Shift-click selects the run of similarly coloured pieces
+        const [r, g, b] = colours.get(id)!;
+        setRegion(
+          floodFill(graph, id, (next) => {
+            const colour = colours.get(next);
+            if (!colour) return false;
+            const [nr, ng, nb] = colour;
+            return Math.hypot(nr - r, ng - g, nb - b) <= REGION_TOLERANCE;
+          })
+        );
       } else {
+        setRegion(null);
         setSelectedCell(id);
       }
     },
-    [findCellAtPoint, viewMode, annotations]
+    [findCellAtPoint, viewMode, cellKeys, editing, editTool, mergeFrom, tessellation.seeds, cells, editableSeeds, applyEdit, colours, graph]
   );
 
+  /* ── keyboard navigation ──────────────────────────────── */
+  // Arrow keys move the selection to the neighbouring piece that way
+  useEffect(() => {
+    if (editing) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest("input, textarea, select")) return;
+      if (e.key === "Escape") setRegion(null);
+      const direction = ARROW_DIRECTIONS[e.key];
+      if (!direction || cells.length === 0) return;
+      e.preventDefault();
+      const current = viewMode ? viewSelectedCell : selectedCell;
+      // Start from the piece in the middle of the window
+      const next =
+        current === null
+          ? (cells.find((c) =>
+              pointInPolygon(layoutSize.width / 2, layoutSize.height / 2, c.vertices)
+            ) ?? cells[0]).id
+          : neighbourToward(graph, cells, current, direction[0], direction[1]);
+      if (next === null) return;
+      if (viewMode) setViewSelectedCell(next);
+      else setSelectedCell(next);
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [editing, viewMode, cells, graph, layoutSize, selectedCell, viewSelectedCell]);
+
   /* ── annotation CRUD ──────────────────────────────────── */
-  const persistAnnotations = useCallback(
-    (next: Record<number, CellAnnotation>) => {
-      fetch(`/api/images/${encodeURIComponent(slug)}/annotations`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(next),
-      }).catch(() => {});
-    },
+  // The panel edits by annotation key; a new annotation gets a fresh one
+  const selectedKey =
+    selectedCell === null
+      ? null
+      : cellKeys.get(selectedCell) ?? nextAnnotationKey(annotations, selectedCell);
+
+  const annotationUrl = useCallback(
+    (key: number) =>
+      `/api/images/${encodeURIComponent(slug)}/annotations/${key}`,
     [slug]
   );
 
-  const handleSave = useCallback(
-    (cellId: number, data: CellAnnotation) => {
+  // Edits show at once; one the server refuses is undone, unless the
+  // annotation has changed again since
+  const sendEdit = useCallback(
+    (key: number, request: RequestInit, edited: CellAnnotation | undefined, fallback: string) => {
+      const previous = annotations[key];
+      setSaveError("");
       setAnnotations((prev) => {
-        const next = { ...prev, [cellId]: data };
-        persistAnnotations(next);
+        const next = { ...prev };
+        if (edited) next[key] = edited;
+        else delete next[key];
         return next;
       });
+      fetch(annotationUrl(key), request)
+        .then(async (res) => {
+          if (res.ok) return;
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data.error || fallback);
+        })
+        .catch((err: unknown) => {
+          setAnnotations((prev) => {
+            if (prev[key] !== edited) return prev;
+            const next = { ...prev };
+            if (previous) next[key] = previous;
+            else delete next[key];
+            return next;
+          });
+          setSaveError(err instanceof Error ? err.message : fallback);
+        });
+    },
+    [annotationUrl, annotations]
+  );
+
+  const handleSave = useCallback(
+    (key: number, data: CellAnnotation) => {
+      const cell = cells.find((c) => c.id === selectedCell);
+      const anchor =
+        annotations[key]?.anchor ??
+        (cell ? anchorOf(cell, layoutSize.width, layoutSize.height) : undefined);
+      const saved = anchor ? { ...data, anchor } : data;
+      sendEdit(
+        key,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json", ...authorHeaders() },
+          body: JSON.stringify(saved),
+        },
+        saved,
+        "Saving the annotation failed"
+      );
     },
-    [persistAnnotations]
+    [sendEdit, annotations, cells, selectedCell, layoutSize]
   );
 
   const handleDelete = useCallback(
-    (cellId: number) => {
+    (key: number) => {
+      sendEdit(
+        key,
+        { method: "DELETE", headers: authorHeaders() },
+        undefined,
+        "Deleting the annotation failed"
+      );
+    },
+    [sendEdit]
+  );
+
+  // The restore itself happened server-side; mirror it locally
+  const handleRestore = useCallback(
+    (key: number, annotation: CellAnnotation | null) => {
       setAnnotations((prev) => {
         const next = { ...prev };
-        delete next[cellId];
-        persistAnnotations(next);
+        if (annotation) next[key] = annotation;
+        else delete next[key];
         return next;
       });
     },
-    [persistAnnotations]
+    []
   );
 
   const handleClosePanel = useCallback(() => setSelectedCell(null), []);
 
   // Tooltip data for the hovered cell
-  const hoveredAnnotation =
-    hoveredCell !== null ? annotations[hoveredCell] ?? null : null;
+  const hoveredAnnotation = editing ? null : annotationAt(hoveredCell);
+  const viewSelectedAnnotation = annotationAt(viewSelectedCell);
 
   // Notify parent when a side panel is visible (hover panel or view-mode click panel)
   const panelShowing = viewMode
-    ? viewSelectedCell !== null && !!annotations[viewSelectedCell]
+    ? viewSelectedAnnotation !== null
     : hoveredAnnotation !== null;
   useEffect(() => {
     onHoverAnnotation?.(panelShowing);
@@ -394,51 +972,128 @@ export default function StainedGlass({ imageUrl, slug, shuffleKey = 0, viewMode
     <div className="flex flex-col items-center gap-6">
       <div
         ref={containerRef}
-        className="relative rounded-lg overflow-visible shadow-2xl"
+        className={`relative rounded-lg overflow-visible ${displayOutline ? "" : "shadow-2xl"}`}
         style={{
-          boxShadow:
-            "0 0 40px rgba(200,150,50,0.15), 0 0 80px rgba(200,150,50,0.05)",
+          ...(displayOutline
+            ? { filter: "drop-shadow(0 0 24px rgba(200,150,50,0.2))" }
+            : {
+                boxShadow:
+                  "0 0 40px rgba(200,150,50,0.15), 0 0 80px rgba(200,150,50,0.05)",
+              }),
+          marginBottom: daylightShown ? castPanelSpace(dimensions.height) : undefined,
         }}
       >
-        {/* decorative frame */}
-        <div
-          className="absolute inset-0 pointer-events-none z-10"
-          style={{
-            border: "3px solid rgba(120,100,60,0.6)",
-            borderRadius: "8px",
-            boxShadow:
-              "inset 0 0 20px rgba(0,0,0,0.3), inset 0 0 60px rgba(0,0,0,0.1)",
-          }}
-        />
+        {/* decorative frame, following the window's outline */}
+        {displayOutline ? (
+          <svg
+            className="absolute inset-0 pointer-events-none z-10"
+            width={dimensions.width}
+            height={dimensions.height}
+            style={{ overflow: "visible" }}
+          >
+            <polygon
+              points={displayOutline.map((p) => `${p.x},${p.y}`).join(" ")}
+              fill="none"
+              stroke="rgba(120,100,60,0.6)"
+              strokeWidth={3}
+              strokeLinejoin="round"
+            />
+          </svg>
+        ) : (
+          <div
+            className="absolute inset-0 pointer-events-none z-10"
+            style={{
+              border: "3px solid rgba(120,100,60,0.6)",
+              borderRadius: "8px",
+              boxShadow:
+                "inset 0 0 20px rgba(0,0,0,0.3), inset 0 0 60px rgba(0,0,0,0.1)",
+            }}
+          />
+        )}
         <canvas
           ref={canvasRef}
-          width={dimensions.width}
-          height={dimensions.height}
-          className="cursor-pointer block rounded-lg"
+          className={`${editing ? "cursor-crosshair" : "cursor-pointer"} block rounded-lg`}
           style={{ width: dimensions.width, height: dimensions.height }}
           onMouseMove={handleMouseMove}
           onMouseLeave={handleMouseLeave}
+          onMouseDown={handleMouseDown}
+          onMouseUp={handleMouseUp}
+          onDoubleClick={handleDoubleClick}
           onClick={handleClick}
         />
 
+        {daylightShown && daylight && (
+          <DaylightLayer
+            cells={displayCells}
+            fills={daylightFills}
+            width={dimensions.width}
+            height={dimensions.height}
+            outline={displayOutline}
+            settings={daylight}
+          />
+        )}
+
+        {editing && (
+          <div className="absolute -top-10 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 whitespace-nowrap">
+            <div className="flex gap-1.5">
+              {EDIT_TOOLS.map(({ tool, label }) => (
+                <button
+                  key={tool}
+                  onClick={() => setEditTool(tool)}
+                  className={`px-2.5 py-1 text-xs font-medium rounded-lg transition ${
+                    editTool === tool
+                      ? "bg-amber-500 text-black"
+                      : "bg-white/5 text-gray-300 hover:bg-white/10"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-gray-500">
+              {EDIT_TOOLS.find((t) => t.tool === editTool)?.hint}
+            </p>
+          </div>
+        )}
+
+        {region && (
+          <div className="absolute -bottom-9 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 whitespace-nowrap text-[11px] text-gray-400">
+            {region.size} {region.size === 1 ? "piece" : "pieces"} selected
+            <button
+              onClick={() => setRegion(null)}
+              className="px-2 py-0.5 rounded-lg bg-white/5 text-gray-300 hover:bg-white/10 transition"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+
+        {(annotationsError || saveError) && (
+          <div className="absolute top-3 left-1/2 -translate-x-1/2 z-20 px-4 py-2 rounded-lg bg-red-900/90 border border-red-500/30 text-red-300 text-sm">
+            {annotationsError || saveError}
+          </div>
+        )}
+
         {/* Fixed right-side panel for hovered filled cells (normal mode) */}
-        {!viewMode && hoveredAnnotation && hoveredCell !== null && (
+        {!viewMode && hoveredAnnotation && (
           <ReadOnlyPanel annotation={hoveredAnnotation} />
         )}
 
         {/* Fixed right-side panel for clicked filled cells (view mode) */}
-        {viewMode && viewSelectedCell !== null && annotations[viewSelectedCell] && (
-          <ReadOnlyPanel annotation={annotations[viewSelectedCell]} />
+        {viewMode && viewSelectedAnnotation && (
+          <ReadOnlyPanel annotation={viewSelectedAnnotation} />
         )}
       </div>
 
       {/* Edit / add form (click opens directly) – hidden in view mode */}
-      {!viewMode && selectedCell !== null && (
+      {!viewMode && !editing && selectedKey !== null && (
         <CellInfoPanel
-          cellId={selectedCell}
-          annotation={annotations[selectedCell] ?? null}
+          slug={slug}
+          cellId={selectedKey}
+          annotation={annotations[selectedKey] ?? null}
           onSave={handleSave}
           onDelete={handleDelete}
+          onRestore={handleRestore}
           onClose={handleClosePanel}
         />
       )}
@@ -446,67 +1101,51 @@ export default function StainedGlass({ imageUrl, slug, shuffleKey = 0, viewMode
   );
 }
 
-/* ── geometry util ───────────────────────────────────────── */
-
-function pointInPolygon(
-  x: number,
-  y: number,
-  vertices: { x: number; y: number }[]
-): boolean {
-  let inside = false;
-  const n = vertices.length;
-  for (let i = 0, j = n - 1; i < n; j = i++) {
-    const xi = vertices[i].x,
-      yi = vertices[i].y;
-    const xj = vertices[j].x,
-      yj = vertices[j].y;
-    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
-      inside = !inside;
-    }
-  }
-  return inside;
+/* ── layout helpers ──────────────────────────────────────── */
+
+/**
+ * Largest size, never above natural size, at which an image of
+ * `width` × `height` fits the browser window with `share` of the
+ * height left free below it.
+ */
+function fitToWindow(width: number, height: number, share = 0) {
+  const maxWidth = window.innerWidth - 20;
+  const maxHeight = (window.innerHeight - 40) * (1 - share);
+  const scale = Math.min(maxWidth / width, maxHeight / height, 1);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
 }
 
-/* ── colour helpers ──────────────────────────────────────── */
-
-function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
-  r /= 255;
-  g /= 255;
-  b /= 255;
-  const max = Math.max(r, g, b),
-    min = Math.min(r, g, b);
-  let h = 0,
-    s = 0;
-  const l = (max + min) / 2;
-
-  if (max !== min) {
-    const d = max - min;
-    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-    if (max === r) h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
-    else if (max === g) h = ((b - r) / d + 2) / 6;
-    else h = ((r - g) / d + 4) / 6;
+/**
+ * The image's pixels at full size, for `downsamplePixels`.
+ * Returns `undefined` when the canvas is tainted (cross-origin image).
+ */
+function readPixels(img: HTMLImageElement): ImagePixels | undefined {
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return undefined;
+  ctx.drawImage(img, 0, 0, width, height);
+  try {
+    return ctx.getImageData(0, 0, width, height);
+  } catch {
+    return undefined;
   }
-  return [h, s, l];
 }
 
-function hslToRgb(h: number, s: number, l: number): [number, number, number] {
-  if (s === 0) {
-    const v = Math.round(l * 255);
-    return [v, v, v];
-  }
-  const hue2rgb = (p: number, q: number, t: number) => {
-    if (t < 0) t += 1;
-    if (t > 1) t -= 1;
-    if (t < 1 / 6) return p + (q - p) * 6 * t;
-    if (t < 1 / 2) return q;
-    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
-    return p;
-  };
-  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-  const p = 2 * l - q;
-  return [
-    Math.round(hue2rgb(p, q, h + 1 / 3) * 255),
-    Math.round(hue2rgb(p, q, h) * 255),
-    Math.round(hue2rgb(p, q, h - 1 / 3) * 255),
-  ];
+/* ── canvas helpers ──────────────────────────────────────── */
+
+/** Pointer position in canvas (CSS pixel) coordinates. */
+function canvasPoint(e: React.MouseEvent<HTMLCanvasElement>): Point {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+}
+
+function tracePolygon(ctx: CanvasRenderingContext2D, vertices: Point[]) {
+  ctx.beginPath();
+  ctx.moveTo(vertices[0].x, vertices[0].y);
+  for (let i = 1; i < vertices.length; i++) ctx.lineTo(vertices[i].x, vertices[i].y);
+  ctx.closePath();
 }
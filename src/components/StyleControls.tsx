@@ -0,0 +1,323 @@
+"use client";
+
+import { useState } from "react";
+import {
+  GLASS_TEXTURES,
+  GlassStyle,
+  GlassTexture,
+  LEAD_STYLES,
+  LeadStyle,
+  PALETTE_MODES,
+  PaletteMode,
+  SAMPLING_MODES,
+  SamplingMode,
+} from "@/lib/glassStyle";
+import {
+  GLASS_PRESETS,
+  PaletteReportRow,
+  paletteReportCsv,
+  parsePalette,
+} from "@/lib/glassPalette";
+
+interface StyleControlsProps {
+  slug: string;
+  saved: GlassStyle;
+  draft: GlassStyle;
+  /** Show `style` in the window without saving it. */
+  onPreview: (style: GlassStyle) => void;
+  /** Called once `style` has been saved. */
+  onCommit: (style: GlassStyle) => void;
+  /** Panes per sheet of the fixed palette on show, if any. */
+  report: PaletteReportRow[] | null;
+}
+
+const PALETTE_LABELS: Record<PaletteMode, string> = {
+  photo: "From the photo",
+  "distinct-neighbours": "Neighbours differ",
+  fixed: "Fixed glass palette",
+};
+
+const SAMPLING_LABELS: Record<SamplingMode, string> = {
+  seed: "Single point",
+  mean: "Average",
+  median: "Median",
+  dominant: "Dominant colour",
+};
+
+const TEXTURE_LABELS: Record<GlassTexture, string> = {
+  flat: "Flat",
+  cathedral: "Cathedral (hammered)",
+  seedy: "Seedy (bubbles)",
+  opalescent: "Opalescent",
+  streaky: "Streaky",
+};
+
+const LEAD_LABELS: Record<LeadStyle, string> = {
+  line: "Thin line",
+  came: "Lead came",
+  "copper-foil": "Copper foil (Tiffany)",
+};
+
+/**
+ * Editor popover for previewing and saving how the glass is coloured.
+ */
+export default function StyleControls({
+  slug,
+  saved,
+  draft,
+  onPreview,
+  onCommit,
+  report,
+}: StyleControlsProps) {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved);
+
+  const update = (patch: Partial<GlassStyle>) => {
+    setError("");
+    onPreview({ ...draft, ...patch });
+  };
+
+  const glass = draft.glass ?? GLASS_PRESETS[0].colours;
+  const preset = GLASS_PRESETS.find((p) => JSON.stringify(p.colours) === JSON.stringify(glass));
+
+  const handlePaletteFile = async (file: File) => {
+    const colours = parsePalette(await file.text());
+    if (colours) update({ glass: colours });
+    else setError("No usable colours in that palette");
+  };
+
+  const downloadReport = () => {
+    if (!report) return;
+    const url = URL.createObjectURL(new Blob([paletteReportCsv(report)], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${slug}-glass.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCancel = () => {
+    onPreview(saved);
+    setOpen(false);
+    setError("");
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/images/${encodeURIComponent(slug)}/style`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Save failed");
+      onCommit(data);
+      setOpen(false);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Save failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (open ? handleCancel() : setOpen(true))}
+        className="text-white hover:text-amber-300 transition-colors"
+        title="Glass"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2.5}
+            d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01"
+          />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="absolute right-8 top-1/2 -translate-y-1/2 w-60 rounded-xl bg-gray-900/95 backdrop-blur-xl border border-white/10 shadow-2xl overflow-hidden animate-fadeIn">
+          <div className="p-3 space-y-3">
+            <div>
+              <label className="block text-[11px] text-gray-500 uppercase tracking-wide mb-1.5">
+                Colours
+              </label>
+              <select
+                value={draft.palette}
+                onChange={(e) => update({ palette: e.target.value as PaletteMode })}
+                className="w-full px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-200 focus:outline-none focus:border-amber-500/50 transition"
+              >
+                {PALETTE_MODES.map((mode) => (
+                  <option key={mode} value={mode} className="bg-gray-900">
+                    {PALETTE_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {draft.palette === "fixed" && (
+              <div className="space-y-1.5">
+                <label className="block text-[11px] text-gray-500 uppercase tracking-wide">
+                  Glass sheets
+                </label>
+                <select
+                  value={preset?.id ?? "custom"}
+                  onChange={(e) => {
+                    const chosen = GLASS_PRESETS.find((p) => p.id === e.target.value);
+                    if (chosen) update({ glass: chosen.colours });
+                  }}
+                  className="w-full px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-200 focus:outline-none focus:border-amber-500/50 transition"
+                >
+                  {GLASS_PRESETS.map((p) => (
+                    <option key={p.id} value={p.id} className="bg-gray-900">
+                      {p.label}
+                    </option>
+                  ))}
+                  {!preset && (
+                    <option value="custom" className="bg-gray-900">
+                      Custom ({glass.length})
+                    </option>
+                  )}
+                </select>
+                <div className="flex flex-wrap gap-1">
+                  {glass.map((g) => (
+                    <span
+                      key={g.hex}
+                      title={`${g.name} ${g.hex}`}
+                      className="w-4 h-4 rounded-sm border border-white/20"
+                      style={{ backgroundColor: g.hex }}
+                    />
+                  ))}
+                </div>
+                <label className="block w-full px-2 py-1 text-xs text-center font-medium rounded-lg bg-white/5 text-gray-300 hover:bg-white/10 cursor-pointer transition">
+                  Load palette (.gpl, .json, hex list)
+                  <input
+                    type="file"
+                    accept=".gpl,.json,.txt,.csv,text/plain,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handlePaletteFile(file);
+                      e.target.value = "";
+                    }}
+                  />
+                </label>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-[11px] text-gray-500 uppercase tracking-wide mb-1.5">
+                Sample each piece by
+              </label>
+              <select
+                value={draft.sampling ?? "seed"}
+                onChange={(e) => update({ sampling: e.target.value as SamplingMode })}
+                className="w-full px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-200 focus:outline-none focus:border-amber-500/50 transition"
+              >
+                {SAMPLING_MODES.map((mode) => (
+                  <option key={mode} value={mode} className="bg-gray-900">
+                    {SAMPLING_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-[11px] text-gray-500 uppercase tracking-wide mb-1.5">
+                Glass texture
+              </label>
+              <select
+                value={draft.texture ?? "flat"}
+                onChange={(e) => update({ texture: e.target.value as GlassTexture })}
+                className="w-full px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-200 focus:outline-none focus:border-amber-500/50 transition"
+              >
+                {GLASS_TEXTURES.map((texture) => (
+                  <option key={texture} value={texture} className="bg-gray-900">
+                    {TEXTURE_LABELS[texture]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-[11px] text-gray-500 uppercase tracking-wide mb-1.5">
+                Leading
+              </label>
+              <select
+                value={draft.lead ?? "line"}
+                onChange={(e) => update({ lead: e.target.value as LeadStyle })}
+                className="w-full px-2 py-1 text-xs rounded-lg bg-white/5 border border-white/10 text-gray-200 focus:outline-none focus:border-amber-500/50 transition"
+              >
+                {LEAD_STYLES.map((lead) => (
+                  <option key={lead} value={lead} className="bg-gray-900">
+                    {LEAD_LABELS[lead]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {draft.palette === "fixed" && report && (
+              <div>
+                <label className="block text-[11px] text-gray-500 uppercase tracking-wide mb-1.5">
+                  Panes per sheet
+                </label>
+                <div className="max-h-40 overflow-y-auto rounded-lg bg-white/5 border border-white/10">
+                  <table className="w-full text-[11px] text-gray-300">
+                    <tbody>
+                      {report.map(({ colour, panes, area }) => (
+                        <tr key={colour.hex} className={panes === 0 ? "text-gray-600" : ""}>
+                          <td className="pl-2 py-0.5">
+                            <span
+                              className="inline-block w-2.5 h-2.5 mr-1.5 rounded-sm align-middle"
+                              style={{ backgroundColor: colour.hex }}
+                            />
+                            {colour.name}
+                          </td>
+                          <td className="py-0.5 text-right tabular-nums">{panes}</td>
+                          <td className="pr-2 py-0.5 text-right tabular-nums text-gray-500">
+                            {(area * 100).toFixed(1)}%
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <button
+                  onClick={downloadReport}
+                  className="mt-1.5 w-full px-2 py-1 text-xs font-medium rounded-lg bg-white/5 text-gray-300 hover:bg-white/10 transition"
+                >
+                  Download report (.csv)
+                </button>
+              </div>
+            )}
+
+            {error && <p className="text-red-400 text-xs">{error}</p>}
+
+            <div className="flex gap-1.5">
+              <button
+                onClick={handleSave}
+                disabled={!dirty || saving}
+                className="flex-1 px-2 py-1 text-xs font-medium rounded-lg bg-amber-500 text-black hover:bg-amber-400 disabled:opacity-40 transition"
+              >
+                {saving ? "Saving…" : "Save glass"}
+              </button>
+              <button
+                onClick={handleCancel}
+                className="px-2 py-1 text-xs font-medium rounded-lg bg-white/5 text-gray-400 hover:bg-white/10 transition"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * One-time migration for annotations saved before anchors existed:
+ * each is pinned to the piece it is shown on today, so later layouts
+ * keep it there. The layout is rebuilt server-side exactly as the
+ * viewer builds it (see `loadPieces`).
+ */
+
+import { anchorOf, bindAnnotations } from "./anchors";
+import { getAnnotations, getImages, updateAnnotations, CellAnchor, ImageRecord } from "./db";
+import { loadPieces } from "./exportWindow";
+import { pinnedAnnotations } from "./manualSeeds";
+
+/**
+ * Anchor `image`'s unanchored annotations. Returns how many were
+ * pinned; annotations edited since they were read are left alone.
+ */
+export async function migrateAnchors(image: ImageRecord): Promise<number> {
+  const annotations = await getAnnotations(image.slug);
+  if (Object.values(annotations).every((annotation) => annotation.anchor)) return 0;
+
+  const { width, height, cells } = await loadPieces(image);
+  const seeds = image.tessellation?.seeds;
+  const anchors = new Map<number, CellAnchor>();
+  const shownOn = bindAnnotations(annotations, cells, width, height, seeds && pinnedAnnotations(seeds));
+  for (const cell of cells) {
+    const key = shownOn.get(cell.id);
+    if (key !== undefined && !annotations[key].anchor) {
+      anchors.set(key, anchorOf(cell, width, height));
+    }
+  }
+  if (anchors.size === 0) return 0;
+
+  let count = 0;
+  await updateAnnotations(image.slug, (current) => {
+    count = 0;
+    for (const [key, anchor] of Array.from(anchors)) {
+      const annotation = current[key];
+      if (!annotation || annotation.anchor) continue;
+      current[key] = { ...annotation, anchor };
+      count++;
+    }
+    return count > 0;
+  }, "anchor migration");
+  return count;
+}
+
+/**
+ * Run `migrateAnchors` over every image in the gallery.
+ */
+export async function migrateAllAnchors(): Promise<Record<string, number>> {
+  const results: Record<string, number> = {};
+  for (const image of await getImages()) {
+    results[image.slug] = await migrateAnchors(image);
+  }
+  return results;
+}
@@ -0,0 +1,101 @@
+/**
+ * Binding annotations to cells.
+ *
+ * `VoronoiCell.id` is only an index into one layout, so it changes
+ * whenever the layout does. Annotations are stored under keys of their
+ * own and carry an `anchor` – the cell's seed in normalized image
+ * coordinates. After every (re)tessellation each annotation is bound to
+ * the cell containing its anchor.
+ */
+
+import { pointInPolygon, Point, VoronoiCell } from "./delaunay";
+
+interface Anchored {
+  anchor?: Point;
+}
+
+/**
+ * The anchor for a cell of a `width` × `height` layout.
+ */
+export function anchorOf(cell: VoronoiCell, width: number, height: number): Point {
+  const round = (v: number) => Math.round(Math.max(0, Math.min(1, v)) * 1e6) / 1e6;
+  return { x: round(cell.seed.x / width), y: round(cell.seed.y / height) };
+}
+
+/**
+ * Map each cell id to the key of the annotation shown on it.
+ *
+ * `pinned` (cell id → key, from a hand-edited layout) is honoured
+ * first. Otherwise an anchored annotation goes to the cell containing
+ * its anchor, or to the nearest free cell when two anchors land on the
+ * same piece.
+ * Annotations saved before anchors existed fall back to the cell whose
+ * id matches their key. Annotations with no cell left stay stored but
+ * unbound.
+ */
+export function bindAnnotations(
+  annotations: Record<number, Anchored>,
+  cells: VoronoiCell[],
+  width: number,
+  height: number,
+  pinned?: Map<number, number>
+): Map<number, number> {
+  const bound = new Map<number, number>();
+  if (cells.length === 0 || width <= 0 || height <= 0) return bound;
+
+  const ids = new Set(cells.map((c) => c.id));
+  const placed = new Set<number>();
+  pinned?.forEach((key, id) => {
+    if (ids.has(id) && key in annotations && !placed.has(key)) {
+      bound.set(id, key);
+      placed.add(key);
+    }
+  });
+
+  const keys = Object.keys(annotations)
+    .map(Number)
+    .filter((key) => !placed.has(key))
+    .sort((a, b) => a - b);
+
+  for (const key of keys) {
+    const anchor = annotations[key].anchor;
+    if (!anchor) continue;
+    const x = anchor.x * width;
+    const y = anchor.y * height;
+    const containing = cells.find((c) => pointInPolygon(x, y, c.vertices));
+    if (containing && !bound.has(containing.id)) {
+      bound.set(containing.id, key);
+      continue;
+    }
+    let nearest: VoronoiCell | null = null;
+    let best = Infinity;
+    for (const cell of cells) {
+      if (bound.has(cell.id)) continue;
+      const d = (cell.seed.x - x) ** 2 + (cell.seed.y - y) ** 2;
+      if (d < best) {
+        best = d;
+        nearest = cell;
+      }
+    }
+    if (nearest) bound.set(nearest.id, key);
+  }
+
+  for (const key of keys) {
+    if (annotations[key].anchor) continue;
+    if (ids.has(key) && !bound.has(key)) bound.set(key, key);
+  }
+
+  return bound;
+}
+
+/**
+ * Key for a new annotation on `cellId`: the cell id itself while it is
+ * free, otherwise one past the highest key in use.
+ */
+export function nextAnnotationKey(
+  annotations: Record<number, unknown>,
+  cellId: number
+): number {
+  if (!(cellId in annotations)) return cellId;
+  return Math.max(...Object.keys(annotations).map(Number)) + 1;
+}
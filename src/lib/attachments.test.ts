@@ -0,0 +1,71 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { NextRequest } from "next/server";
+import { beforeAll, describe, expect, it } from "vitest";
+import { useTempStorage } from "@/test/tempStorage";
+import { PUT as putCell } from "@/app/api/images/[slug]/annotations/[cellId]/route";
+import { GET as getAnnotationsRoute } from "@/app/api/images/[slug]/annotations/route";
+import { migrateInlineImages } from "./attachments";
+import { addImage, getAnnotations, type CellAnnotation, type ImageRecord } from "./db";
+import { getStorage } from "./storage";
+
+useTempStorage();
+
+const note = (title: string): CellAnnotation => ({ title, description: "", date: "2024-05-01" });
+
+const photo = `data:image/png;base64,${createCanvas(3, 2).toBuffer("image/png").toString("base64")}`;
+
+function imageRecord(slug: string): ImageRecord {
+  return {
+    id: `${slug}-id`,
+    slug,
+    originalName: `${slug}.png`,
+    fileName: `${slug}.png`,
+    blobUrl: `/uploads/${slug}.png`,
+    uploadedAt: new Date(0).toISOString(),
+  };
+}
+
+/** Annotations written as they were before attachments, bypassing the schema. */
+async function writeLegacy(slug: string) {
+  await getStorage().writeDocument(`annotations/${slug}.json`, {
+    1: { ...note("inline"), imageDataUrl: photo },
+    2: note("plain"),
+  });
+}
+
+beforeAll(async () => {
+  await addImage(imageRecord("routed"));
+});
+
+describe("migrateInlineImages", () => {
+  it("moves inline images into attachments once", async () => {
+    await writeLegacy("legacy");
+    expect(await migrateInlineImages(imageRecord("legacy"))).toBe(1);
+    const annotations = await getAnnotations("legacy");
+    expect(annotations[1]).toEqual({
+      ...note("inline"),
+      attachment: { url: expect.any(String), mimeType: "image/png", width: 3, height: 2 },
+    });
+    expect(annotations[2]).toEqual(note("plain"));
+    expect(await getStorage().readFile(annotations[1].attachment!.url)).not.toBeNull();
+    expect(await migrateInlineImages(imageRecord("legacy"))).toBe(0);
+  });
+
+  it("runs before the editor reads the cells, so an edit keeps the photo", async () => {
+    await writeLegacy("routed");
+    const url = "http://localhost/api/images/routed/annotations";
+    const shown = await (await getAnnotationsRoute(new NextRequest(url), { params: { slug: "routed" } })).json();
+    expect(shown[1].attachment).toMatchObject({ mimeType: "image/png", width: 3, height: 2 });
+    expect(shown[1]).not.toHaveProperty("imageDataUrl");
+
+    // The editor sends back what it showed, with the title changed
+    const request = new NextRequest(`${url}/1`, {
+      method: "PUT",
+      body: JSON.stringify({ ...shown[1], title: "edited" }),
+      headers: { "content-type": "application/json" },
+    });
+    const response = await putCell(request, { params: { slug: "routed", cellId: "1" } });
+    expect(response.status).toBe(200);
+    expect((await getAnnotations("routed"))[1]).toEqual({ ...shown[1], title: "edited" });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Annotation attachments – images pinned to a cell annotation.
+ *
+ * Files are stored through the storage driver under the owning image's
+ * id (`images/<id>/attachments/…`), so they sit next to the source image
+ * and survive slug renames. Annotations only keep an
+ * `AnnotationAttachment` reference.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { getStorage } from "./storage";
+import {
+  getImages,
+  getAnnotations,
+  updateAnnotations,
+  AnnotationAttachment,
+  CellAnnotation,
+  ImageRecord,
+} from "./db";
+import { readImageSize } from "./imageSize";
+
+const ATTACHMENT_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "image/gif": ".gif",
+};
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Thrown when an uploaded attachment is rejected; the message is safe
+ * to show to the client.
+ */
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+/**
+ * Validate and store an attachment for `image`, returning its reference.
+ */
+export async function storeAttachment(
+  image: ImageRecord,
+  body: Blob
+): Promise<AnnotationAttachment> {
+  const mimeType = body.type;
+  const ext = ATTACHMENT_EXTENSIONS[mimeType];
+  if (!ext) {
+    throw new AttachmentError(
+      "Invalid file type. Only JPEG, PNG, WebP, and GIF are allowed."
+    );
+  }
+  if (body.size > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError("Attachment is larger than 10 MB.");
+  }
+
+  const bytes = new Uint8Array(await body.arrayBuffer());
+  const size = readImageSize(bytes);
+  if (!size) {
+    throw new AttachmentError("Could not read image dimensions.");
+  }
+
+  const key = `images/${image.id}/attachments/${uuidv4()}${ext}`;
+  const url = await getStorage().putFile(key, new Blob([bytes], { type: mimeType }), mimeType);
+  return { url, mimeType, ...size };
+}
+
+/* ── inline image migration ────────────────────────────────
+ * Annotations used to embed their picture as a base64 data URL
+ * in `imageDataUrl`. These helpers move each one into a stored
+ * attachment and drop the inline copy.
+ * ──────────────────────────────────────────────────────── */
+
+type LegacyCellAnnotation = CellAnnotation & { imageDataUrl?: string };
+
+function dataUrlToBlob(dataUrl: string): Blob | null {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+  if (!match) return null;
+  return new Blob([Buffer.from(match[2], "base64")], { type: match[1] });
+}
+
+/**
+ * Convert every inline `imageDataUrl` on one image's annotations.
+ * Returns the number of cells converted.
+ */
+export async function migrateInlineImages(image: ImageRecord): Promise<number> {
+  const annotations = (await getAnnotations(image.slug)) as Record<number, LegacyCellAnnotation>;
+
+  // Upload first, outside the read-modify-write, keyed by the data URL we saw
+  const converted = new Map<number, { dataUrl: string; attachment: AnnotationAttachment | null }>();
+  for (const [id, annotation] of Object.entries(annotations)) {
+    const dataUrl = annotation.imageDataUrl;
+    if (!dataUrl) continue;
+    const blob = dataUrlToBlob(dataUrl);
+    let attachment: AnnotationAttachment | null = null;
+    try {
+      if (blob) attachment = await storeAttachment(image, blob);
+    } catch (err) {
+      if (!(err instanceof AttachmentError)) throw err;
+      // unreadable legacy image – drop it rather than keep the blob inline
+    }
+    converted.set(Number(id), { dataUrl, attachment });
+  }
+  if (converted.size === 0) return 0;
+
+  let count = 0;
+  await updateAnnotations(image.slug, (current) => {
+    count = 0;
+    const cells = current as Record<number, LegacyCellAnnotation>;
+    for (const [id, { dataUrl, attachment }] of Array.from(converted)) {
+      const cell = cells[id];
+      // Skip cells edited since we read them
+      if (!cell || cell.imageDataUrl !== dataUrl) continue;
+      const { imageDataUrl: _inline, ...rest } = cell;
+      cells[id] = attachment ? { ...rest, attachment } : rest;
+      count++;
+    }
+    return count > 0;
+  }, "inline image migration");
+  return count;
+}
+
+/**
+ * Run `migrateInlineImages` over every image in the gallery.
+ */
+export async function migrateAllInlineImages(): Promise<Record<string, number>> {
+  const results: Record<string, number> = {};
+  for (const image of await getImages()) {
+    results[image.slug] = await migrateInlineImages(image);
+  }
+  return results;
+}
@@ -0,0 +1,29 @@
+/**
+ * Client-side author label, remembered in localStorage and sent as
+ * `X-Author` so annotation revisions record who made each change.
+ */
+
+const STORAGE_KEY = "stained-glass-author";
+
+export function getAuthorLabel(): string {
+  if (typeof window === "undefined") return "";
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function setAuthorLabel(label: string): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, label.trim());
+  } catch {
+    // storage may be unavailable (private mode)
+  }
+}
+
+export function authorHeaders(): Record<string, string> {
+  const label = getAuthorLabel();
+  // Header values must be Latin-1, so the label travels URI-encoded
+  return label ? { "X-Author": encodeURIComponent(label) } : {};
+}
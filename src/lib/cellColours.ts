@@ -0,0 +1,238 @@
+/**
+ * Glass colour per piece, read from the photo once per layout. A piece
+ * can take the pixel under its seed, or summarize every pixel it
+ * covers: the mean, the per-channel median, or the dominant colour
+ * found by a small k-means.
+ *
+ * Colours are sampled from a downsampled copy of the image (see
+ * `COLOUR_SAMPLE_SIZE`) and can be stored with the image under a
+ * `layoutKey`, so a viewer showing the same layout reuses them instead
+ * of reading pixels itself.
+ */
+
+import { VoronoiCell } from "./delaunay";
+import { ImagePixels } from "./contentAware";
+import type { SamplingMode } from "./glassStyle";
+import { TessellationSettings, usesDetailMap } from "./tessellation";
+
+type RGB = [number, number, number];
+
+/** Long side, in pixels, of the copy colours are sampled from. */
+export const COLOUR_SAMPLE_SIZE = 512;
+
+/** Clusters for `dominant` sampling. */
+const DOMINANT_CLUSTERS = 3;
+
+/** Pixels per piece fed to k-means; larger pieces are thinned evenly. */
+const DOMINANT_SAMPLES = 256;
+
+const DOMINANT_ITERATIONS = 8;
+
+/* ── rasterizing ─────────────────────────────────────────── */
+
+/**
+ * Indices (into `pixels`) of the pixels whose centres lie inside
+ * `cell`, which is given in a `width` × `height` layout.
+ */
+function coveredPixels(cell: VoronoiCell, pixels: ImagePixels, width: number, height: number): number[] {
+  const sx = pixels.width / width;
+  const sy = pixels.height / height;
+  const vertices = cell.vertices.map((p) => ({ x: p.x * sx, y: p.y * sy }));
+  let minY = Infinity, maxY = -Infinity;
+  for (const p of vertices) {
+    minY = Math.min(minY, p.y);
+    maxY = Math.max(maxY, p.y);
+  }
+
+  const covered: number[] = [];
+  const crossings: number[] = [];
+  const top = Math.max(0, Math.ceil(minY - 0.5));
+  const bottom = Math.min(pixels.height - 1, Math.floor(maxY - 0.5));
+  // Even-odd scanlines through pixel centres
+  for (let y = top; y <= bottom; y++) {
+    const cy = y + 0.5;
+    crossings.length = 0;
+    for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+      const a = vertices[i], b = vertices[j];
+      if (a.y > cy !== b.y > cy) crossings.push(a.x + ((cy - a.y) / (b.y - a.y)) * (b.x - a.x));
+    }
+    crossings.sort((a, b) => a - b);
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      const from = Math.max(0, Math.ceil(crossings[k] - 0.5));
+      const to = Math.min(pixels.width - 1, Math.floor(crossings[k + 1] - 0.5));
+      for (let x = from; x <= to; x++) covered.push(y * pixels.width + x);
+    }
+  }
+  return covered;
+}
+
+/* ── summaries ───────────────────────────────────────────── */
+
+function rgbAt(pixels: ImagePixels, index: number): RGB {
+  const { data } = pixels;
+  return [data[4 * index], data[4 * index + 1], data[4 * index + 2]];
+}
+
+function meanColour(pixels: ImagePixels, covered: number[]): RGB {
+  let r = 0, g = 0, b = 0;
+  for (const i of covered) {
+    r += pixels.data[4 * i];
+    g += pixels.data[4 * i + 1];
+    b += pixels.data[4 * i + 2];
+  }
+  const n = covered.length;
+  return [Math.round(r / n), Math.round(g / n), Math.round(b / n)];
+}
+
+/** Per-channel median, by histogram. */
+function medianColour(pixels: ImagePixels, covered: number[]): RGB {
+  const histogram = new Uint32Array(256 * 3);
+  for (const i of covered) {
+    histogram[pixels.data[4 * i]]++;
+    histogram[256 + pixels.data[4 * i + 1]]++;
+    histogram[512 + pixels.data[4 * i + 2]]++;
+  }
+  const half = covered.length / 2;
+  const median = (channel: number) => {
+    let seen = 0;
+    for (let v = 0; v < 256; v++) {
+      seen += histogram[channel * 256 + v];
+      if (seen >= half) return v;
+    }
+    return 255;
+  };
+  return [median(0), median(1), median(2)];
+}
+
+/**
+ * Centre of the largest cluster found by k-means. Clusters start at
+ * luminance quantiles, so the result is the same on every run.
+ */
+function dominantColour(pixels: ImagePixels, covered: number[]): RGB {
+  const stride = Math.max(1, Math.floor(covered.length / DOMINANT_SAMPLES));
+  const samples: RGB[] = [];
+  for (let k = 0; k < covered.length; k += stride) samples.push(rgbAt(pixels, covered[k]));
+  const k = Math.min(DOMINANT_CLUSTERS, samples.length);
+
+  const luminance = (c: RGB) => 0.299 * c[0] + 0.587 * c[1] + 0.114 * c[2];
+  const byLuminance = [...samples].sort((a, b) => luminance(a) - luminance(b));
+  const centres: RGB[] = Array.from({ length: k }, (_, c) => [
+    ...byLuminance[Math.floor(((c + 0.5) / k) * byLuminance.length)],
+  ] as RGB);
+
+  const assignment = new Uint8Array(samples.length);
+  const sizes = new Uint32Array(k);
+  for (let iteration = 0; iteration < DOMINANT_ITERATIONS; iteration++) {
+    const sums = new Float64Array(k * 3);
+    sizes.fill(0);
+    samples.forEach((s, i) => {
+      let best = 0, bestDistance = Infinity;
+      for (let c = 0; c < k; c++) {
+        const d =
+          (s[0] - centres[c][0]) ** 2 + (s[1] - centres[c][1]) ** 2 + (s[2] - centres[c][2]) ** 2;
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = c;
+        }
+      }
+      assignment[i] = best;
+      sizes[best]++;
+      sums[3 * best] += s[0];
+      sums[3 * best + 1] += s[1];
+      sums[3 * best + 2] += s[2];
+    });
+    for (let c = 0; c < k; c++) {
+      if (sizes[c] === 0) continue;
+      centres[c] = [sums[3 * c] / sizes[c], sums[3 * c + 1] / sizes[c], sums[3 * c + 2] / sizes[c]];
+    }
+  }
+
+  let largest = 0;
+  for (let c = 1; c < k; c++) if (sizes[c] > sizes[largest]) largest = c;
+  const [r, g, b] = centres[largest];
+  return [Math.round(r), Math.round(g), Math.round(b)];
+}
+
+/* ── sampling ────────────────────────────────────────────── */
+
+/**
+ * The cells of a `width` × `height` layout with their `colour` set from
+ * `pixels` (any downsampled copy of the same image). Pieces too small
+ * to cover a pixel centre fall back to the pixel under their seed.
+ */
+export function colourCells(
+  cells: VoronoiCell[],
+  pixels: ImagePixels,
+  width: number,
+  height: number,
+  mode: SamplingMode
+): VoronoiCell[] {
+  const seedPixel = (cell: VoronoiCell) => {
+    const x = Math.min(pixels.width - 1, Math.max(0, Math.floor((cell.seed.x / width) * pixels.width)));
+    const y = Math.min(pixels.height - 1, Math.max(0, Math.floor((cell.seed.y / height) * pixels.height)));
+    return rgbAt(pixels, y * pixels.width + x);
+  };
+
+  return cells.map((cell) => {
+    if (mode === "seed") return { ...cell, colour: seedPixel(cell) };
+    const covered = coveredPixels(cell, pixels, width, height);
+    if (covered.length === 0) return { ...cell, colour: seedPixel(cell) };
+    const colour =
+      mode === "median"
+        ? medianColour(pixels, covered)
+        : mode === "dominant"
+          ? dominantColour(pixels, covered)
+          : meanColour(pixels, covered);
+    return { ...cell, colour };
+  });
+}
+
+/* ── storing ─────────────────────────────────────────────── */
+
+/**
+ * Fingerprint of everything the sampled colours depend on: the layout
+ * settings, the image size, whether the image's pixels shaped the
+ * layout, and the sampling mode.
+ */
+export function layoutKey(
+  settings: TessellationSettings,
+  mode: SamplingMode,
+  width: number,
+  height: number,
+  hasPixels: boolean
+): string {
+  const text = JSON.stringify([settings, mode, width, height, hasPixels && usesDetailMap(settings)]);
+  // FNV-1a, twice with different offsets for 64 bits
+  let h1 = 0x811c9dc5, h2 = 0x050c5d1f;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 0x01000193);
+    h2 = Math.imul(h2 ^ c, 0x01000193);
+  }
+  return (h1 >>> 0).toString(16).padStart(8, "0") + (h2 >>> 0).toString(16).padStart(8, "0");
+}
+
+/** Cell colours flattened to `id, r, g, b` quadruples for storage. */
+export function packColours(cells: VoronoiCell[]): number[] {
+  const packed: number[] = [];
+  for (const { id, colour } of cells) if (colour) packed.push(id, ...colour);
+  return packed;
+}
+
+/**
+ * The cells with their colours restored from `packed`, or null when it
+ * does not cover every cell.
+ */
+export function unpackColours(cells: VoronoiCell[], packed: number[]): VoronoiCell[] | null {
+  const colours = new Map<number, RGB>();
+  for (let i = 0; i + 3 < packed.length; i += 4) {
+    colours.set(packed[i], [packed[i + 1], packed[i + 2], packed[i + 3]]);
+  }
+  const coloured: VoronoiCell[] = [];
+  for (const cell of cells) {
+    const colour = colours.get(cell.id);
+    if (!colour) return null;
+    coloured.push({ ...cell, colour });
+  }
+  return coloured;
+}
@@ -0,0 +1,311 @@
+/**
+ * Content-aware tessellation: seeds follow the detail in the photo and
+ * cell borders are pulled onto strong edges, so the leading traces the
+ * subject instead of cutting straight through it.
+ *
+ * Everything works on a small downsampled copy of the image (see
+ * `DETAIL_MAP_SIZE`) and is driven by the seeded PRNG, so a given
+ * image and seed string always give the same layout. `tessellate`
+ * wires these steps together.
+ */
+
+import { Point, VoronoiCell } from "./delaunay";
+
+/** RGBA pixels, laid out like the browser's `ImageData`. */
+export interface ImagePixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+/** Edge strength per pixel, normalized to 0–1. */
+export interface DetailMap {
+  width: number;
+  height: number;
+  values: Float32Array;
+}
+
+/** Long side, in pixels, of the copy the detail map is computed from. */
+export const DETAIL_MAP_SIZE = 256;
+
+/** Share of seed density every region gets, however flat. */
+const DENSITY_FLOOR = 0.15;
+
+/* ── downsampling ────────────────────────────────────────── */
+
+/**
+ * `pixels` scaled so the long side is at most `maxSide`, each pixel
+ * the average of the block it covers. The viewer and the server-side
+ * export both shrink the full-size photo through here rather than
+ * their own canvas, whose resampling differs, so they get the same
+ * pieces from it.
+ */
+export function downsamplePixels(pixels: ImagePixels, maxSide: number): ImagePixels {
+  const { width: fullWidth, height: fullHeight, data } = pixels;
+  const scale = Math.min(1, maxSide / Math.max(fullWidth, fullHeight));
+  const width = Math.max(1, Math.round(fullWidth * scale));
+  const height = Math.max(1, Math.round(fullHeight * scale));
+  if (width === fullWidth && height === fullHeight) return pixels;
+
+  // Source columns / rows [edges[i], edges[i + 1]) make up output pixel i
+  const edges = (full: number, size: number) =>
+    Array.from({ length: size + 1 }, (_, i) => Math.floor((i * full) / size));
+  const xs = edges(fullWidth, width);
+  const ys = edges(fullHeight, height);
+
+  const out = new Uint8ClampedArray(width * height * 4);
+  const sums = new Float64Array(width * 4);
+  for (let y = 0; y < height; y++) {
+    sums.fill(0);
+    for (let sy = ys[y]; sy < ys[y + 1]; sy++) {
+      let i = sy * fullWidth * 4;
+      for (let x = 0; x < width; x++) {
+        for (let sx = xs[x]; sx < xs[x + 1]; sx++, i += 4) {
+          sums[x * 4] += data[i];
+          sums[x * 4 + 1] += data[i + 1];
+          sums[x * 4 + 2] += data[i + 2];
+          sums[x * 4 + 3] += data[i + 3];
+        }
+      }
+    }
+    for (let x = 0; x < width; x++) {
+      const count = (ys[y + 1] - ys[y]) * (xs[x + 1] - xs[x]);
+      for (let c = 0; c < 4; c++) {
+        out[(y * width + x) * 4 + c] = Math.round(sums[x * 4 + c] / count);
+      }
+    }
+  }
+  return { width, height, data: out };
+}
+
+/* ── detail map ──────────────────────────────────────────── */
+
+/**
+ * Sobel gradient magnitude of the image's luminance, lightly blurred
+ * and normalized so the 98th percentile maps to 1.
+ */
+export function detailMap(pixels: ImagePixels): DetailMap {
+  const { width, height, data } = pixels;
+  const lum = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    lum[i] = 0.299 * data[4 * i] + 0.587 * data[4 * i + 1] + 0.114 * data[4 * i + 2];
+  }
+
+  const at = (x: number, y: number) =>
+    lum[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+
+  const grad = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx =
+        at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy =
+        at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      grad[y * width + x] = Math.hypot(gx, gy);
+    }
+  }
+
+  // 3×3 box blur – single-pixel noise should not attract seeds
+  const values = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          sum += grad[ny * width + nx];
+          count++;
+        }
+      }
+      values[y * width + x] = sum / count;
+    }
+  }
+
+  const sorted = Float32Array.from(values).sort();
+  const top = sorted[Math.floor((sorted.length - 1) * 0.98)] || 1;
+  for (let i = 0; i < values.length; i++) values[i] = Math.min(1, values[i] / top);
+
+  return { width, height, values };
+}
+
+function detailAt(map: DetailMap, x: number, y: number): number {
+  const mx = Math.min(map.width - 1, Math.max(0, Math.floor(x)));
+  const my = Math.min(map.height - 1, Math.max(0, Math.floor(y)));
+  return map.values[my * map.width + mx];
+}
+
+/**
+ * Seed density at a point of a `width` × `height` layout – the weight
+ * for density-weighted Lloyd relaxation.
+ */
+export function detailDensity(
+  map: DetailMap,
+  width: number,
+  height: number
+): (x: number, y: number) => number {
+  const sx = map.width / width;
+  const sy = map.height / height;
+  return (x, y) => DENSITY_FLOOR + (1 - DENSITY_FLOOR) * detailAt(map, x * sx, y * sy);
+}
+
+/* ── seed placement ──────────────────────────────────────── */
+
+/**
+ * Place `numCells` seeds in a `width` × `height` layout with density
+ * following the detail map. Seeds keep a spacing that shrinks where
+ * density is high, so detailed areas get many small pieces without the
+ * clumping of plain random sampling.
+ */
+export function contentAwareSeeds(
+  map: DetailMap,
+  width: number,
+  height: number,
+  numCells: number,
+  rand: () => number
+): Point[] {
+  const sx = map.width / width;
+  const sy = map.height / height;
+
+  // Cumulative density over map pixels for inverse-CDF sampling
+  const cdf = new Float64Array(map.values.length);
+  let total = 0;
+  for (let i = 0; i < map.values.length; i++) {
+    total += DENSITY_FLOOR + (1 - DENSITY_FLOOR) * map.values[i];
+    cdf[i] = total;
+  }
+  const meanDensity = total / map.values.length;
+
+  const sample = (): Point => {
+    const u = rand() * total;
+    let lo = 0, hi = cdf.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cdf[mid] < u) lo = mid + 1;
+      else hi = mid;
+    }
+    const mx = (lo % map.width) + rand();
+    const my = Math.floor(lo / map.width) + rand();
+    return {
+      x: Math.max(1, Math.min(width - 1, mx / sx)),
+      y: Math.max(1, Math.min(height - 1, my / sy)),
+    };
+  };
+
+  // Spacing for uniform density, scaled by 1/√density locally
+  const base = Math.sqrt((width * height) / numCells);
+  const spacing = (p: Point) => {
+    const d = DENSITY_FLOOR + (1 - DENSITY_FLOOR) * detailAt(map, p.x * sx, p.y * sy);
+    return (0.6 * base) / Math.sqrt(d / meanDensity);
+  };
+
+  // Bucket grid sized to the largest spacing, so 3×3 buckets suffice
+  const maxSpacing = (0.6 * base) / Math.sqrt(DENSITY_FLOOR / meanDensity);
+  const cols = Math.max(1, Math.ceil(width / maxSpacing));
+  const rows = Math.max(1, Math.ceil(height / maxSpacing));
+  const buckets: Point[][] = Array.from({ length: cols * rows }, () => []);
+  const bucketOf = (p: Point) =>
+    Math.min(rows - 1, Math.floor(p.y / maxSpacing)) * cols +
+    Math.min(cols - 1, Math.floor(p.x / maxSpacing));
+
+  const seeds: Point[] = [];
+  const maxAttempts = numCells * 30;
+  for (let attempt = 0; attempt < maxAttempts && seeds.length < numCells; attempt++) {
+    const p = sample();
+    const r = spacing(p);
+    const bx = Math.min(cols - 1, Math.floor(p.x / maxSpacing));
+    const by = Math.min(rows - 1, Math.floor(p.y / maxSpacing));
+    let clear = true;
+    for (let y = Math.max(0, by - 1); clear && y <= Math.min(rows - 1, by + 1); y++) {
+      for (let x = Math.max(0, bx - 1); clear && x <= Math.min(cols - 1, bx + 1); x++) {
+        for (const q of buckets[y * cols + x]) {
+          if ((q.x - p.x) ** 2 + (q.y - p.y) ** 2 < r * r) {
+            clear = false;
+            break;
+          }
+        }
+      }
+    }
+    if (!clear) continue;
+    seeds.push(p);
+    buckets[bucketOf(p)].push(p);
+  }
+
+  // Spacing too tight to fit them all – top up without it
+  while (seeds.length < numCells) seeds.push(sample());
+
+  return seeds;
+}
+
+/* ── edge snapping ───────────────────────────────────────── */
+
+/**
+ * Pull cell vertices toward the strongest edge nearby. Shared vertices
+ * move together so neighbouring cells still meet; vertices on the
+ * frame stay put. `strength` (0–1) scales the search radius, which is
+ * also capped by the vertex's shortest edge so polygons do not fold.
+ */
+export function snapToEdges(
+  cells: VoronoiCell[],
+  map: DetailMap,
+  width: number,
+  height: number,
+  strength: number
+): VoronoiCell[] {
+  if (strength <= 0 || cells.length === 0) return cells;
+
+  const sx = map.width / width;
+  const sy = map.height / height;
+  const eps = 1e-6;
+  const key = (p: Point) => `${p.x.toFixed(3)},${p.y.toFixed(3)}`;
+  const onFrame = (p: Point) =>
+    p.x < eps || p.y < eps || p.x > width - eps || p.y > height - eps;
+
+  // Shortest edge touching each vertex
+  const shortest = new Map<string, number>();
+  for (const { vertices } of cells) {
+    for (let i = 0; i < vertices.length; i++) {
+      const a = vertices[i];
+      const b = vertices[(i + 1) % vertices.length];
+      const len = Math.hypot(a.x - b.x, a.y - b.y);
+      for (const p of [a, b]) {
+        const k = key(p);
+        shortest.set(k, Math.min(shortest.get(k) ?? Infinity, len));
+      }
+    }
+  }
+
+  const base = Math.sqrt((width * height) / cells.length);
+  const snapped = new Map<string, Point>();
+  const snap = (p: Point): Point => {
+    const k = key(p);
+    const done = snapped.get(k);
+    if (done) return done;
+    let best = p;
+    if (!onFrame(p)) {
+      const radius = Math.min(strength * 0.3 * base, 0.4 * (shortest.get(k) ?? 0));
+      // Step in detail-map pixels – finer steps find nothing new
+      const step = Math.max(1 / sx, 1 / sy);
+      let bestValue = detailAt(map, p.x * sx, p.y * sy);
+      for (let dy = -radius; dy <= radius; dy += step) {
+        for (let dx = -radius; dx <= radius; dx += step) {
+          if (dx * dx + dy * dy > radius * radius) continue;
+          const x = p.x + dx, y = p.y + dy;
+          if (x <= 0 || y <= 0 || x >= width || y >= height) continue;
+          const value = detailAt(map, x * sx, y * sy);
+          if (value > bestValue) {
+            bestValue = value;
+            best = { x, y };
+          }
+        }
+      }
+    }
+    snapped.set(k, best);
+    return best;
+  };
+
+  return cells.map((cell) => ({ ...cell, vertices: cell.vertices.map(snap) }));
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { cutPattern, cutPatternDxf, cutPatternSvg, partsListCsv, type PieceColour } from "./cutPattern";
+import { cellGraph, VoronoiCell } from "./delaunay";
+
+/** `cols` × `rows` squares 10 px across, ids row by row. */
+function grid(cols: number, rows: number): VoronoiCell[] {
+  const cells: VoronoiCell[] = [];
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      cells.push({
+        id: y * cols + x,
+        seed: { x: 10 * x + 5, y: 10 * y + 5 },
+        vertices: [
+          { x: 10 * x, y: 10 * y },
+          { x: 10 * x + 10, y: 10 * y },
+          { x: 10 * x + 10, y: 10 * y + 10 },
+          { x: 10 * x, y: 10 * y + 10 },
+        ],
+      });
+    }
+  }
+  return cells;
+}
+
+const colours = new Map<number, PieceColour>([
+  [0, { name: "Ruby red", hex: "#aa0000" }],
+  [1, { name: "Amber, streaky", hex: "#dd9900" }],
+]);
+
+/** Six 10 mm squares, three across, with 2 mm lead. */
+function pattern() {
+  const cells = grid(3, 2);
+  // Out of order, so numbering cannot just follow the ids
+  const shuffled = [cells[4], cells[0], cells[5], cells[2], cells[1], cells[3]];
+  return cutPattern(shuffled, cellGraph(cells), { width: 30, height: 20 }, colours, { widthMm: 30, leadMm: 2 });
+}
+
+describe("cutPattern", () => {
+  it("cuts each piece half the lead inside its cartoon line", () => {
+    const { width, height, pieces } = pattern();
+    expect([width, height]).toEqual([30, 20]);
+    for (const piece of pieces) {
+      expect(piece.area).toBeCloseTo(64);
+      expect(piece.perimeter).toBeCloseTo(32);
+      for (const p of piece.cut) {
+        expect(piece.cartoon.some((q) => Math.abs(q.x - p.x) === 1 && Math.abs(q.y - p.y) === 1)).toBe(true);
+      }
+    }
+  });
+
+  it("numbers pieces in reading order", () => {
+    expect(pattern().pieces.map((p) => [p.number, p.cellId])).toEqual([
+      [1, 0],
+      [2, 1],
+      [3, 2],
+      [4, 3],
+      [5, 4],
+      [6, 5],
+    ]);
+  });
+
+  it("gives each piece all of its border lead and half of each shared line", () => {
+    const { pieces, leads } = pattern();
+    expect(pieces.map((p) => p.came)).toEqual([30, 25, 30, 30, 25, 30]);
+    // Frame 100 mm, inner lines 70 mm: every line counted once
+    const total = leads.reduce((sum, [a, b]) => sum + Math.hypot(b.x - a.x, b.y - a.y), 0);
+    expect(total).toBeCloseTo(170);
+    expect(pieces.reduce((sum, p) => sum + p.came, 0)).toBeCloseTo(total);
+  });
+
+  it("never insets a piece past its own middle", () => {
+    const [sliver] = grid(1, 1);
+    sliver.vertices = sliver.vertices.map((p) => ({ x: p.x, y: p.y / 10 }));
+    const { pieces } = cutPattern([sliver], cellGraph([sliver]), { width: 10, height: 1 }, new Map(), {
+      widthMm: 10,
+      leadMm: 4,
+    });
+    expect(pieces[0].area).toBeGreaterThan(0);
+    expect(pieces[0].colour).toEqual({ hex: "#ffffff" });
+  });
+});
+
+describe("cutPatternSvg", () => {
+  it("draws numbered pieces in their glass, in millimetres", () => {
+    const svg = cutPatternSvg(pattern(), "Rose & thorn");
+    expect(svg).toContain(`width="50mm" height="56mm"`);
+    expect(svg).toContain("<title>Rose &amp; thorn</title>");
+    expect(svg.match(/id="piece-\d+"/g)).toEqual([1, 2, 3, 4, 5, 6].map((n) => `id="piece-${n}"`));
+    expect(svg).toContain(`<path id="piece-1" data-glass="Ruby red" fill="#aa0000" d="M1 1L9 1L9 9L1 9Z"/>`);
+    expect(svg).toContain(`<path id="piece-3" data-glass="#ffffff" fill="#ffffff"`);
+  });
+});
+
+describe("cutPatternDxf", () => {
+  const dxf = cutPatternDxf(pattern());
+  const lines = dxf.trimEnd().split("\n");
+  const values = (code: number) => lines.filter((_, i) => i % 2 === 1 && lines[i - 1] === String(code));
+
+  it("is an R12 drawing whose layers use a declared linetype", () => {
+    expect(lines.length % 2).toBe(0);
+    expect(lines.slice(0, 6)).toEqual(["0", "SECTION", "2", "HEADER", "9", "$ACADVER"]);
+    expect(lines[7]).toBe("AC1009");
+    expect(dxf).not.toContain("$INSUNITS");
+    const tables = values(2).filter((name) => name === "LTYPE" || name === "LAYER");
+    expect(tables[0]).toBe("LTYPE");
+    expect(values(6).every((linetype) => linetype === "CONTINUOUS")).toBe(true);
+    expect(lines.slice(-2)).toEqual(["0", "EOF"]);
+  });
+
+  it("puts cut lines on a layer per glass, y up", () => {
+    const entities = values(0);
+    expect(entities.filter((e) => e === "POLYLINE")).toHaveLength(6);
+    expect(entities.filter((e) => e === "SEQEND")).toHaveLength(6);
+    expect(entities.filter((e) => e === "LINE")).toHaveLength(pattern().leads.length);
+    expect(new Set(values(8))).toEqual(new Set(["LEAD", "NUMBERS", "GLASS-RUBY_RED", "GLASS-AMBER_STREAKY", "CUT"]));
+    // Piece 1 sits top left, so its first vertex is 1 mm below the top
+    const first = lines.indexOf("VERTEX");
+    expect(lines.slice(first + 3, first + 7)).toEqual(["10", "1", "20", "19"]);
+  });
+});
+
+describe("partsListCsv", () => {
+  it("lists every piece with its glass, area, cut line and lead", () => {
+    const [header, ...rows] = partsListCsv(pattern()).trimEnd().split("\n");
+    expect(header).toBe("Piece,Glass,Hex,Area cm²,Perimeter mm,Lead mm");
+    expect(rows).toHaveLength(6);
+    expect(rows[0]).toBe("1,Ruby red,#aa0000,0.64,32.0,30.0");
+    expect(rows[1]).toBe(`2,"Amber, streaky",#dd9900,0.64,32.0,25.0`);
+    expect(rows[2]).toBe("3,,#ffffff,0.64,32.0,30.0");
+  });
+});
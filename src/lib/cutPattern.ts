@@ -0,0 +1,300 @@
+/**
+ * The window as a glazier's cut pattern: every piece a numbered
+ * polygon in millimetres, ready for a plotter, a CAD package or a
+ * paper cartoon.
+ *
+ * Lines between pieces are the centre of the lead (the cartoon line).
+ * Glass is cut short of it by half the lead's heart, so each piece's
+ * cut line is its cartoon outline moved inward by that much.
+ */
+
+import {
+  insetPolygon,
+  interiorPoint,
+  polygonArea,
+  polygonCentroid,
+  polygonPerimeter,
+  type CellGraph,
+  type Point,
+  type VoronoiCell,
+} from "./delaunay";
+
+/** Colour of a piece: a named sheet, or just a sampled colour. */
+export interface PieceColour {
+  name?: string;
+  /** `#rrggbb` */
+  hex: string;
+}
+
+export interface CutPiece {
+  /** Number on the pattern and in the parts list, in reading order. */
+  number: number;
+  cellId: number;
+  /** Lead centre line around the piece. */
+  cartoon: Point[];
+  /** Where the glass is cut. */
+  cut: Point[];
+  /** Where the number goes, inside the cut line. */
+  label: Point;
+  colour: PieceColour;
+  /** Glass area inside the cut line, in mm². */
+  area: number;
+  /** Length of the cut line, in mm. */
+  perimeter: number;
+  /** Lead along the piece: its share of each line it shares, all of each border line, in mm. */
+  came: number;
+}
+
+export interface CutPattern {
+  /** Window size, in mm. */
+  width: number;
+  height: number;
+  /** Width of the lead's heart, in mm. */
+  lead: number;
+  pieces: CutPiece[];
+  /** Every lead line once, as a pair of end points. */
+  leads: Array<[Point, Point]>;
+}
+
+/* ── layout ──────────────────────────────────────────────── */
+
+/**
+ * The pattern for `cells`, laid out in a `layout.width` × `layout.height`
+ * image, for a real window `widthMm` wide with lead `leadMm` across.
+ */
+export function cutPattern(
+  cells: VoronoiCell[],
+  graph: CellGraph,
+  layout: { width: number; height: number },
+  colours: Map<number, PieceColour>,
+  options: { widthMm: number; leadMm: number }
+): CutPattern {
+  const mm = options.widthMm / layout.width;
+  const toMm = (p: Point): Point => ({ x: p.x * mm, y: p.y * mm });
+
+  const came = new Map<number, number>();
+  const leads: Array<[Point, Point]> = [];
+  for (const { a, b, from, to } of graph.edges) {
+    const length = Math.hypot(to.x - from.x, to.y - from.y) * mm;
+    came.set(a, (came.get(a) ?? 0) + (b === null ? length : length / 2));
+    if (b !== null) came.set(b, (came.get(b) ?? 0) + length / 2);
+    leads.push([toMm(from), toMm(to)]);
+  }
+
+  const pieces: Array<Omit<CutPiece, "number">> = [];
+  for (const cell of cells) {
+    const cartoon = cell.vertices.map(toMm);
+    const area = polygonArea(cartoon);
+    if (area <= 0) continue;
+    // Half the heart each side, but never so much the piece turns inside out
+    const offset = Math.min(options.leadMm / 2, (0.6 * area) / polygonPerimeter(cartoon));
+    const cut = (offset > 0 && insetPolygon(cartoon, offset)?.inset) || cartoon;
+    pieces.push({
+      cellId: cell.id,
+      cartoon,
+      cut,
+      label: interiorPoint(cut) ?? polygonCentroid(cartoon) ?? cartoon[0],
+      colour: colours.get(cell.id) ?? { hex: "#ffffff" },
+      area: polygonArea(cut),
+      perimeter: polygonPerimeter(cut),
+      came: came.get(cell.id) ?? 0,
+    });
+  }
+
+  // Reading order: rows about one piece tall, left to right within each
+  const row = Math.sqrt(pieces.reduce((sum, p) => sum + p.area, 0) / Math.max(1, pieces.length)) || 1;
+  pieces.sort(
+    (p, q) => Math.floor(p.label.y / row) - Math.floor(q.label.y / row) || p.label.x - q.label.x
+  );
+
+  return {
+    width: options.widthMm,
+    height: layout.height * mm,
+    lead: options.leadMm,
+    pieces: pieces.map((piece, i) => ({ ...piece, number: i + 1 })),
+    leads,
+  };
+}
+
+/* ── SVG ─────────────────────────────────────────────────── */
+
+const fixed = (n: number) => String(Math.round(n * 1000) / 1000);
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function pathData(points: Point[]): string {
+  return `M${points.map((p) => `${fixed(p.x)} ${fixed(p.y)}`).join("L")}Z`;
+}
+
+/** Piece numbers big enough to read, small enough to stay inside. */
+function numberSize(piece: CutPiece): number {
+  return Math.max(2, Math.min(8, 0.3 * Math.sqrt(piece.area)));
+}
+
+/** A scale bar of a round length, about a fifth of the window wide. */
+function scaleBarLength(width: number): number {
+  const target = width / 5;
+  const step = 10 ** Math.floor(Math.log10(target));
+  return [5, 2, 1].map((m) => m * step).find((length) => length <= target) ?? step;
+}
+
+/**
+ * The pattern as an SVG in millimetres: the lead at its real width,
+ * each piece a numbered path in its glass colour, and a scale bar.
+ * Piece paths carry `id="piece-N"` and their glass as `data-glass`.
+ */
+export function cutPatternSvg(pattern: CutPattern, title: string): string {
+  const margin = 10;
+  const footer = 16;
+  const width = pattern.width + 2 * margin;
+  const height = pattern.height + 2 * margin + footer;
+  const bar = scaleBarLength(pattern.width);
+  const barY = pattern.height + margin;
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fixed(width)}mm" height="${fixed(height)}mm" viewBox="${fixed(-margin)} ${fixed(-margin)} ${fixed(width)} ${fixed(height)}">`,
+    `<title>${escapeXml(title)}</title>`,
+    `<g id="lead" fill="none" stroke="#3a3a3a" stroke-width="${fixed(pattern.lead)}" stroke-linecap="round">`,
+    ...pattern.leads.map(
+      ([from, to]) => `<line x1="${fixed(from.x)}" y1="${fixed(from.y)}" x2="${fixed(to.x)}" y2="${fixed(to.y)}"/>`
+    ),
+    `</g>`,
+    `<g id="pieces" stroke="#000" stroke-width="0.2">`,
+    ...pattern.pieces.map(
+      (piece) =>
+        `<path id="piece-${piece.number}" data-glass="${escapeXml(piece.colour.name ?? piece.colour.hex)}" fill="${piece.colour.hex}" d="${pathData(piece.cut)}"/>`
+    ),
+    `</g>`,
+    `<g id="numbers" font-family="sans-serif" text-anchor="middle" dominant-baseline="central" fill="#000" stroke="#fff" stroke-width="0.5" paint-order="stroke">`,
+    ...pattern.pieces.map(
+      (piece) =>
+        `<text x="${fixed(piece.label.x)}" y="${fixed(piece.label.y)}" font-size="${fixed(numberSize(piece))}">${piece.number}</text>`
+    ),
+    `</g>`,
+    `<g id="scale" font-family="sans-serif" font-size="3.5" fill="#000">`,
+    `<rect x="0" y="${fixed(barY + 4)}" width="${fixed(bar)}" height="1.5"/>`,
+    `<text x="${fixed(bar + 3)}" y="${fixed(barY + 6)}">${bar} mm</text>`,
+    `<text x="${fixed(pattern.width)}" y="${fixed(barY + 6)}" text-anchor="end">${escapeXml(
+      `Window ${fixed(pattern.width)} × ${fixed(pattern.height)} mm · lead ${fixed(pattern.lead)} mm · ${pattern.pieces.length} pieces`
+    )}</text>`,
+    `</g>`,
+    `</svg>`,
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/* ── DXF ─────────────────────────────────────────────────── */
+
+/** A DXF layer name: letters, digits, `-` and `_`, at most 31 long. */
+function layerName(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9_-]+/g, "_").slice(0, 31) || "CUT";
+}
+
+/**
+ * The pattern as an AutoCAD R12 DXF, y up: lead centre lines on `LEAD`,
+ * cut lines as closed polylines on a layer per glass sheet (or `CUT`
+ * for sampled colours), and numbers on `NUMBERS`. R12 cannot declare
+ * units, so drawing units are millimetres by convention only.
+ */
+export function cutPatternDxf(pattern: CutPattern): string {
+  const out: Array<string | number> = [];
+  const group = (code: number, value: string | number) => out.push(code, value);
+  const y = (p: Point) => fixed(pattern.height - p.y);
+
+  const glassLayer = (piece: CutPiece) => (piece.colour.name ? layerName(`GLASS-${piece.colour.name}`) : "CUT");
+  const layers = ["LEAD", "NUMBERS", ...Array.from(new Set(pattern.pieces.map(glassLayer)))];
+
+  group(0, "SECTION");
+  group(2, "HEADER");
+  group(9, "$ACADVER");
+  group(1, "AC1009");
+  group(9, "$EXTMIN");
+  group(10, 0);
+  group(20, 0);
+  group(9, "$EXTMAX");
+  group(10, fixed(pattern.width));
+  group(20, fixed(pattern.height));
+  group(0, "ENDSEC");
+
+  group(0, "SECTION");
+  group(2, "TABLES");
+  group(0, "TABLE");
+  group(2, "LTYPE");
+  group(70, 1);
+  group(0, "LTYPE");
+  group(2, "CONTINUOUS");
+  group(70, 0);
+  group(3, "Solid line");
+  group(72, 65);
+  group(73, 0);
+  group(40, 0);
+  group(0, "ENDTAB");
+  group(0, "TABLE");
+  group(2, "LAYER");
+  group(70, layers.length);
+  for (const name of layers) {
+    group(0, "LAYER");
+    group(2, name);
+    group(70, 0);
+    group(62, name === "LEAD" ? 8 : 7);
+    group(6, "CONTINUOUS");
+  }
+  group(0, "ENDTAB");
+  group(0, "ENDSEC");
+
+  group(0, "SECTION");
+  group(2, "ENTITIES");
+  for (const [from, to] of pattern.leads) {
+    group(0, "LINE");
+    group(8, "LEAD");
+    group(10, fixed(from.x));
+    group(20, y(from));
+    group(11, fixed(to.x));
+    group(21, y(to));
+  }
+  for (const piece of pattern.pieces) {
+    const layer = glassLayer(piece);
+    group(0, "POLYLINE");
+    group(8, layer);
+    group(66, 1);
+    group(10, 0);
+    group(20, 0);
+    group(70, 1);
+    for (const p of piece.cut) {
+      group(0, "VERTEX");
+      group(8, layer);
+      group(10, fixed(p.x));
+      group(20, y(p));
+    }
+    group(0, "SEQEND");
+    group(8, layer);
+
+    group(0, "TEXT");
+    group(8, "NUMBERS");
+    group(10, fixed(piece.label.x));
+    group(20, y(piece.label));
+    group(40, fixed(numberSize(piece)));
+    group(1, piece.number);
+    group(72, 1);
+    group(73, 2);
+    group(11, fixed(piece.label.x));
+    group(21, y(piece.label));
+  }
+  group(0, "ENDSEC");
+  group(0, "EOF");
+  return out.join("\n") + "\n";
+}
+
+/* ── parts list ──────────────────────────────────────────── */
+
+/** One row per piece, for ordering glass and came. */
+export function partsListCsv(pattern: CutPattern): string {
+  const quote = (s: string) => (/[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s);
+  const lines = pattern.pieces.map(
+    ({ number, colour, area, perimeter, came }) =>
+      `${number},${quote(colour.name ?? "")},${colour.hex},${(area / 100).toFixed(2)},${perimeter.toFixed(1)},${came.toFixed(1)}`
+  );
+  return ["Piece,Glass,Hex,Area cm²,Perimeter mm,Lead mm", ...lines].join("\n") + "\n";
+}
@@ -0,0 +1,166 @@
+/**
+ * Simulated daylight for the view page: where the sun is at a given
+ * hour, how brightly it lights each pane, and where the light coming
+ * through a pane lands on the floor or the wall opposite the window.
+ *
+ * A deliberately simple sky: the sun rises due east at 6:00, stands
+ * highest at noon and sets due west at 18:00. Distances are in the
+ * window's own pixels, with the window `width` × `height` and its sill
+ * a fifth of its height above the floor.
+ */
+
+import type { Point } from "./delaunay";
+
+type RGB = [number, number, number];
+
+export const DAYLIGHT_SOURCES = ["clock", "slider", "cycle"] as const;
+
+/**
+ * `clock` follows the viewer's time of day, `slider` a chosen hour,
+ * `cycle` loops through a whole day in `DAY_CYCLE_SECONDS`.
+ */
+export type DaylightSource = (typeof DAYLIGHT_SOURCES)[number];
+
+export const DAYLIGHT_SURFACES = ["floor", "wall"] as const;
+
+export type DaylightSurface = (typeof DAYLIGHT_SURFACES)[number];
+
+export interface DaylightSettings {
+  source: DaylightSource;
+  /** Hour of the day, 0–24, for `slider`. */
+  hour: number;
+  surface: DaylightSurface;
+}
+
+export const DAY_CYCLE_SECONDS = 60;
+
+/** Highest the sun climbs, at noon. */
+const MAX_ELEVATION = (65 * Math.PI) / 180;
+
+/** Lowest elevation used for casting, so dawn light stays on the panel. */
+const MIN_CAST_ELEVATION = (4 * Math.PI) / 180;
+
+/** Largest sideways angle of the light, at sunrise and sunset. */
+const MAX_AZIMUTH = (55 * Math.PI) / 180;
+
+const SILL = 0.2;
+
+/** Size of the window's light on the wall, as a share of the panel height. */
+const WALL_SCALE = 0.6;
+
+export interface Sun {
+  /** Radians above the horizon; negative at night. */
+  elevation: number;
+  /** Sideways angle of the light; positive while it comes from the left. */
+  azimuth: number;
+  /** 0 at night to 1 in full daylight. */
+  intensity: number;
+  colour: RGB;
+}
+
+export function defaultDaylight(): DaylightSettings {
+  return { source: "clock", hour: 12, surface: "floor" };
+}
+
+/** Hour of the day at `date`, in the viewer's time zone. */
+export function hourOf(date: Date): number {
+  return date.getHours() + date.getMinutes() / 60 + date.getSeconds() / 3600;
+}
+
+const smoothstep = (from: number, to: number, x: number) => {
+  const t = Math.max(0, Math.min(1, (x - from) / (to - from)));
+  return t * t * (3 - 2 * t);
+};
+
+export function sunAt(hour: number): Sun {
+  const angle = (Math.PI * (hour - 6)) / 12;
+  const height = Math.sin(angle);
+  // Warm and dim near the horizon, white by mid-morning
+  const warmth = 1 - smoothstep(0.05, 0.6, height);
+  return {
+    elevation: Math.asin(height * Math.sin(MAX_ELEVATION)),
+    azimuth: Math.cos(angle) * MAX_AZIMUTH,
+    intensity: smoothstep(0, 0.25, height),
+    colour: [255, Math.round(244 - 94 * warmth), Math.round(230 - 150 * warmth)],
+  };
+}
+
+/* ── light on the window ─────────────────────────────────── */
+
+/**
+ * Where the sun's glare sits behind a `width` × `height` window: low
+ * and to the left in the morning, high at noon, to the right at dusk.
+ */
+export function glareAt(sun: Sun, width: number, height: number): Point & { radius: number } {
+  const across = Math.sin(sun.azimuth) / Math.sin(MAX_AZIMUTH);
+  const up = Math.max(0, Math.sin(sun.elevation) / Math.sin(MAX_ELEVATION));
+  return {
+    x: width * (0.5 - 0.45 * across),
+    y: height * (0.95 - 0.8 * up),
+    radius: 0.4 * Math.max(width, height),
+  };
+}
+
+/** How strongly the sun lights a pane at `p`, 0–1. */
+export function paneLight(p: Point, sun: Sun, width: number, height: number): number {
+  if (sun.intensity <= 0) return 0;
+  const glare = glareAt(sun, width, height);
+  const d2 = (p.x - glare.x) ** 2 + (p.y - glare.y) ** 2;
+  return sun.intensity * Math.exp(-d2 / (2 * glare.radius * glare.radius));
+}
+
+/* ── light in the room ───────────────────────────────────── */
+
+/**
+ * Where the light through point `p` of the window lands on `surface`,
+ * in a panel as wide as the window and `panelHeight` tall.
+ *
+ * The floor is seen in perspective, nearest the window at the top of
+ * the panel, with distances squashed so the whole room fits: a low sun
+ * throws long, converging streaks, a high one a short patch near the
+ * sill. On the wall the light keeps the window's shape and slides down
+ * and across as the sun climbs and moves.
+ */
+function castPoint(
+  p: Point,
+  sun: Sun,
+  surface: DaylightSurface,
+  width: number,
+  height: number,
+  panelHeight: number
+): Point {
+  const across = Math.sin(sun.azimuth);
+
+  if (surface === "floor") {
+    const elevation = Math.max(MIN_CAST_ELEVATION, sun.elevation);
+    const above = height - p.y + SILL * height; // above the floor
+    const depth = above / Math.tan(elevation);
+    const reach = depth / (depth + height);
+    const y = panelHeight * reach;
+    const perspective = 0.7 + (0.3 * y) / panelHeight;
+    return {
+      x: width / 2 + (p.x - width / 2) * perspective + across * 0.6 * height * reach,
+      y,
+    };
+  }
+
+  const scale = (WALL_SCALE * panelHeight) / height;
+  const drop = (panelHeight - scale * height) * Math.max(0, Math.sin(sun.elevation) / Math.sin(MAX_ELEVATION));
+  return {
+    x: width / 2 + (p.x - width / 2) * scale + across * 0.4 * width,
+    y: drop + p.y * scale,
+  };
+}
+
+/** The patch of light a pane casts on `surface`, or `null` if none. */
+export function castPolygon(
+  vertices: Point[],
+  sun: Sun,
+  surface: DaylightSurface,
+  width: number,
+  height: number,
+  panelHeight: number
+): Point[] | null {
+  if (sun.intensity <= 0) return null;
+  return vertices.map((v) => castPoint(v, sun, surface, width, height, panelHeight));
+}
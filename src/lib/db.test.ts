@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { useTempStorage } from "@/test/tempStorage";
+import { GET as listImages } from "@/app/api/images/route";
+import {
+  addImage,
+  deleteCellAnnotation,
+  getAnnotations,
+  getImageBySlug,
+  getVersionedAnnotations,
+  patchCellAnnotation,
+  purgeExpiredImages,
+  saveAnnotations,
+  setCellAnnotation,
+  updateImageStyle,
+  VersionConflictError,
+  type CellAnnotation,
+} from "./db";
+import { ValidationError } from "./schema";
+
+useTempStorage();
+
+const note = (title: string): CellAnnotation => ({ title, description: "", date: "2024-05-01" });
+
+describe("per-cell annotation writes", () => {
+  it("merges concurrent edits to different cells", async () => {
+    await Promise.all(Array.from({ length: 8 }, (_, i) => setCellAnnotation("merge", i, note(`cell ${i}`))));
+    const annotations = await getAnnotations("merge");
+    expect(Object.keys(annotations).map(Number).sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it("patches and deletes single cells", async () => {
+    await setCellAnnotation("patch", 1, { ...note("old"), description: "kept" });
+    expect(await patchCellAnnotation("patch", 1, { title: "new" })).toEqual({
+      ...note("new"),
+      description: "kept",
+    });
+    expect(await patchCellAnnotation("patch", 2, { title: "none" })).toBeUndefined();
+    await expect(patchCellAnnotation("patch", 1, { title: null })).rejects.toThrow(ValidationError);
+    expect((await getAnnotations("patch"))[1].title).toBe("new");
+    expect(await deleteCellAnnotation("patch", 1)).toBe(true);
+    expect(await deleteCellAnnotation("patch", 1)).toBe(false);
+  });
+});
+
+describe("saveAnnotations with If-Match", () => {
+  it("saves against the current version and rejects a stale one", async () => {
+    const v1 = await saveAnnotations("match", { 1: note("one") }, null);
+    const v2 = await saveAnnotations("match", { 1: note("two") }, v1);
+    await expect(saveAnnotations("match", { 1: note("stale") }, v1)).rejects.toThrow(VersionConflictError);
+    expect(await getVersionedAnnotations("match")).toEqual({ annotations: { 1: note("two") }, version: v2 });
+  });
+
+  it("treats a null base version as create-only", async () => {
+    await saveAnnotations("create", {}, null);
+    await expect(saveAnnotations("create", {}, null)).rejects.toThrow(VersionConflictError);
+  });
+
+  it("lets only one of two editors saving from the same version win", async () => {
+    const base = await saveAnnotations("race", {}, null);
+    const results = await Promise.allSettled([
+      saveAnnotations("race", { 1: note("a") }, base),
+      saveAnnotations("race", { 2: note("b") }, base),
+    ]);
+    expect(results.map((r) => r.status).sort()).toEqual(["fulfilled", "rejected"]);
+  });
+
+  it("overwrites unconditionally without a base version", async () => {
+    await saveAnnotations("overwrite", { 1: note("one") });
+    await saveAnnotations("overwrite", { 2: note("two") });
+    expect(await getAnnotations("overwrite")).toEqual({ 2: note("two") });
+  });
+});
+
+const image = (slug: string) => ({
+  id: slug,
+  slug,
+  originalName: `${slug}.png`,
+  fileName: `${slug}.png`,
+  blobUrl: `/uploads/images/${slug}.png`,
+  uploadedAt: new Date().toISOString(),
+});
+
+describe("image metadata writes", () => {
+  it("keeps concurrent updates to different images", async () => {
+    await Promise.all(["a", "b", "c"].map((slug) => addImage(image(slug))));
+    await Promise.all(["a", "b", "c"].map((slug) => updateImageStyle(slug, { palette: "photo" })));
+    for (const slug of ["a", "b", "c"]) {
+      expect((await getImageBySlug(slug))?.style).toEqual({ palette: "photo" });
+    }
+  });
+});
+
+describe("trash", () => {
+  it("purges expired images only when asked, never on a gallery listing", async () => {
+    await addImage({ ...image("expired"), trashedAt: new Date(0).toISOString() });
+    await addImage({ ...image("recent"), trashedAt: new Date().toISOString() });
+
+    expect(await (await listImages()).json()).not.toContainEqual(expect.objectContaining({ slug: "expired" }));
+    expect(await getImageBySlug("expired", { includeTrashed: true })).toBeDefined();
+
+    expect(await purgeExpiredImages()).toEqual(["expired"]);
+    expect(await getImageBySlug("expired", { includeTrashed: true })).toBeUndefined();
+    expect(await getImageBySlug("recent", { includeTrashed: true })).toBeDefined();
+  });
+});
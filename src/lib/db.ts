@@ -1,4 +1,22 @@
-import { put, del, list } from "@vercel/blob";
+import { v4 as uuidv4 } from "uuid";
+import { getStorage, VersionConflictError, StoredDocument } from "./storage";
+import type { TessellationSettings } from "./tessellation";
+import type { GlassStyle } from "./glassStyle";
+import {
+  parse,
+  assertValid,
+  cellAnnotationSchema,
+  imageListSchema,
+  storedAnnotationsMapSchema,
+  storedRevisionsSchema,
+  storedCellColoursSchema,
+  Patch,
+  Schema,
+  SchemaIssue,
+} from "./schema";
+import { addRevision, emptyHistory, historyFromSnapshots, replayHistory } from "./revisionHistory";
+
+export { VersionConflictError };
 
 export interface ImageRecord {
   id: string;
@@ -7,172 +25,662 @@ export interface ImageRecord {
   fileName: string;
   blobUrl: string;
   uploadedAt: string;
+  /** Set while the image sits in the trash; purged after the retention period. */
+  trashedAt?: string;
+  /** Earlier slugs, oldest first; requests for them redirect to `slug`. */
+  previousSlugs?: string[];
+  /** Layout of the pieces; `defaultTessellation` applies when unset. */
+  tessellation?: TessellationSettings;
+  /** How the pieces are coloured; `defaultGlassStyle` applies when unset. */
+  style?: GlassStyle;
+}
+
+/**
+ * An image record as stored. Records written before uploads kept their
+ * URL have no `blobUrl`; `withImageUrl` fills it in on the way out.
+ */
+export type StoredImageRecord = Omit<ImageRecord, "blobUrl"> & { blobUrl?: string };
+
+/**
+ * An image attached to a cell annotation, stored next to the source
+ * image rather than inline in the annotations document.
+ */
+export interface AnnotationAttachment {
+  url: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where an annotation is pinned, in normalized image coordinates
+ * (0–1 on both axes). Annotation keys outlive any one layout; the
+ * anchor decides which cell the annotation belongs to after the
+ * image is re-tessellated.
+ */
+export interface CellAnchor {
+  x: number;
+  y: number;
 }
 
 export interface CellAnnotation {
   title: string;
   description: string;
   date: string;
-  imageDataUrl?: string;
+  attachment?: AnnotationAttachment;
+  anchor?: CellAnchor;
 }
 
 export type AnnotationsMap = Record<number, CellAnnotation>;
 
-const METADATA_KEY = "metadata/images.json";
+/**
+ * Piece colours sampled from the image, kept so viewers can skip
+ * sampling. Only valid for the layout whose `layoutKey` is `layout`.
+ */
+export interface StoredCellColours {
+  layout: string;
+  /** `id, r, g, b` per piece – see `packColours`. */
+  colours: number[];
+}
+
+/**
+ * A snapshot of a slug's annotations taken after a save.
+ */
+export interface AnnotationRevision {
+  id: string;
+  createdAt: string;
+  author: string;
+  /** Cells whose annotation differs from the previous revision. */
+  changedCells: number[];
+  annotations: AnnotationsMap;
+}
+
+/** Each changed cell's new annotation, or `null` where it was removed. */
+export type RevisionChanges = Record<number, CellAnnotation | null>;
 
-function annotationsBlobKey(slug: string) {
+/**
+ * A revision as stored – just what it changed. The versions are unset
+ * on revisions recorded before they were tracked.
+ */
+export interface RevisionEntry {
+  id: string;
+  createdAt: string;
+  author: string;
+  /** Annotations version the save was made to; `null` if it created them. */
+  baseVersion?: string | null;
+  /** Annotations version the save produced. */
+  version?: string;
+  changes: RevisionChanges;
+}
+
+/** See `revisionHistory.ts`. */
+export interface RevisionHistory {
+  /** The annotations before the oldest kept revision. */
+  base: AnnotationsMap;
+  revisions: RevisionEntry[];
+}
+
+const METADATA_KEY = "images.json";
+
+function annotationsKey(slug: string) {
   return `annotations/${slug}.json`;
 }
 
-/* ── URL caching ─────────────────────────────────────────
- * Vercel Blob `list()` is an "advanced operation" that counts
- * towards billing limits. Since we use `addRandomSuffix: false`,
- * blob URLs are deterministic — once discovered via `list()` or
- * returned from `put()`, we cache them so subsequent reads are
- * plain HTTP GETs (zero advanced operations).
- * ──────────────────────────────────────────────────────── */
-let cachedMetadataUrl: string | null = null;
-const cachedAnnotationUrls: Record<string, string> = {};
+function revisionsKey(slug: string) {
+  return `revisions/${slug}.json`;
+}
+
+function coloursKey(slug: string) {
+  return `colours/${slug}.json`;
+}
+
+/**
+ * Thrown when a stored document fails schema validation, so callers can
+ * report the damage instead of rendering garbage.
+ */
+export class CorruptDocumentError extends Error {
+  constructor(public key: string, public issues: SchemaIssue[]) {
+    super(`Stored document "${key}" is invalid`);
+    this.name = "CorruptDocumentError";
+  }
+}
 
 /**
- * Fetch a blob URL with cache-busting to avoid stale CDN responses.
+ * Read a document through the storage driver and validate it.
  */
-async function fetchBlobFresh(url: string): Promise<Response> {
-  const u = new URL(url);
-  u.searchParams.set("_t", Date.now().toString());
-  return fetch(u.toString(), { cache: "no-store" });
+async function readDocument<T>(
+  key: string,
+  schema: Schema<T>
+): Promise<StoredDocument<T> | null> {
+  const stored = await getStorage().readDocument<unknown>(key);
+  if (!stored) return null;
+  const result = parse(schema, stored.data);
+  if (!result.ok) throw new CorruptDocumentError(key, result.issues);
+  return { data: result.value, version: stored.version };
+}
+
+const MAX_WRITE_ATTEMPTS = 10;
+
+/** Randomised backoff so retrying writers don't collide again in lockstep. */
+function backoff(attempt: number): Promise<void> {
+  const ms = Math.random() * 25 * attempt;
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 /**
- * Discover the metadata blob URL (one `list()` call, then cached).
+ * Read-modify-write a document with optimistic concurrency. `mutate`
+ * edits the document in place and returns whether anything changed;
+ * when another writer got in first it is re-run against fresh data.
+ * Resolves to the written document with the version it replaced and
+ * its new one, or `null` when nothing changed.
  */
-async function resolveMetadataUrl(): Promise<string | null> {
-  if (cachedMetadataUrl) return cachedMetadataUrl;
-  const { blobs } = await list({ prefix: METADATA_KEY, limit: 1 });
-  if (blobs.length === 0) return null;
-  cachedMetadataUrl = blobs[0].url;
-  return cachedMetadataUrl;
+async function updateDocument<T>(
+  key: string,
+  schema: Schema<T>,
+  empty: () => T,
+  mutate: (doc: T) => boolean
+): Promise<{ data: T; baseVersion: string | null; version: string } | null> {
+  for (let attempt = 1; ; attempt++) {
+    const stored = await readDocument(key, schema);
+    const doc = stored?.data ?? empty();
+    if (!mutate(doc)) return null;
+    // Never persist a document we would refuse to read back
+    assertValid(schema, doc);
+    const baseVersion = stored?.version ?? null;
+    try {
+      const version = await getStorage().writeDocument(key, doc, { ifVersion: baseVersion });
+      return { data: doc, baseVersion, version };
+    } catch (err) {
+      if (!(err instanceof VersionConflictError) || attempt >= MAX_WRITE_ATTEMPTS) {
+        throw err;
+      }
+      await backoff(attempt);
+    }
+  }
 }
 
 /**
- * Read the images list from the metadata blob.
+ * Read the images list from the metadata document.
  */
 export async function getImages(): Promise<ImageRecord[]> {
-  const url = await resolveMetadataUrl();
-  if (!url) return [];
-  const res = await fetchBlobFresh(url);
-  if (!res.ok) return [];
-  return await res.json();
+  const stored = await readDocument(METADATA_KEY, imageListSchema);
+  return (stored?.data ?? []).map(withImageUrl);
 }
 
 /**
- * Persist the full images list back to the metadata blob.
+ * The record with its file URL, derived for records stored without
+ * one from where the upload route puts files (`images/<fileName>`).
  */
-async function saveImages(images: ImageRecord[]): Promise<void> {
-  const blob = await put(METADATA_KEY, JSON.stringify(images, null, 2), {
-    access: "public",
-    addRandomSuffix: false,
-    allowOverwrite: true,
-    contentType: "application/json",
-  });
-  // Cache the URL from the put response — zero future list() calls
-  cachedMetadataUrl = blob.url;
+function withImageUrl(image: StoredImageRecord): ImageRecord {
+  if (image.blobUrl) return image as ImageRecord;
+  return { ...image, blobUrl: getStorage().fileUrl(`images/${image.fileName}`) ?? "" };
+}
+
+/**
+ * Apply a change to the images list, retrying on concurrent writes.
+ */
+async function updateImages(mutate: (images: StoredImageRecord[]) => boolean) {
+  await updateDocument(METADATA_KEY, imageListSchema, () => [], mutate);
 }
 
+/**
+ * Move a raw document to a new key (used when a slug changes).
+ */
+async function moveDocument(fromKey: string, toKey: string): Promise<void> {
+  const storage = getStorage();
+  const stored = await storage.readDocument<unknown>(fromKey);
+  if (!stored) return;
+  await storage.writeDocument(toKey, stored.data);
+  await storage.deleteDocument(fromKey).catch(() => {});
+}
+
+/**
+ * Find an image by slug. Trashed images are hidden unless
+ * `includeTrashed` is set.
+ */
 export async function getImageBySlug(
+  slug: string,
+  { includeTrashed = false }: { includeTrashed?: boolean } = {}
+): Promise<ImageRecord | undefined> {
+  const images = await getImages();
+  return images.find((img) => img.slug === slug && (includeTrashed || !img.trashedAt));
+}
+
+/**
+ * Find the image that used to be published under `slug`.
+ */
+export async function getImageByAlias(
   slug: string
 ): Promise<ImageRecord | undefined> {
   const images = await getImages();
-  return images.find((img) => img.slug === slug);
+  return images.find((img) => img.previousSlugs?.includes(slug));
 }
 
 export async function addImage(image: ImageRecord): Promise<void> {
-  const images = await getImages();
-  images.push(image);
-  await saveImages(images);
+  await updateImages((images) => {
+    images.push(image);
+    return true;
+  });
 }
 
+export type RenameResult = "renamed" | "not_found" | "taken";
+
+/**
+ * Rename an image. The old slug is kept as an alias so existing links
+ * keep working; a slug that is any other image's current slug or alias
+ * is refused.
+ */
 export async function updateImageSlug(
   oldSlug: string,
   newSlug: string
-): Promise<boolean> {
-  const images = await getImages();
-  const img = images.find((i) => i.slug === oldSlug);
-  if (!img) return false;
-  if (images.some((i) => i.slug === newSlug && i.id !== img.id)) return false;
-  img.slug = newSlug;
-  await saveImages(images);
+): Promise<RenameResult> {
+  let result = "not_found" as RenameResult;
+  await updateImages((images) => {
+    const img = images.find((i) => i.slug === oldSlug);
+    if (!img) {
+      result = "not_found";
+      return false;
+    }
+    const taken = images.some(
+      (i) => i.id !== img.id && (i.slug === newSlug || i.previousSlugs?.includes(newSlug))
+    );
+    if (taken) {
+      result = "taken";
+      return false;
+    }
+    result = "renamed";
+    if (newSlug === oldSlug) return false;
+    // Renaming back to one of its own aliases reclaims it
+    const aliases = (img.previousSlugs ?? []).filter((s) => s !== newSlug && s !== oldSlug);
+    img.previousSlugs = [...aliases, oldSlug];
+    img.slug = newSlug;
+    return true;
+  });
+  if (result !== "renamed" || newSlug === oldSlug) return result;
 
-  // Migrate annotations blob to new slug key
+  // Migrate annotations and their history to the new slug key
   try {
-    const oldAnnotations = await getAnnotations(oldSlug);
-    if (Object.keys(oldAnnotations).length > 0) {
-      await saveAnnotations(newSlug, oldAnnotations);
-      // Clean up cached URL for old slug
-      delete cachedAnnotationUrls[oldSlug];
-      await del(annotationsBlobKey(oldSlug)).catch(() => {});
-    }
+    await moveDocument(annotationsKey(oldSlug), annotationsKey(newSlug));
+    await moveDocument(revisionsKey(oldSlug), revisionsKey(newSlug));
+    await moveDocument(coloursKey(oldSlug), coloursKey(newSlug));
   } catch {
     // annotations migration is best-effort
   }
 
-  return true;
+  return result;
 }
 
-export async function deleteImage(slug: string): Promise<boolean> {
-  const images = await getImages();
-  const idx = images.findIndex((img) => img.slug === slug);
-  if (idx === -1) return false;
-  const [removed] = images.splice(idx, 1);
-  // Delete the image blob
+/**
+ * Save an image's tessellation settings. Returns the updated record,
+ * or `null` when no image has this slug.
+ */
+export async function updateImageTessellation(
+  slug: string,
+  tessellation: TessellationSettings
+): Promise<ImageRecord | null> {
+  let updated: StoredImageRecord | null = null;
+  await updateImages((images) => {
+    const img = images.find((i) => i.slug === slug && !i.trashedAt);
+    if (!img) return false;
+    img.tessellation = tessellation;
+    updated = img;
+    return true;
+  });
+  return updated && withImageUrl(updated);
+}
+
+/**
+ * Save an image's glass style. Returns the updated record, or `null`
+ * when no image has this slug.
+ */
+export async function updateImageStyle(
+  slug: string,
+  style: GlassStyle
+): Promise<ImageRecord | null> {
+  let updated: StoredImageRecord | null = null;
+  await updateImages((images) => {
+    const img = images.find((i) => i.slug === slug && !i.trashedAt);
+    if (!img) return false;
+    img.style = style;
+    updated = img;
+    return true;
+  });
+  return updated && withImageUrl(updated);
+}
+
+/* ── sampled colours ─────────────────────────────────────── */
+
+export async function getCellColours(slug: string): Promise<StoredCellColours | null> {
+  const stored = await readDocument(coloursKey(slug), storedCellColoursSchema);
+  return stored?.data ?? null;
+}
+
+/**
+ * Replace a slug's stored colours. Any two writers for the same layout
+ * store the same colours, so the last write simply wins.
+ */
+export async function saveCellColours(slug: string, colours: StoredCellColours): Promise<void> {
+  await getStorage().writeDocument(coloursKey(slug), colours);
+}
+
+/* ── trash ────────────────────────────────────────────────
+ * Deleting an image only marks it `trashedAt`. It can be
+ * restored until the retention period (TRASH_RETENTION_DAYS,
+ * default 30) runs out, after which the next scheduled purge
+ * (`purgeExpiredImages`) deletes it for good.
+ * ──────────────────────────────────────────────────────── */
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export function trashRetentionMs(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  const valid = Number.isFinite(days) && days >= 0;
+  return (valid ? days : DEFAULT_TRASH_RETENTION_DAYS) * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * When a trashed image becomes eligible for automatic purge.
+ */
+export function purgeDate(image: ImageRecord): Date | null {
+  if (!image.trashedAt) return null;
+  return new Date(Date.parse(image.trashedAt) + trashRetentionMs());
+}
+
+/**
+ * Move an image to the trash. Returns false when there is no such
+ * (untrashed) image.
+ */
+export async function trashImage(slug: string): Promise<boolean> {
+  let trashed = false;
+  await updateImages((images) => {
+    const img = images.find((i) => i.slug === slug && !i.trashedAt);
+    trashed = !!img;
+    if (img) img.trashedAt = new Date().toISOString();
+    return trashed;
+  });
+  return trashed;
+}
+
+export async function restoreImage(slug: string): Promise<boolean> {
+  let restored = false;
+  await updateImages((images) => {
+    const img = images.find((i) => i.slug === slug && i.trashedAt);
+    restored = !!img;
+    if (img) delete img.trashedAt;
+    return restored;
+  });
+  return restored;
+}
+
+/**
+ * Permanently delete a trashed image with its file, annotations,
+ * attachments and history.
+ */
+export async function purgeImage(slug: string): Promise<boolean> {
+  let removed: StoredImageRecord | undefined;
+  await updateImages((images) => {
+    const idx = images.findIndex((img) => img.slug === slug && img.trashedAt);
+    if (idx === -1) return false;
+    [removed] = images.splice(idx, 1);
+    return true;
+  });
+  if (!removed) return false;
+  // Delete the image file
   try {
-    await del(removed.blobUrl);
+    const { blobUrl } = withImageUrl(removed);
+    if (blobUrl) await getStorage().deleteFile(blobUrl);
   } catch {
-    // blob may already be gone
+    // file may already be gone
   }
-  // Delete annotations blob
+  // Delete annotation attachments (current and historical), then the
+  // annotations and revisions documents
   try {
-    delete cachedAnnotationUrls[slug];
-    await del(annotationsBlobKey(slug));
+    const snapshots = [await getAnnotations(slug)];
+    for (const revision of await getRevisions(slug)) snapshots.push(revision.annotations);
+    await deleteAttachments(snapshots.flatMap((a) => Object.values(a)));
+    await getStorage().deleteDocument(annotationsKey(slug));
+    await getStorage().deleteDocument(revisionsKey(slug));
   } catch {
-    // annotations blob may not exist
+    // annotations document may not exist
   }
-  await saveImages(images);
+  await getStorage().deleteDocument(coloursKey(slug)).catch(() => {});
   return true;
 }
 
+/**
+ * Purge every trashed image past its retention period. Returns the
+ * purged slugs.
+ */
+export async function purgeExpiredImages(now = new Date()): Promise<string[]> {
+  const expired = (await getImages()).filter((img) => {
+    const at = purgeDate(img);
+    return at !== null && at <= now;
+  });
+  const purged: string[] = [];
+  for (const img of expired) {
+    if (await purgeImage(img.slug)) purged.push(img.slug);
+  }
+  return purged;
+}
+
 /* ── annotation persistence ─────────────────────────────── */
 
 /**
- * Discover an annotation blob URL (one `list()` call, then cached).
+ * Best-effort removal of the attachment files referenced by `annotations`.
+ * Individual cell edits never call this – old revisions may still point
+ * at the files – so attachments are only removed with their image.
  */
-async function resolveAnnotationUrl(slug: string): Promise<string | null> {
-  if (cachedAnnotationUrls[slug]) return cachedAnnotationUrls[slug];
-  const key = annotationsBlobKey(slug);
-  const { blobs } = await list({ prefix: key, limit: 1 });
-  if (blobs.length === 0) return null;
-  cachedAnnotationUrls[slug] = blobs[0].url;
-  return cachedAnnotationUrls[slug];
+async function deleteAttachments(annotations: CellAnnotation[]): Promise<void> {
+  const urls = new Set(annotations.flatMap((a) => (a.attachment ? [a.attachment.url] : [])));
+  await Promise.all(
+    Array.from(urls).map((url) => getStorage().deleteFile(url).catch(() => {}))
+  );
+}
+
+export interface VersionedAnnotations {
+  annotations: AnnotationsMap;
+  /** `null` until the first save. */
+  version: string | null;
 }
 
 export async function getAnnotations(slug: string): Promise<AnnotationsMap> {
-  const url = await resolveAnnotationUrl(slug);
-  if (!url) return {};
-  const res = await fetchBlobFresh(url);
-  if (!res.ok) return {};
-  return await res.json();
+  return (await getVersionedAnnotations(slug)).annotations;
 }
 
+export async function getVersionedAnnotations(
+  slug: string
+): Promise<VersionedAnnotations> {
+  const stored = await readDocument(annotationsKey(slug), storedAnnotationsMapSchema);
+  return { annotations: stored?.data ?? {}, version: stored?.version ?? null };
+}
+
+/**
+ * Overwrite a slug's annotations and return the new version. When
+ * `baseVersion` is given (`null` = "not created yet") the write only
+ * succeeds if nobody else saved in between, otherwise it throws
+ * `VersionConflictError`.
+ */
 export async function saveAnnotations(
   slug: string,
-  data: AnnotationsMap
+  data: AnnotationsMap,
+  baseVersion?: string | null,
+  author?: string
+): Promise<string> {
+  if (baseVersion === undefined) {
+    const version = await updateAnnotations(
+      slug,
+      (annotations) => {
+        for (const id of Object.keys(annotations)) delete annotations[Number(id)];
+        Object.assign(annotations, data);
+        return true;
+      },
+      author
+    );
+    // Never null: the mutation above always writes
+    return version as string;
+  }
+
+  // Read first so the revision can be diffed against what this save replaces
+  const key = annotationsKey(slug);
+  const current = await readDocument(key, storedAnnotationsMapSchema);
+  if ((current?.version ?? null) !== baseVersion) throw new VersionConflictError(key);
+  const version = await getStorage().writeDocument(key, data, { ifVersion: baseVersion });
+  await recordRevision(slug, current?.data ?? {}, data, { baseVersion, version }, author);
+  return version;
+}
+
+/**
+ * Apply a change to a slug's annotations, retrying on concurrent writes.
+ * Every change that is written is recorded as a revision. Resolves to
+ * the new version, or `null` when `mutate` changed nothing.
+ */
+export async function updateAnnotations(
+  slug: string,
+  mutate: (annotations: AnnotationsMap) => boolean,
+  author?: string
+): Promise<string | null> {
+  let before: AnnotationsMap = {};
+  const written = await updateDocument(
+    annotationsKey(slug),
+    storedAnnotationsMapSchema,
+    () => ({}),
+    (annotations) => {
+      before = structuredClone(annotations);
+      return mutate(annotations);
+    }
+  );
+  if (!written) return null;
+  const { data, baseVersion, version } = written;
+  await recordRevision(slug, before, data, { baseVersion, version }, author);
+  return version;
+}
+
+/* ── revision history ──────────────────────────────────────
+ * Each slug has one history document holding per-cell changes,
+ * chained by annotations version and capped at MAX_REVISIONS;
+ * see revisionHistory.ts. Reads replay it into full snapshots.
+ * ──────────────────────────────────────────────────────── */
+
+/** The stored history, converting the old list of full snapshots. */
+const revisionHistorySchema: Schema<RevisionHistory> = (input, path, issues) => {
+  const stored = storedRevisionsSchema(input, path, issues);
+  if (!Array.isArray(stored)) return stored;
+  return issues.length > 0 ? emptyHistory() : historyFromSnapshots(stored);
+};
+
+export async function getRevisions(slug: string): Promise<AnnotationRevision[]> {
+  const stored = await readDocument(revisionsKey(slug), revisionHistorySchema);
+  return stored ? replayHistory(stored.data) : [];
+}
+
+export async function getRevision(
+  slug: string,
+  revisionId: string
+): Promise<AnnotationRevision | undefined> {
+  const revisions = await getRevisions(slug);
+  return revisions.find((r) => r.id === revisionId);
+}
+
+/**
+ * Record a save of `after` over `before`. The save has already
+ * happened, so a failure here is logged rather than failing it.
+ */
+async function recordRevision(
+  slug: string,
+  before: AnnotationsMap,
+  after: AnnotationsMap,
+  versions: { baseVersion: string | null; version: string },
+  author = "anonymous"
 ): Promise<void> {
-  const blob = await put(annotationsBlobKey(slug), JSON.stringify(data), {
-    access: "public",
-    addRandomSuffix: false,
-    allowOverwrite: true,
-    contentType: "application/json",
-  });
-  // Cache the URL from the put response
-  cachedAnnotationUrls[slug] = blob.url;
+  try {
+    await updateDocument(revisionsKey(slug), revisionHistorySchema, emptyHistory, (history) =>
+      addRevision(
+        history,
+        { id: uuidv4(), createdAt: new Date().toISOString(), author, ...versions },
+        before,
+        after
+      )
+    );
+  } catch (err) {
+    console.error(`Revision of ${slug} not recorded:`, err instanceof Error ? err.message : err);
+  }
+}
+
+/* ── per-cell annotation access ────────────────────────────
+ * Each helper rewrites only its own cell inside the slug's
+ * annotations document, so edits to different cells merge
+ * instead of overwriting each other.
+ * ──────────────────────────────────────────────────────── */
+
+export async function getCellAnnotation(
+  slug: string,
+  cellId: number
+): Promise<CellAnnotation | undefined> {
+  const annotations = await getAnnotations(slug);
+  return annotations[cellId];
+}
+
+export async function setCellAnnotation(
+  slug: string,
+  cellId: number,
+  data: CellAnnotation,
+  author?: string
+): Promise<void> {
+  await updateAnnotations(
+    slug,
+    (annotations) => {
+      annotations[cellId] = data;
+      return true;
+    },
+    author
+  );
+}
+
+/**
+ * Merge `patch` into an existing cell annotation. Returns the updated
+ * annotation, or `undefined` when the cell has none.
+ */
+export async function patchCellAnnotation(
+  slug: string,
+  cellId: number,
+  patch: Patch<CellAnnotation>,
+  author?: string
+): Promise<CellAnnotation | undefined> {
+  let updated: CellAnnotation | undefined;
+  await updateAnnotations(
+    slug,
+    (annotations) => {
+      const previous = annotations[cellId];
+      if (!previous) return false;
+      // `null` in a patch clears the field
+      const merged: Record<string, unknown> = { ...previous };
+      for (const [field, value] of Object.entries(patch)) {
+        if (value === null) delete merged[field];
+        else merged[field] = value;
+      }
+      updated = assertValid(cellAnnotationSchema, merged);
+      annotations[cellId] = updated;
+      return true;
+    },
+    author
+  );
+  return updated;
+}
+
+export async function deleteCellAnnotation(
+  slug: string,
+  cellId: number,
+  author?: string
+): Promise<boolean> {
+  let deleted = false;
+  await updateAnnotations(
+    slug,
+    (annotations) => {
+      deleted = cellId in annotations;
+      delete annotations[cellId];
+      return deleted;
+    },
+    author
+  );
+  return deleted;
 }
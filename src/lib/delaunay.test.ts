@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import {
+  cellGraph,
+  CellGraph,
+  colourGraph,
+  createCellIndex,
+  floodFill,
+  generateVoronoiCells,
+  neighbourToward,
+  pointInPolygon,
+  Point,
+  VoronoiCell,
+} from "./delaunay";
+import { outlinePolygon } from "./outlines";
+import { tessellate } from "./tessellation";
+
+/** `cols` × `rows` unit squares, ids row by row. */
+function grid(cols: number, rows: number): VoronoiCell[] {
+  const cells: VoronoiCell[] = [];
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      cells.push({
+        id: y * cols + x,
+        seed: { x: x + 0.5, y: y + 0.5 },
+        vertices: [
+          { x, y },
+          { x: x + 1, y },
+          { x: x + 1, y: y + 1 },
+          { x, y: y + 1 },
+        ],
+      });
+    }
+  }
+  return cells;
+}
+
+const length = ({ from, to }: { from: Point; to: Point }) => Math.hypot(to.x - from.x, to.y - from.y);
+
+function distanceToOutline(p: Point, outline: Point[]): number {
+  let best = Infinity;
+  for (let i = 0; i < outline.length; i++) {
+    const a = outline[i], b = outline[(i + 1) % outline.length];
+    const dx = b.x - a.x, dy = b.y - a.y;
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / (dx * dx + dy * dy || 1)));
+    best = Math.min(best, Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy));
+  }
+  return best;
+}
+
+/** A graph straight from an adjacency list. */
+function graphOf(neighbours: Record<number, number[]>): CellGraph {
+  return { neighbours: new Map(Object.entries(neighbours).map(([id, n]) => [Number(id), n])), edges: [] };
+}
+
+function expectProper(graph: CellGraph, colours: Map<number, number>) {
+  graph.neighbours.forEach((neighbours, id) => {
+    for (const n of neighbours) expect(colours.get(n)).not.toBe(colours.get(id));
+  });
+}
+
+describe("cellGraph", () => {
+  it("links cells sharing an edge, not just a corner", () => {
+    const graph = cellGraph(grid(2, 2));
+    expect(graph.neighbours.get(0)?.sort()).toEqual([1, 2]);
+    expect(graph.neighbours.get(3)?.sort()).toEqual([1, 2]);
+  });
+
+  it("lists each shared edge once and every border edge", () => {
+    const { edges } = cellGraph(grid(2, 2));
+    expect(edges.filter((e) => e.b !== null)).toHaveLength(4);
+    expect(edges.filter((e) => e.b === null)).toHaveLength(8);
+  });
+
+  it("links a cell to neighbours that split its edge at a vertex it lacks", () => {
+    const rect = (id: number, x0: number, y0: number, x1: number, y1: number): VoronoiCell => ({
+      id,
+      seed: { x: (x0 + x1) / 2, y: (y0 + y1) / 2 },
+      vertices: [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }],
+    });
+    const { neighbours, edges } = cellGraph([rect(0, 0, 0, 2, 1), rect(1, 0, 1, 1, 2), rect(2, 1, 1, 2, 2)]);
+    expect(neighbours.get(0)?.sort()).toEqual([1, 2]);
+    expect(neighbours.get(1)?.sort()).toEqual([0, 2]);
+
+    const shared = edges.filter((e) => e.b !== null).map((e) => [e.a, e.b, length(e)]);
+    expect(shared).toEqual(expect.arrayContaining([[0, 1, 1], [0, 2, 1], [1, 2, 1]]));
+    expect(shared).toHaveLength(3);
+    expect(edges.filter((e) => e.b === null).reduce((sum, e) => sum + length(e), 0)).toBeCloseTo(8);
+  });
+
+  it("links cells whose shared corners differ by rounding", () => {
+    const [left, right] = grid(2, 1);
+    // Either side of where three-decimal keys would round apart
+    left.vertices[1] = { x: 1.0005 + 1e-9, y: 0 };
+    right.vertices[0] = { x: 1.0005 - 1e-9, y: 0 };
+    expect(cellGraph([left, right]).neighbours.get(0)).toEqual([1]);
+  });
+
+  it("links every piece of a layout clipped to an outline", () => {
+    const cells = tessellate(
+      { algorithm: "poisson-disk", cellCount: 150, seed: "clipped", jitter: 0.5, outline: { shape: "arch" } },
+      640,
+      480
+    );
+    const outline = outlinePolygon({ shape: "arch" }, 640, 480)!;
+    const { neighbours, edges } = cellGraph(cells);
+    for (const cell of cells) expect(neighbours.get(cell.id)!.length).toBeGreaterThan(0);
+    // Only the outline is left unshared
+    for (const edge of edges.filter((e) => e.b === null)) {
+      const mid = { x: (edge.from.x + edge.to.x) / 2, y: (edge.from.y + edge.to.y) / 2 };
+      expect(distanceToOutline(mid, outline)).toBeLessThan(1e-6);
+    }
+  });
+});
+
+describe("floodFill and neighbourToward", () => {
+  const cells = grid(3, 3);
+  const graph = cellGraph(cells);
+
+  it("spreads only through accepted cells", () => {
+    const region = floodFill(graph, 0, (id) => id !== 4 && id % 3 !== 2);
+    expect(Array.from(region).sort()).toEqual([0, 1, 3, 6, 7]);
+  });
+
+  it("steps to the neighbour in the arrow's direction", () => {
+    expect(neighbourToward(graph, cells, 4, 1, 0)).toBe(5);
+    expect(neighbourToward(graph, cells, 4, 0, -1)).toBe(1);
+    expect(neighbourToward(graph, cells, 2, 1, 0)).toBeNull();
+  });
+});
+
+describe("colourGraph", () => {
+  it("never gives neighbours the same colour", () => {
+    const graph = cellGraph(generateVoronoiCells(800, 600, 300));
+    const colours = colourGraph(graph);
+    expect(colours.size).toBe(graph.neighbours.size);
+    expectProper(graph, colours);
+    expect(Math.max(...Array.from(colours.values()))).toBeLessThan(5);
+  });
+
+  it("colours the largest layouts", () => {
+    const graph = cellGraph(generateVoronoiCells(4000, 3000, 5000));
+    const colours = colourGraph(graph);
+    expect(colours.size).toBe(5000);
+    expectProper(graph, colours);
+  });
+
+  it("colours small graphs with their chromatic number", () => {
+    const oddCycle = graphOf({ 0: [1, 4], 1: [0, 2], 2: [1, 3], 3: [2, 4], 4: [3, 0] });
+    expect(new Set(colourGraph(oddCycle).values()).size).toBe(3);
+    const wheel = graphOf({ 0: [1, 2, 3, 4], 1: [0, 2, 4], 2: [0, 1, 3], 3: [0, 2, 4], 4: [0, 3, 1] });
+    expect(new Set(colourGraph(wheel).values()).size).toBe(3);
+    expectProper(wheel, colourGraph(wheel));
+  });
+
+  it("colours a checkerboard with two colours", () => {
+    expect(new Set(colourGraph(cellGraph(grid(6, 5))).values()).size).toBe(2);
+  });
+});
+
+describe("createCellIndex", () => {
+  it("finds the same cell as testing every polygon", () => {
+    const cells = generateVoronoiCells(800, 600, 250);
+    const index = createCellIndex(cells);
+    for (let y = 3; y < 600; y += 37) {
+      for (let x = 5; x < 800; x += 41) {
+        const scanned = cells.find((c) => pointInPolygon(x, y, c.vertices))?.id ?? null;
+        expect(index.cellAt(x, y)).toBe(scanned);
+      }
+    }
+  });
+
+  it("finds nothing outside the cells", () => {
+    const index = createCellIndex(grid(3, 2));
+    expect(index.cellAt(-1, 1)).toBeNull();
+    expect(index.cellAt(1.5, 2.5)).toBeNull();
+    expect(createCellIndex([]).cellAt(0, 0)).toBeNull();
+  });
+
+  it("keeps each cell's bounding box", () => {
+    const index = createCellIndex(grid(3, 2));
+    expect(index.boundsOf(4)).toEqual({ minX: 1, minY: 1, maxX: 2, maxY: 2 });
+    expect(index.boundsOf(99)).toBeUndefined();
+  });
+});
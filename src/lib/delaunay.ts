@@ -15,6 +15,8 @@ export interface VoronoiCell {
   id: number;
   seed: Point;
   vertices: Point[];
+  /** Glass colour sampled from the photo, once known (see `cellColours`). */
+  colour?: [number, number, number];
 }
 
 /* ── helpers ─────────────────────────────────────────────── */
@@ -48,7 +50,7 @@ function prevHalfedge(e: number): number {
 
 /* ── Sutherland-Hodgman polygon clipping ─────────────────── */
 
-function clipPolygon(
+export function clipPolygon(
   polygon: Point[],
   width: number,
   height: number
@@ -109,6 +111,36 @@ function clipPolygon(
   return output;
 }
 
+/* ── point-in-polygon (even-odd rule) ────────────────────── */
+
+export function pointInPolygon(x: number, y: number, vertices: Point[]): boolean {
+  let inside = false;
+  const n = vertices.length;
+  for (let i = 0, j = n - 1; i < n; j = i++) {
+    const xi = vertices[i].x,
+      yi = vertices[i].y;
+    const xj = vertices[j].x,
+      yj = vertices[j].y;
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Copy of `cells` scaled by `sx` / `sy` – used to map a layout onto
+ * the canvas it is drawn on.
+ */
+export function scaleCells(cells: VoronoiCell[], sx: number, sy: number): VoronoiCell[] {
+  const scale = (p: Point): Point => ({ x: p.x * sx, y: p.y * sy });
+  return cells.map((cell) => ({
+    ...cell,
+    seed: scale(cell.seed),
+    vertices: cell.vertices.map(scale),
+  }));
+}
+
 /* ── seeded PRNG (mulberry32) ─────────────────────────────── */
 
 function hashString(str: string): number {
@@ -129,6 +161,14 @@ function mulberry32(seed: number): () => number {
   };
 }
 
+/**
+ * PRNG for a seed string – deterministic when `seed` is given,
+ * `Math.random` otherwise.
+ */
+export function createRandom(seed?: string): () => number {
+  return seed !== undefined ? mulberry32(hashString(seed)) : Math.random;
+}
+
 /* ── main API ────────────────────────────────────────────── */
 
 /**
@@ -136,44 +176,33 @@ function mulberry32(seed: number): () => number {
  * Each cell is an irregular polygon – perfect for a stained-glass look.
  *
  * When `seed` is provided the layout is deterministic – the same seed
- * always produces the same tessellation.
+ * always produces the same tessellation. `jitter` (0–1) is how far each
+ * seed may stray from the centre of its grid slot.
  */
 export function generateVoronoiCells(
   width: number,
   height: number,
   numCells: number = 120,
-  seed?: string
+  seed?: string,
+  jitter: number = 0.7
 ): VoronoiCell[] {
-  const rand = seed !== undefined
-    ? mulberry32(hashString(seed))
-    : Math.random;
-
-  /* 1. Jittered-grid seed points -------------------------------- */
-  const seeds: Point[] = [];
-  const aspect = width / height;
-  const cols = Math.round(Math.sqrt(numCells * aspect));
-  const rows = Math.round(numCells / cols);
-  const cellW = width / cols;
-  const cellH = height / rows;
+  const seeds = jitteredGridSeeds(width, height, numCells, createRandom(seed), jitter);
+  return voronoiFromSeeds(seeds, width, height);
+}
 
-  for (let r = 0; r < rows; r++) {
-    for (let c = 0; c < cols; c++) {
-      if (seeds.length >= numCells) break;
-      seeds.push({
-        x: Math.max(1, Math.min(width - 1, (c + 0.5) * cellW + (rand() - 0.5) * cellW * 0.7)),
-        y: Math.max(1, Math.min(height - 1, (r + 0.5) * cellH + (rand() - 0.5) * cellH * 0.7)),
-      });
-    }
-  }
-  while (seeds.length < numCells) {
-    seeds.push({
-      x: rand() * (width - 2) + 1,
-      y: rand() * (height - 2) + 1,
-    });
-  }
-  seeds.length = numCells;
+/**
+ * Build the Voronoi cells of `seeds`, clipped to the rectangle. Cell
+ * ids are indices into `seeds`; seeds outside the rectangle or on top
+ * of another seed produce no cell.
+ */
+export function voronoiFromSeeds(
+  seeds: Point[],
+  width: number,
+  height: number
+): VoronoiCell[] {
+  const numCells = seeds.length;
 
-  /* 2. Padding points (ensure all real points are interior) ----- */
+  /* 1. Padding points (ensure all real points are interior) ----- */
   const pad = Math.max(width, height) * 3;
   const padding: Point[] = [
     { x: -pad, y: -pad },
@@ -194,11 +223,11 @@ export function generateVoronoiCells(
     coords[2 * i + 1] = allPoints[i].y;
   }
 
-  /* 3. Delaunay triangulation ----------------------------------- */
+  /* 2. Delaunay triangulation ----------------------------------- */
   const del = new Delaunator(coords);
   const { triangles, halfedges } = del;
 
-  /* 4. Circumcenters (= Voronoi vertices) ----------------------- */
+  /* 3. Circumcenters (= Voronoi vertices) ----------------------- */
   const triCount = triangles.length / 3;
   const cc: Point[] = new Array(triCount);
   for (let t = 0; t < triCount; t++) {
@@ -212,7 +241,7 @@ export function generateVoronoiCells(
     );
   }
 
-  /* 5. Point → any incident halfedge map ------------------------ */
+  /* 4. Point → any incident halfedge map ------------------------ */
   const pointEdge = new Int32Array(n).fill(-1);
   for (let e = 0; e < triangles.length; e++) {
     const p = triangles[e];
@@ -222,7 +251,7 @@ export function generateVoronoiCells(
     }
   }
 
-  /* 6. Walk around each seed to collect Voronoi cell vertices --- */
+  /* 5. Walk around each seed to collect Voronoi cell vertices --- */
   const cells: VoronoiCell[] = [];
 
   for (let i = 0; i < numCells; i++) {
@@ -250,3 +279,720 @@ export function generateVoronoiCells(
 
   return cells;
 }
+
+/* ── seeding strategies ──────────────────────────────────── */
+
+/**
+ * One seed per slot of a grid shaped to the rectangle's aspect ratio,
+ * offset by up to `jitter` of a slot in each direction.
+ */
+export function jitteredGridSeeds(
+  width: number,
+  height: number,
+  numCells: number,
+  rand: () => number,
+  jitter: number = 0.7
+): Point[] {
+  const seeds: Point[] = [];
+  const aspect = width / height;
+  const cols = Math.round(Math.sqrt(numCells * aspect));
+  const rows = Math.round(numCells / cols);
+  const cellW = width / cols;
+  const cellH = height / rows;
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (seeds.length >= numCells) break;
+      seeds.push({
+        x: Math.max(1, Math.min(width - 1, (c + 0.5) * cellW + (rand() - 0.5) * cellW * jitter)),
+        y: Math.max(1, Math.min(height - 1, (r + 0.5) * cellH + (rand() - 0.5) * cellH * jitter)),
+      });
+    }
+  }
+  while (seeds.length < numCells) {
+    seeds.push({
+      x: rand() * (width - 2) + 1,
+      y: rand() * (height - 2) + 1,
+    });
+  }
+  seeds.length = numCells;
+  return seeds;
+}
+
+/**
+ * Poisson-disk seeds by dart throwing: random candidates are kept only
+ * if no kept seed lies within the minimum distance. No grid pattern and
+ * no near-coincident seeds, so no slivers. Tops up with plain random
+ * seeds if the attempts run out first.
+ */
+export function poissonDiskSeeds(
+  width: number,
+  height: number,
+  numCells: number,
+  rand: () => number
+): Point[] {
+  // Random packing saturates around 0.7·area/r², comfortably above numCells
+  const radius = 0.7 * Math.sqrt((width * height) / numCells);
+  const size = radius / Math.SQRT2; // at most one seed per bucket
+  const cols = Math.ceil(width / size);
+  const rows = Math.ceil(height / size);
+  const grid = new Int32Array(cols * rows).fill(-1);
+  const seeds: Point[] = [];
+
+  const candidate = (): Point => ({
+    x: rand() * (width - 2) + 1,
+    y: rand() * (height - 2) + 1,
+  });
+
+  const maxAttempts = numCells * 30;
+  for (let attempt = 0; attempt < maxAttempts && seeds.length < numCells; attempt++) {
+    const p = candidate();
+    const gx = Math.floor(p.x / size);
+    const gy = Math.floor(p.y / size);
+    let clear = true;
+    for (let y = Math.max(0, gy - 2); clear && y <= Math.min(rows - 1, gy + 2); y++) {
+      for (let x = Math.max(0, gx - 2); x <= Math.min(cols - 1, gx + 2); x++) {
+        const q = grid[y * cols + x];
+        if (q !== -1 && (seeds[q].x - p.x) ** 2 + (seeds[q].y - p.y) ** 2 < radius * radius) {
+          clear = false;
+          break;
+        }
+      }
+    }
+    if (!clear) continue;
+    grid[gy * cols + gx] = seeds.length;
+    seeds.push(p);
+  }
+
+  while (seeds.length < numCells) seeds.push(candidate());
+  return seeds;
+}
+
+/* ── Lloyd relaxation ────────────────────────────────────── */
+
+/**
+ * Move each seed to the centroid of its cell, `iterations` times
+ * (centroidal Voronoi relaxation). With `density` the centroid is
+ * weighted by it, so seeds crowd where density is high instead of
+ * spreading out evenly.
+ */
+export function lloydRelax(
+  seeds: Point[],
+  width: number,
+  height: number,
+  iterations: number,
+  density?: (x: number, y: number) => number
+): Point[] {
+  let current = seeds;
+  for (let i = 0; i < iterations; i++) {
+    const next = current.slice();
+    for (const cell of voronoiFromSeeds(current, width, height)) {
+      const c = density
+        ? weightedCentroid(cell.vertices, density)
+        : polygonCentroid(cell.vertices);
+      if (!c) continue;
+      next[cell.id] = {
+        x: Math.max(1, Math.min(width - 1, c.x)),
+        y: Math.max(1, Math.min(height - 1, c.y)),
+      };
+    }
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Density-weighted centroid, integrated over a fan triangulation with
+ * each triangle split in four so single samples do not dominate.
+ */
+function weightedCentroid(
+  vertices: Point[],
+  density: (x: number, y: number) => number
+): Point | null {
+  const o = vertices[0];
+  let mass = 0, cx = 0, cy = 0;
+  const add = (a: Point, b: Point, c: Point) => {
+    const area = Math.abs((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)) / 2;
+    const x = (a.x + b.x + c.x) / 3;
+    const y = (a.y + b.y + c.y) / 3;
+    const m = area * density(x, y);
+    mass += m;
+    cx += m * x;
+    cy += m * y;
+  };
+  const mid = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+  for (let i = 1; i < vertices.length - 1; i++) {
+    const a = o, b = vertices[i], c = vertices[i + 1];
+    const ab = mid(a, b), bc = mid(b, c), ca = mid(c, a);
+    add(a, ab, ca);
+    add(ab, b, bc);
+    add(ca, bc, c);
+    add(ab, bc, ca);
+  }
+  if (mass <= 0) return polygonCentroid(vertices);
+  return { x: cx / mass, y: cy / mass };
+}
+
+/* ── polygon measures ────────────────────────────────────── */
+
+/** Signed area (positive when the vertices run clockwise on screen). */
+function signedArea(vertices: Point[]): number {
+  let sum = 0;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    sum += vertices[j].x * vertices[i].y - vertices[i].x * vertices[j].y;
+  }
+  return sum / 2;
+}
+
+export function polygonArea(vertices: Point[]): number {
+  return Math.abs(signedArea(vertices));
+}
+
+export function polygonPerimeter(vertices: Point[]): number {
+  let length = 0;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    length += Math.hypot(vertices[i].x - vertices[j].x, vertices[i].y - vertices[j].y);
+  }
+  return length;
+}
+
+/** A polygon and the same polygon moved inward, vertex for vertex. */
+export interface PolygonInset {
+  /** The polygon without repeated points. */
+  vertices: Point[];
+  inset: Point[];
+  /** Unit inward normal of each edge, from `vertices[i]` to the next. */
+  inward: Point[];
+}
+
+/**
+ * Every edge moved `distance` inward, for either winding, with mitred
+ * corners limited at sharp ones. Null for a polygon with fewer than
+ * three distinct points. Too large a distance turns it inside out;
+ * callers keep it well under area / perimeter.
+ */
+export function insetPolygon(vertices: Point[], distance: number): PolygonInset | null {
+  // Drop repeated points so every edge has a direction
+  const points = vertices.filter((p, i) => {
+    const next = vertices[(i + 1) % vertices.length];
+    return Math.hypot(next.x - p.x, next.y - p.y) > 1e-6;
+  });
+  const n = points.length;
+  if (n < 3) return null;
+  const clockwise = signedArea(points) > 0;
+
+  const inward = points.map((p, i) => {
+    const q = points[(i + 1) % n];
+    const length = Math.hypot(q.x - p.x, q.y - p.y);
+    const ux = (q.x - p.x) / length, uy = (q.y - p.y) / length;
+    return clockwise ? { x: -uy, y: ux } : { x: uy, y: -ux };
+  });
+  const inset = points.map((p, i) => {
+    const a = inward[(i + n - 1) % n];
+    const b = inward[i];
+    const mx = a.x + b.x, my = a.y + b.y;
+    const length = Math.hypot(mx, my) || 1;
+    // Mitre, limited at sharp corners
+    const along = Math.max(0.25, (mx * b.x + my * b.y) / length);
+    return { x: p.x + (mx / length) * (distance / along), y: p.y + (my / length) * (distance / along) };
+  });
+  return { vertices: points, inset, inward };
+}
+
+export function polygonCentroid(vertices: Point[]): Point | null {
+  const a = signedArea(vertices);
+  if (Math.abs(a) < 1e-9) return null;
+  let cx = 0, cy = 0;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const cross = vertices[j].x * vertices[i].y - vertices[i].x * vertices[j].y;
+    cx += (vertices[j].x + vertices[i].x) * cross;
+    cy += (vertices[j].y + vertices[i].y) * cross;
+  }
+  return { x: cx / (6 * a), y: cy / (6 * a) };
+}
+
+/**
+ * A point inside the polygon: its centroid when that is inside,
+ * otherwise the middle of the widest span across the centroid's row.
+ */
+export function interiorPoint(vertices: Point[]): Point | null {
+  const c = polygonCentroid(vertices);
+  if (!c) return null;
+  if (pointInPolygon(c.x, c.y, vertices)) return c;
+  const xs: number[] = [];
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[j], b = vertices[i];
+    if (a.y > c.y !== b.y > c.y) xs.push(a.x + ((c.y - a.y) * (b.x - a.x)) / (b.y - a.y));
+  }
+  xs.sort((a, b) => a - b);
+  let best: Point | null = null;
+  let widest = 0;
+  for (let i = 0; i + 1 < xs.length; i += 2) {
+    if (xs[i + 1] - xs[i] > widest) {
+      widest = xs[i + 1] - xs[i];
+      best = { x: (xs[i] + xs[i + 1]) / 2, y: c.y };
+    }
+  }
+  return best;
+}
+
+/**
+ * Split a simple polygon into triangles by ear clipping, for either
+ * winding. Returns vertex indices, three per triangle. Collinear
+ * vertices are clipped as flat ears; whatever a malformed polygon
+ * leaves over is fanned.
+ */
+export function triangulatePolygon(vertices: Point[]): number[] {
+  if (vertices.length < 3) return [];
+  const orientation = Math.sign(signedArea(vertices)) || 1;
+  const turn = (a: Point, b: Point, c: Point) =>
+    orientation * ((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+  const inside = (p: Point, a: Point, b: Point, c: Point) =>
+    turn(a, b, p) > 1e-9 && turn(b, c, p) > 1e-9 && turn(c, a, p) > 1e-9;
+
+  const remaining = vertices.map((_, i) => i);
+  const triangles: number[] = [];
+  while (remaining.length > 3) {
+    let clipped = false;
+    for (let i = 0; i < remaining.length && !clipped; i++) {
+      const ia = remaining[(i + remaining.length - 1) % remaining.length];
+      const ib = remaining[i];
+      const ic = remaining[(i + 1) % remaining.length];
+      const a = vertices[ia], b = vertices[ib], c = vertices[ic];
+      const t = turn(a, b, c);
+      if (t < 0) continue; // reflex
+      if (t > 0 && remaining.some((j) => j !== ia && j !== ib && j !== ic && inside(vertices[j], a, b, c))) {
+        continue;
+      }
+      triangles.push(ia, ib, ic);
+      remaining.splice(i, 1);
+      clipped = true;
+    }
+    if (!clipped) break;
+  }
+  for (let i = 1; i + 1 < remaining.length; i++) {
+    triangles.push(remaining[0], remaining[i], remaining[i + 1]);
+  }
+  return triangles;
+}
+
+/**
+ * Interior angles of a simple polygon in degrees, skipping repeated
+ * vertices (clipping can leave two at the same spot).
+ */
+export function interiorAngles(vertices: Point[]): number[] {
+  const pts = vertices.filter((p, i) => {
+    const q = vertices[(i + 1) % vertices.length];
+    return Math.hypot(p.x - q.x, p.y - q.y) > 1e-6;
+  });
+  const orientation = Math.sign(signedArea(pts)) || 1;
+  const angles: number[] = [];
+  for (let i = 0; i < pts.length; i++) {
+    const prev = pts[(i + pts.length - 1) % pts.length];
+    const curr = pts[i];
+    const next = pts[(i + 1) % pts.length];
+    const ax = prev.x - curr.x, ay = prev.y - curr.y;
+    const bx = next.x - curr.x, by = next.y - curr.y;
+    // Turning from `next` back to `prev` sweeps the interior
+    const angle = Math.atan2(ay * bx - ax * by, ax * bx + ay * by) * orientation;
+    const deg = (angle * 180) / Math.PI;
+    angles.push(deg < 0 ? deg + 360 : deg);
+  }
+  return angles;
+}
+
+export interface CellQuality {
+  cellCount: number;
+  /** Variance of cell area divided by the squared mean – 0 when all pieces match. */
+  areaVariance: number;
+  /** Smallest interior angle of any piece, in degrees. */
+  minAngle: number;
+  /** Average over pieces of each piece's smallest angle, in degrees. */
+  meanMinAngle: number;
+}
+
+/**
+ * Quality measures for comparing layouts: even piece sizes and no
+ * sliver-thin corners make for glass that can actually be cut.
+ */
+export function cellQuality(cells: VoronoiCell[]): CellQuality {
+  if (cells.length === 0) {
+    return { cellCount: 0, areaVariance: 0, minAngle: 0, meanMinAngle: 0 };
+  }
+  const areas = cells.map((c) => polygonArea(c.vertices));
+  const mean = areas.reduce((a, b) => a + b, 0) / areas.length;
+  const variance = areas.reduce((sum, a) => sum + (a - mean) ** 2, 0) / areas.length;
+
+  let minAngle = 180;
+  let minSum = 0;
+  for (const cell of cells) {
+    const smallest = Math.min(...interiorAngles(cell.vertices));
+    minAngle = Math.min(minAngle, smallest);
+    minSum += smallest;
+  }
+
+  return {
+    cellCount: cells.length,
+    areaVariance: mean > 0 ? variance / (mean * mean) : 0,
+    minAngle,
+    meanMinAngle: minSum / cells.length,
+  };
+}
+
+/* ── spatial index ───────────────────────────────────────── */
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface CellIndex {
+  /** Id of the cell containing (x, y), or null. */
+  cellAt(x: number, y: number): number | null;
+  /** Bounding box of a cell. */
+  boundsOf(id: number): Bounds | undefined;
+}
+
+/**
+ * Hit-testing without a scan over every cell: a uniform grid of about
+ * one bucket per cell, each listing the cells whose bounding boxes
+ * overlap it. A lookup tests only that bucket's few polygons.
+ */
+export function createCellIndex(cells: VoronoiCell[]): CellIndex {
+  const bounds = new Map<number, Bounds>();
+  const all: Bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (const cell of cells) {
+    const b: Bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    for (const p of cell.vertices) {
+      b.minX = Math.min(b.minX, p.x);
+      b.minY = Math.min(b.minY, p.y);
+      b.maxX = Math.max(b.maxX, p.x);
+      b.maxY = Math.max(b.maxY, p.y);
+    }
+    bounds.set(cell.id, b);
+    all.minX = Math.min(all.minX, b.minX);
+    all.minY = Math.min(all.minY, b.minY);
+    all.maxX = Math.max(all.maxX, b.maxX);
+    all.maxY = Math.max(all.maxY, b.maxY);
+  }
+  if (cells.length === 0) return { cellAt: () => null, boundsOf: () => undefined };
+
+  const spanX = Math.max(all.maxX - all.minX, 1e-9);
+  const spanY = Math.max(all.maxY - all.minY, 1e-9);
+  const cols = Math.max(1, Math.round(Math.sqrt((cells.length * spanX) / spanY)));
+  const rows = Math.max(1, Math.round(cells.length / cols));
+  const col = (x: number) => Math.min(cols - 1, Math.max(0, Math.floor(((x - all.minX) / spanX) * cols)));
+  const row = (y: number) => Math.min(rows - 1, Math.max(0, Math.floor(((y - all.minY) / spanY) * rows)));
+
+  const buckets: VoronoiCell[][] = Array.from({ length: cols * rows }, () => []);
+  for (const cell of cells) {
+    const b = bounds.get(cell.id)!;
+    for (let r = row(b.minY); r <= row(b.maxY); r++) {
+      for (let c = col(b.minX); c <= col(b.maxX); c++) buckets[r * cols + c].push(cell);
+    }
+  }
+
+  return {
+    cellAt(x, y) {
+      if (x < all.minX || y < all.minY || x > all.maxX || y > all.maxY) return null;
+      for (const cell of buckets[row(y) * cols + col(x)]) {
+        const b = bounds.get(cell.id)!;
+        if (x < b.minX || y < b.minY || x > b.maxX || y > b.maxY) continue;
+        if (pointInPolygon(x, y, cell.vertices)) return cell.id;
+      }
+      return null;
+    },
+    boundsOf: (id) => bounds.get(id),
+  };
+}
+
+/* ── adjacency ───────────────────────────────────────────── */
+
+/**
+ * One stretch of lead: an edge between two cells, or between a cell
+ * and the border of the layout (`b` is null).
+ */
+export interface SharedEdge {
+  a: number;
+  b: number | null;
+  from: Point;
+  to: Point;
+}
+
+export interface CellGraph {
+  /** Ids of the cells sharing an edge with each cell. */
+  neighbours: Map<number, number[]>;
+  /** Every cell edge, with edges between two cells listed once. */
+  edges: SharedEdge[];
+}
+
+const vertexKey = (p: Point) => `${p.x.toFixed(3)},${p.y.toFixed(3)}`;
+
+/** Edges this close to each other, relative to the layout's size, count as one. */
+const EDGE_TOLERANCE = 1e-6;
+
+/** A cell edge, with the stretches other cells' edges cover along it. */
+interface OpenEdge {
+  cell: number;
+  from: Point;
+  to: Point;
+  length: number;
+  /** The cell on the other side of an edge it shares end to end. */
+  twin: number | null;
+  /** Stretches other edges cover, as fractions of this one, and their cells. */
+  covered: Array<{ t0: number; t1: number; other: number }>;
+}
+
+/** The point `t` of the way along `edge`, exact at its ends. */
+function along(edge: OpenEdge, t: number): Point {
+  if (t <= 0) return edge.from;
+  if (t >= 1) return edge.to;
+  return { x: edge.from.x + t * (edge.to.x - edge.from.x), y: edge.from.y + t * (edge.to.y - edge.from.y) };
+}
+
+/**
+ * The stretch of `q` lying on `p`, as fractions of `p`, or null when
+ * the two are not collinear within `tol` or overlap by less than it.
+ */
+function overlapOn(p: OpenEdge, q: OpenEdge, tol: number): [number, number] | null {
+  const dx = (p.to.x - p.from.x) / p.length, dy = (p.to.y - p.from.y) / p.length;
+  const offset = (r: Point) => Math.abs((r.x - p.from.x) * dy - (r.y - p.from.y) * dx);
+  if (offset(q.from) > tol || offset(q.to) > tol) return null;
+  const position = (r: Point) => (r.x - p.from.x) * dx + (r.y - p.from.y) * dy;
+  const a = position(q.from), b = position(q.to);
+  const start = Math.max(0, Math.min(a, b)), end = Math.min(p.length, Math.max(a, b));
+  if (end - start <= tol) return null;
+  // Ends within the tolerance of p's own snap to them
+  return [start <= tol ? 0 : start / p.length, end >= p.length - tol ? 1 : end / p.length];
+}
+
+/**
+ * Which cells share an edge, and where. Built from the cells' outlines
+ * rather than the triangulation, so it also covers tilings, merged
+ * pieces, snapped borders and outline clipping. Edges with the same
+ * ends pair up directly; the rest are matched as segments within a
+ * small tolerance, so a border one cell splits at a vertex and its
+ * neighbour does not, or whose ends differ by rounding, still links
+ * the two.
+ */
+export function cellGraph(cells: VoronoiCell[]): CellGraph {
+  const neighbours = new Map<number, Set<number>>(cells.map((c) => [c.id, new Set<number>()]));
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const { vertices } of cells) {
+    for (const p of vertices) {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    }
+  }
+  const tol = EDGE_TOLERANCE * Math.max(1, Math.hypot(maxX - minX, maxY - minY));
+
+  const link = (a: number, b: number) => {
+    neighbours.get(a)!.add(b);
+    neighbours.get(b)!.add(a);
+  };
+
+  // Most shared edges have the same ends on both sides; pair those first
+  const all: OpenEdge[] = [];
+  const byEnds = new Map<string, OpenEdge>();
+  for (const cell of cells) {
+    const { vertices } = cell;
+    for (let i = 0; i < vertices.length; i++) {
+      const from = vertices[i];
+      const to = vertices[(i + 1) % vertices.length];
+      const length = Math.hypot(to.x - from.x, to.y - from.y);
+      if (length <= tol) continue;
+      const edge: OpenEdge = { cell: cell.id, from, to, length, twin: null, covered: [] };
+      all.push(edge);
+      const kf = vertexKey(from), kt = vertexKey(to);
+      const key = kf < kt ? `${kf}|${kt}` : `${kt}|${kf}`;
+      const other = byEnds.get(key);
+      if (other && other.cell !== cell.id) {
+        byEnds.delete(key);
+        other.twin = cell.id;
+        edge.twin = other.cell;
+        link(other.cell, cell.id);
+      } else if (!other) {
+        byEnds.set(key, edge);
+      }
+    }
+  }
+
+  // The rest are matched as segments, bucketed by their bounds
+  const open = all.filter((edge) => edge.twin === null);
+  const side = Math.sqrt(((maxX - minX || 1) * (maxY - minY || 1)) / Math.max(1, open.length)) * 2;
+  const cols = Math.max(1, Math.ceil((maxX - minX) / side));
+  const rows = Math.max(1, Math.ceil((maxY - minY) / side));
+  const col = (x: number) => Math.min(cols - 1, Math.max(0, Math.floor((x - minX) / side)));
+  const row = (y: number) => Math.min(rows - 1, Math.max(0, Math.floor((y - minY) / side)));
+  const buckets: number[][] = Array.from({ length: cols * rows }, () => []);
+  open.forEach((edge, i) => {
+    const c0 = col(Math.min(edge.from.x, edge.to.x) - tol), c1 = col(Math.max(edge.from.x, edge.to.x) + tol);
+    const r0 = row(Math.min(edge.from.y, edge.to.y) - tol), r1 = row(Math.max(edge.from.y, edge.to.y) + tol);
+    for (let r = r0; r <= r1; r++) for (let c = c0; c <= c1; c++) buckets[r * cols + c].push(i);
+  });
+
+  const checked = new Set<number>();
+  for (const bucket of buckets) {
+    for (let x = 0; x < bucket.length; x++) {
+      for (let y = x + 1; y < bucket.length; y++) {
+        const i = Math.min(bucket[x], bucket[y]), j = Math.max(bucket[x], bucket[y]);
+        const p = open[i], q = open[j];
+        if (p.cell === q.cell || checked.has(i * open.length + j)) continue;
+        checked.add(i * open.length + j);
+        const onP = overlapOn(p, q, tol);
+        const onQ = onP && overlapOn(q, p, tol);
+        if (!onP || !onQ) continue;
+        p.covered.push({ t0: onP[0], t1: onP[1], other: q.cell });
+        q.covered.push({ t0: onQ[0], t1: onQ[1], other: p.cell });
+        link(p.cell, q.cell);
+      }
+    }
+  }
+
+  // Each shared stretch once, from the lower id's side; the rest is border
+  const edges: SharedEdge[] = [];
+  for (const edge of all) {
+    if (edge.twin !== null) {
+      if (edge.cell < edge.twin) edges.push({ a: edge.cell, b: edge.twin, from: edge.from, to: edge.to });
+      continue;
+    }
+    const stretches = edge.covered.length > 1 ? edge.covered.sort((u, v) => u.t0 - v.t0) : edge.covered;
+    let t = 0;
+    for (const { t0, t1, other } of stretches) {
+      if ((t0 - t) * edge.length > tol) edges.push({ a: edge.cell, b: null, from: along(edge, t), to: along(edge, t0) });
+      if (edge.cell < other) edges.push({ a: edge.cell, b: other, from: along(edge, t0), to: along(edge, t1) });
+      t = Math.max(t, t1);
+    }
+    if ((1 - t) * edge.length > tol) edges.push({ a: edge.cell, b: null, from: along(edge, t), to: edge.to });
+  }
+
+  return {
+    neighbours: new Map(Array.from(neighbours, ([id, set]) => [id, Array.from(set)])),
+    edges,
+  };
+}
+
+/**
+ * Cells reachable from `start` through neighbours that `accept` lets
+ * in, `start` included.
+ */
+export function floodFill(
+  graph: CellGraph,
+  start: number,
+  accept: (id: number) => boolean
+): Set<number> {
+  const region = new Set([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const next of graph.neighbours.get(id) ?? []) {
+      if (region.has(next) || !accept(next)) continue;
+      region.add(next);
+      queue.push(next);
+    }
+  }
+  return region;
+}
+
+/**
+ * The neighbour of `id` lying most nearly in direction (dx, dy), or
+ * null when none is within about 70° of it.
+ */
+export function neighbourToward(
+  graph: CellGraph,
+  cells: VoronoiCell[],
+  id: number,
+  dx: number,
+  dy: number
+): number | null {
+  const centre = (cellId: number) => {
+    const cell = cells.find((c) => c.id === cellId);
+    return cell ? polygonCentroid(cell.vertices) ?? cell.seed : null;
+  };
+  const from = centre(id);
+  if (!from) return null;
+  let best: number | null = null;
+  let bestCos = 0.35;
+  for (const next of graph.neighbours.get(id) ?? []) {
+    const to = centre(next);
+    if (!to) continue;
+    const len = Math.hypot(to.x - from.x, to.y - from.y) * Math.hypot(dx, dy);
+    const cos = len > 0 ? ((to.x - from.x) * dx + (to.y - from.y) * dy) / len : 0;
+    if (cos > bestCos) {
+      bestCos = cos;
+      best = next;
+    }
+  }
+  return best;
+}
+
+/**
+ * Colour the graph so no two neighbours match (DSatur: most-constrained
+ * cell first, smallest free colour). Planar layouts need four or five
+ * colours in practice. Returns a colour index per cell id.
+ */
+export function colourGraph(graph: CellGraph): Map<number, number> {
+  const ids = Array.from(graph.neighbours.keys());
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const adjacent = ids.map((id) => graph.neighbours.get(id)!.map((n) => index.get(n)!));
+  const colour = new Int32Array(ids.length).fill(-1);
+  const saturation = new Int32Array(ids.length);
+  // Colours seen around each cell, as a bit mask (spills past 31 are rare)
+  const seen = new Int32Array(ids.length);
+
+  // Max-heap of [saturation, cell], most saturated then most neighbours
+  // first; an entry whose saturation has since grown is skipped
+  const heap: Array<[number, number]> = [];
+  const before = ([sa, a]: [number, number], [sb, b]: [number, number]) =>
+    sa !== sb ? sa > sb : adjacent[a].length !== adjacent[b].length ? adjacent[a].length > adjacent[b].length : a < b;
+  const push = (entry: [number, number]) => {
+    let i = heap.push(entry) - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!before(heap[i], heap[parent])) break;
+      [heap[i], heap[parent]] = [heap[parent], heap[i]];
+      i = parent;
+    }
+  };
+  const pop = (): [number, number] => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      for (let i = 0; ; ) {
+        const l = 2 * i + 1, r = l + 1;
+        let best = i;
+        if (l < heap.length && before(heap[l], heap[best])) best = l;
+        if (r < heap.length && before(heap[r], heap[best])) best = r;
+        if (best === i) break;
+        [heap[i], heap[best]] = [heap[best], heap[i]];
+        i = best;
+      }
+    }
+    return top;
+  };
+  ids.forEach((_, i) => push([0, i]));
+
+  while (heap.length > 0) {
+    const [sat, pick] = pop();
+    if (colour[pick] !== -1 || sat !== saturation[pick]) continue;
+    const used = new Set(adjacent[pick].map((n) => colour[n]));
+    let c = 0;
+    while (used.has(c)) c++;
+    colour[pick] = c;
+    for (const n of adjacent[pick]) {
+      const bit = 1 << Math.min(c, 30);
+      if (c >= 30 || !(seen[n] & bit)) {
+        seen[n] |= bit;
+        saturation[n]++;
+        if (colour[n] === -1) push([saturation[n], n]);
+      }
+    }
+  }
+  return new Map(ids.map((id, i) => [id, colour[i]]));
+}
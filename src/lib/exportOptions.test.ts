@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  exportQuery,
+  isCutPatternFormat,
+  outputSize,
+  PAGE_MARGIN_MM,
+  pixelsPerMm,
+  posterLayout,
+} from "./exportOptions";
+import { exportOptionsSchema, parse } from "./schema";
+
+const query = (q: string) => exportQuery(new URLSearchParams(q));
+
+describe("exportQuery", () => {
+  it("parses numbers and flags and keeps names as text", () => {
+    expect(query("format=pdf&paper=a3&dpi=300&widthMm=750.5&legend=1")).toEqual({
+      format: "pdf",
+      paper: "a3",
+      dpi: 300,
+      widthMm: 750.5,
+      legend: true,
+    });
+    expect(query("format=png&legend=false")).toEqual({ format: "png", legend: false });
+  });
+
+  it("leaves values it cannot parse for the schema to reject", () => {
+    expect(query("format=png&scale=&legend=maybe")).toEqual({ format: "png", scale: "", legend: "maybe" });
+    expect(query("scale=big").scale).toBeNaN();
+  });
+});
+
+describe("exportOptionsSchema", () => {
+  const check = (q: string) => parse(exportOptionsSchema, query(q));
+
+  it("accepts every format with its options", () => {
+    expect(check("format=png&scale=2").ok).toBe(true);
+    expect(check("format=png&dpi=300&widthMm=500").ok).toBe(true);
+    expect(check("format=pdf&paper=letter&legend=1").ok).toBe(true);
+    expect(check("format=dxf&widthMm=600&leadMm=1.6&colours=palette").ok).toBe(true);
+  });
+
+  it.each([
+    ["format=gif", "format"],
+    ["scale=2", "format"],
+    ["format=png&scale=0", "scale"],
+    ["format=png&scale=big", "scale"],
+    ["format=png&dpi=72.5", "dpi"],
+    ["format=pdf&paper=a0", "paper"],
+    ["format=pdf&legend=maybe", "legend"],
+    ["format=svg&widthMm=600&colours=rainbow", "colours"],
+    ["format=svg&widthMm=600&leadMm=-1", "leadMm"],
+    ["format=png&quality=9", "quality"],
+  ])("rejects %s", (q, path) => {
+    const result = check(q);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.issues.map((issue) => issue.path)).toContain(path);
+  });
+});
+
+describe("outputSize", () => {
+  it("scales the image, full resolution by default", () => {
+    expect(outputSize(1200, 800, { format: "png" })).toEqual({ width: 1200, height: 800 });
+    expect(outputSize(1200, 800, { format: "png", scale: 0.5 })).toEqual({ width: 600, height: 400 });
+  });
+
+  it("sizes by print width and resolution when both are given", () => {
+    // 254 mm at 100 dpi is 1000 pixels
+    expect(outputSize(1200, 800, { format: "png", dpi: 100, widthMm: 254, scale: 4 })).toEqual({
+      width: 1000,
+      height: 667,
+    });
+    expect(pixelsPerMm(254)).toBe(10);
+  });
+});
+
+describe("posterLayout", () => {
+  it("fits one page by default, on whichever side prints larger", () => {
+    const layout = posterLayout(3000, 2000, { format: "pdf" });
+    expect([layout.columns, layout.rows]).toEqual([1, 1]);
+    expect(layout.page).toEqual({ width: 297, height: 210 });
+    expect(layout.poster.width).toBeCloseTo(297 - 2 * PAGE_MARGIN_MM);
+  });
+
+  it("tiles a wide poster across as few pages as it can", () => {
+    // 1000 × 333 mm takes 4 × 2 landscape A4 pages, but 6 × 2 portrait
+    const layout = posterLayout(3000, 1000, { format: "pdf", paper: "a4", widthMm: 1000 });
+    expect([layout.columns, layout.rows]).toEqual([4, 2]);
+    expect(layout.page).toEqual({ width: 297, height: 210 });
+    expect(layout.poster.width).toBe(1000);
+    expect(layout.poster.height).toBeCloseTo(1000 / 3);
+  });
+
+  it("defaults to 150 dpi", () => {
+    expect(posterLayout(100, 100, { format: "pdf" }).dpi).toBe(150);
+    expect(posterLayout(100, 100, { format: "pdf", dpi: 300 }).dpi).toBe(300);
+  });
+});
+
+describe("isCutPatternFormat", () => {
+  it("picks out the fabrication formats", () => {
+    expect(["png", "pdf", "svg", "dxf", "csv"].filter((f) => isCutPatternFormat(f as never))).toEqual([
+      "svg",
+      "dxf",
+      "csv",
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * What an export of the finished window looks like: output size for a
+ * PNG, the page grid of a PDF poster, and the real-world scale of a
+ * cut pattern. Pure arithmetic, shared by the export route, its
+ * request schema and the export script; the drawing itself is in
+ * `exportWindow.ts` and `cutPattern.ts`.
+ */
+
+export const EXPORT_FORMATS = ["png", "pdf", "svg", "dxf", "csv"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Formats that are a fabrication pattern rather than a picture. */
+export const CUT_PATTERN_FORMATS = ["svg", "dxf", "csv"] as const satisfies readonly ExportFormat[];
+
+export type CutPatternFormat = (typeof CUT_PATTERN_FORMATS)[number];
+
+export function isCutPatternFormat(format: ExportFormat): format is CutPatternFormat {
+  return (CUT_PATTERN_FORMATS as readonly ExportFormat[]).includes(format);
+}
+
+/** Where a cut pattern's piece colours come from. */
+export const CUT_COLOURS = ["palette", "sampled"] as const;
+
+export type CutColours = (typeof CUT_COLOURS)[number];
+
+/** Paper sizes in millimetres, portrait. */
+export const PAPER_SIZES = {
+  a4: { width: 210, height: 297 },
+  a3: { width: 297, height: 420 },
+  letter: { width: 215.9, height: 279.4 },
+  tabloid: { width: 279.4, height: 431.8 },
+} as const;
+
+export type PaperName = keyof typeof PAPER_SIZES;
+
+export const PAPER_NAMES = Object.keys(PAPER_SIZES) as PaperName[];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** PNG pixels per image pixel; 1, the default, is full resolution. */
+  scale?: number;
+  /**
+   * Print resolution. For a PNG it sizes the output together with
+   * `widthMm`, instead of `scale`; a poster defaults to `POSTER_DPI`.
+   */
+  dpi?: number;
+  /**
+   * Printed width of the window; a poster defaults to one page wide.
+   * For a cut pattern, the real window's width – required.
+   */
+  widthMm?: number;
+  /** Poster paper; A4 when unset. */
+  paper?: PaperName;
+  /** Number the annotated pieces on the poster and list them on a legend page. */
+  legend?: boolean;
+  /** Cut pattern: width of the lead's heart, or of the foil seam, in millimetres. */
+  leadMm?: number;
+  /**
+   * Cut pattern: the nearest sheet of the window's glass palette, or
+   * each piece's sampled colour. Follows the window's style when unset.
+   */
+  colours?: CutColours;
+}
+
+/**
+ * Largest PNG or poster page, in pixels – 100 MB of RGBA, enough for
+ * A3 at 300 dpi.
+ */
+export const MAX_EXPORT_PIXELS = 25_000_000;
+
+/** Most pages in a poster, legend excluded. */
+export const MAX_POSTER_PAGES = 100;
+
+export const POSTER_DPI = 150;
+
+/** Unprinted border on every poster page. */
+export const PAGE_MARGIN_MM = 10;
+
+/** Cut pattern lead when `leadMm` is unset: the heart of a came… */
+export const CAME_HEART_MM = 1.6;
+
+/** …or, for a copper-foil window, the solder seam. */
+export const FOIL_SEAM_MM = 0.8;
+
+const MM_PER_INCH = 25.4;
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/** PNG size for a `width` × `height` image. */
+export function outputSize(width: number, height: number, options: ExportOptions): Size {
+  const scale =
+    options.dpi !== undefined && options.widthMm !== undefined
+      ? (options.widthMm * pixelsPerMm(options.dpi)) / width
+      : options.scale ?? 1;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+export interface PosterLayout {
+  /** Page size in millimetres, as printed. */
+  page: Size;
+  /** Printed area of each page, inside the margins. */
+  printable: Size;
+  /** The whole window as printed across all pages. */
+  poster: Size;
+  columns: number;
+  rows: number;
+  dpi: number;
+}
+
+function posterOn(page: Size, aspect: number, options: ExportOptions): PosterLayout {
+  const printable = { width: page.width - 2 * PAGE_MARGIN_MM, height: page.height - 2 * PAGE_MARGIN_MM };
+  // Unless told otherwise, as large as fits on one page
+  const width = options.widthMm ?? Math.min(printable.width, printable.height * aspect);
+  const poster = { width, height: width / aspect };
+  return {
+    page,
+    printable,
+    poster,
+    columns: Math.ceil(poster.width / printable.width - 1e-9),
+    rows: Math.ceil(poster.height / printable.height - 1e-9),
+    dpi: options.dpi ?? POSTER_DPI,
+  };
+}
+
+/**
+ * Page grid for a poster of a `width` × `height` image, on whichever
+ * way round of the paper takes fewer pages – or, on a single page,
+ * prints larger.
+ */
+export function posterLayout(width: number, height: number, options: ExportOptions): PosterLayout {
+  const paper = PAPER_SIZES[options.paper ?? "a4"];
+  const aspect = width / height;
+  const portrait = posterOn({ width: paper.width, height: paper.height }, aspect, options);
+  const landscape = posterOn({ width: paper.height, height: paper.width }, aspect, options);
+  const pages = (p: PosterLayout) => p.columns * p.rows;
+  if (pages(portrait) !== pages(landscape)) {
+    return pages(portrait) < pages(landscape) ? portrait : landscape;
+  }
+  return landscape.poster.width > portrait.poster.width ? landscape : portrait;
+}
+
+const FLAGS: Record<string, boolean> = { "1": true, true: true, "0": false, false: false };
+
+/**
+ * Export options as sent in a query string – numbers and `1`/`true`
+ * flags parsed, anything else left as is for the schema to reject.
+ */
+export function exportQuery(query: URLSearchParams): Record<string, unknown> {
+  const options: Record<string, unknown> = {};
+  query.forEach((value, key) => {
+    if (key === "format" || key === "paper" || key === "colours") options[key] = value;
+    else if (key === "legend") options[key] = FLAGS[value] ?? value;
+    else options[key] = value.trim() === "" ? value : Number(value);
+  });
+  return options;
+}
+
+/** Pixels across one printed millimetre at `dpi`. */
+export function pixelsPerMm(dpi: number): number {
+  return dpi / MM_PER_INCH;
+}
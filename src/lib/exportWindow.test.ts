@@ -0,0 +1,95 @@
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { beforeAll, describe, expect, it } from "vitest";
+import { useTempStorage } from "@/test/tempStorage";
+import type { ImageRecord } from "./db";
+import { ExportBusyError, exportCutPattern, exportPdf, exportPng } from "./exportWindow";
+import { ValidationError } from "./schema";
+import { getStorage } from "./storage";
+
+useTempStorage();
+
+let image: ImageRecord;
+
+beforeAll(async () => {
+  const canvas = createCanvas(1000, 700);
+  const ctx = canvas.getContext("2d");
+  const gradient = ctx.createLinearGradient(0, 0, 1000, 700);
+  gradient.addColorStop(0, "#c33");
+  gradient.addColorStop(1, "#33c");
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 1000, 700);
+  const blobUrl = await getStorage().putFile(
+    "images/photo.png",
+    new Blob([new Uint8Array(canvas.toBuffer("image/png"))]),
+    "image/png"
+  );
+  image = {
+    id: "photo",
+    slug: "photo",
+    originalName: "photo.png",
+    fileName: "photo.png",
+    blobUrl,
+    uploadedAt: new Date(0).toISOString(),
+    tessellation: { algorithm: "jittered-grid", cellCount: 40, seed: "export", jitter: 0.5 },
+  };
+});
+
+/** The issue paths a rejected export reports. */
+async function rejectedPaths(exporting: Promise<unknown>): Promise<string[]> {
+  const error = await exporting.then(
+    () => null,
+    (e: unknown) => e
+  );
+  expect(error).toBeInstanceOf(ValidationError);
+  return (error as ValidationError).issues.map((issue) => issue.path);
+}
+
+describe("exportPng", () => {
+  it("renders at the requested size", async () => {
+    const png = await loadImage(await exportPng(image, { format: "png", scale: 0.1 }));
+    expect([png.width, png.height]).toEqual([100, 70]);
+  });
+
+  it("refuses images over the megapixel limit", async () => {
+    expect(await rejectedPaths(exportPng(image, { format: "png", scale: 16 }))).toEqual(["scale"]);
+    expect(await rejectedPaths(exportPng(image, { format: "png", dpi: 600, widthMm: 500 }))).toEqual([
+      "widthMm",
+    ]);
+  });
+});
+
+describe("exportPdf", () => {
+  it("draws a poster page", async () => {
+    const pdf = await exportPdf(image, { format: "pdf", paper: "a4" });
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+  });
+
+  it("refuses posters over the page limit", async () => {
+    expect(await rejectedPaths(exportPdf(image, { format: "pdf", widthMm: 20000 }))).toEqual(["widthMm"]);
+  });
+});
+
+describe("exportCutPattern", () => {
+  it("needs the window's real width", async () => {
+    expect(await rejectedPaths(exportCutPattern(image, { format: "svg" }))).toEqual(["widthMm"]);
+  });
+
+  it("numbers every piece of the layout", async () => {
+    const csv = await exportCutPattern(image, { format: "csv", widthMm: 600 });
+    const rows = csv.trim().split("\n").slice(1);
+    expect(rows.length).toBeGreaterThan(30);
+    expect(rows.map((row) => Number(row.split(",")[0]))).toEqual(rows.map((_, i) => i + 1));
+  });
+});
+
+describe("exports", () => {
+  it("run one at a time", async () => {
+    const results = await Promise.allSettled([
+      exportPng(image, { format: "png", scale: 0.1 }),
+      exportCutPattern(image, { format: "csv", widthMm: 600 }),
+    ]);
+    expect(results[0].status).toBe("fulfilled");
+    expect(results[1]).toEqual({ status: "rejected", reason: expect.any(ExportBusyError) });
+    await expect(exportCutPattern(image, { format: "csv", widthMm: 600 })).resolves.toContain("Piece");
+  });
+});
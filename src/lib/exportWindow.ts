@@ -0,0 +1,527 @@
+/**
+ * Server-side export of the finished window as a PNG or a PDF poster,
+ * drawn on a headless canvas with the same scene and Canvas 2D painter
+ * the viewer uses, or as a cut pattern from the same layout. Works
+ * from API routes and from scripts alike.
+ *
+ * The scene is laid out at screen size (`SCREEN_SIDE`) and scaled up
+ * to the output resolution, so leads, came and glows keep the weight
+ * they have on screen however large the export.
+ */
+
+import {
+  createCanvas,
+  ImageData,
+  loadImage,
+  PDFDocument,
+  type Canvas,
+  type Image,
+  type SKRSContext2D,
+} from "@napi-rs/canvas";
+import { bindAnnotations } from "./anchors";
+import { colourCells, COLOUR_SAMPLE_SIZE, layoutKey, unpackColours } from "./cellColours";
+import { DETAIL_MAP_SIZE, downsamplePixels, ImagePixels } from "./contentAware";
+import { cutPattern, cutPatternDxf, cutPatternSvg, partsListCsv, type PieceColour } from "./cutPattern";
+import {
+  getAnnotations,
+  getCellColours,
+  ImageRecord,
+  type AnnotationsMap,
+  type CellAnnotation,
+} from "./db";
+import {
+  cellGraph,
+  colourGraph,
+  polygonCentroid,
+  scaleCells,
+  type CellGraph,
+  type Point,
+  type VoronoiCell,
+} from "./delaunay";
+import {
+  CAME_HEART_MM,
+  CutPatternFormat,
+  ExportOptions,
+  FOIL_SEAM_MM,
+  MAX_EXPORT_PIXELS,
+  MAX_POSTER_PAGES,
+  outputSize,
+  PAGE_MARGIN_MM,
+  pixelsPerMm,
+  posterLayout,
+} from "./exportOptions";
+import { GLASS_PRESETS, matchGlass, rgbToHex } from "./glassPalette";
+import { glassScene, paintGlass } from "./glassScene";
+import { defaultGlassStyle, type GlassStyle, type GlassTexture } from "./glassStyle";
+import { TEXTURE_TILE, textureTile } from "./glassTextures";
+import { pinnedAnnotations } from "./manualSeeds";
+import { outlinePolygon } from "./outlines";
+import type { GlassScene } from "./renderers";
+import { paintScene } from "./renderers/canvas2d";
+import { ValidationError } from "./schema";
+import { getStorage } from "./storage";
+import { defaultTessellation, tessellate, type TessellationSettings } from "./tessellation";
+
+/** Long side of the window as the viewer shows it, in scene units. */
+const SCREEN_SIDE = 1000;
+
+/** Size of the piece numbers on a poster, in scene units. */
+const NUMBER_SIZE = 13;
+
+const POINTS_PER_MM = 72 / 25.4;
+
+const FONT = "sans-serif";
+
+/** A piece numbered on the poster and listed in its legend. */
+interface LegendEntry {
+  number: number;
+  cellId: number;
+  annotation: CellAnnotation;
+}
+
+interface LoadedWindow {
+  image: ImageRecord;
+  /** Scene at screen size, before the output resolution is known. */
+  scene: Omit<GlassScene<Image>, "dpr">;
+  /** Annotated pieces in reading order, with where to put their number. */
+  legend: Array<LegendEntry & { at: Point }>;
+}
+
+/* ── loading ─────────────────────────────────────────────── */
+
+/** The photo's pixels at full size, for `downsamplePixels` – as the viewer reads them. */
+function readPixels(photo: Image): ImagePixels {
+  const { width, height } = photo;
+  const ctx = createCanvas(width, height).getContext("2d");
+  ctx.drawImage(photo, 0, 0);
+  return ctx.getImageData(0, 0, width, height);
+}
+
+async function loadPhoto(image: ImageRecord): Promise<Image> {
+  const bytes = await getStorage().readFile(image.blobUrl);
+  if (!bytes) throw new Error(`Image file for "${image.slug}" is missing`);
+  return loadImage(bytes);
+}
+
+/** The window's pieces as the viewer lays out and colours them. */
+interface WindowLayout {
+  image: ImageRecord;
+  width: number;
+  height: number;
+  tessellation: TessellationSettings;
+  style: GlassStyle;
+  /** Pieces in image pixels, with their sampled colours. */
+  cells: VoronoiCell[];
+  graph: CellGraph;
+  annotations: AnnotationsMap;
+  /** Annotation key of each annotated piece. */
+  cellKeys: Map<number, number>;
+}
+
+/**
+ * The image's pieces, in image pixels, as the viewer lays them out –
+ * without colours, for work on the layout alone.
+ */
+export async function loadPieces(
+  image: ImageRecord
+): Promise<{ width: number; height: number; cells: VoronoiCell[] }> {
+  const photo = await loadPhoto(image);
+  const { width, height } = photo;
+  const tessellation = image.tessellation ?? defaultTessellation(image.blobUrl);
+  const pixels = downsamplePixels(readPixels(photo), DETAIL_MAP_SIZE);
+  return { width, height, cells: tessellate(tessellation, width, height, pixels) };
+}
+
+async function loadLayout(image: ImageRecord, photo: Image): Promise<WindowLayout> {
+  const { width, height } = photo;
+  const tessellation = image.tessellation ?? defaultTessellation(image.blobUrl);
+  const style = image.style ?? defaultGlassStyle();
+
+  const pixels = readPixels(photo);
+  const cells = tessellate(tessellation, width, height, downsamplePixels(pixels, DETAIL_MAP_SIZE));
+  const sampling = style.sampling ?? "seed";
+  const stored = await getCellColours(image.slug);
+  const coloured =
+    (stored?.layout === layoutKey(tessellation, sampling, width, height, true) &&
+      unpackColours(cells, stored.colours)) ||
+    colourCells(cells, downsamplePixels(pixels, COLOUR_SAMPLE_SIZE), width, height, sampling);
+
+  const annotations = await getAnnotations(image.slug);
+  const cellKeys = bindAnnotations(
+    annotations,
+    cells,
+    width,
+    height,
+    tessellation.seeds && pinnedAnnotations(tessellation.seeds)
+  );
+
+  return {
+    image,
+    width,
+    height,
+    tessellation,
+    style,
+    cells: coloured,
+    graph: cellGraph(coloured),
+    annotations,
+    cellKeys,
+  };
+}
+
+/**
+ * Everything the window is drawn from: the photo, its layout and
+ * colours as the viewer would build them, and its annotations.
+ */
+async function loadWindow(image: ImageRecord, photo: Image): Promise<LoadedWindow> {
+  const { width, height, tessellation, style, cells, graph, annotations, cellKeys } = await loadLayout(
+    image,
+    photo
+  );
+  const glass = style.glass ?? GLASS_PRESETS[0].colours;
+  const paint = paintGlass(cells, cellKeys, {
+    distinct: style.palette === "distinct-neighbours" ? colourGraph(graph) : null,
+    matches: style.palette === "fixed" ? matchGlass(cells, glass) : null,
+    glass,
+  });
+
+  const fit = SCREEN_SIDE / Math.max(width, height);
+  const sceneCells = scaleCells(cells, fit, fit);
+  const outline = outlinePolygon(tessellation.outline, width, height);
+  const scene = {
+    ...glassScene(
+      {
+        cells: sceneCells,
+        graph,
+        scaleX: fit,
+        scaleY: fit,
+        width: width * fit,
+        height: height * fit,
+        outline: outline && outline.map((p) => ({ x: p.x * fit, y: p.y * fit })),
+      },
+      paint,
+      cellKeys,
+      style
+    ),
+    image: photo,
+  };
+
+  // Top to bottom, then left to right
+  const legend = sceneCells
+    .filter((cell) => annotations[cellKeys.get(cell.id) ?? -1])
+    .map((cell) => ({
+      cellId: cell.id,
+      annotation: annotations[cellKeys.get(cell.id)!],
+      at: polygonCentroid(cell.vertices) ?? cell.seed,
+    }))
+    .sort((a, b) => a.at.y - b.at.y || a.at.x - b.at.x)
+    .map((entry, i) => ({ ...entry, number: i + 1 }));
+
+  return { image, scene, legend };
+}
+
+/* ── drawing ─────────────────────────────────────────────── */
+
+const tiles = new Map<GlassTexture, Canvas>();
+
+function tileCanvas(texture: Exclude<GlassTexture, "flat">): Canvas {
+  let canvas = tiles.get(texture);
+  if (!canvas) {
+    canvas = createCanvas(TEXTURE_TILE, TEXTURE_TILE);
+    canvas
+      .getContext("2d")
+      .putImageData(new ImageData(textureTile(texture), TEXTURE_TILE, TEXTURE_TILE), 0, 0);
+    tiles.set(texture, canvas);
+  }
+  return canvas;
+}
+
+/** Paint the scene onto `ctx`, already set to scene units at `scale` output pixels each. */
+function paint(ctx: SKRSContext2D, window: LoadedWindow, scale: number, numbered: boolean) {
+  const scene: GlassScene<Image> = { ...window.scene, dpr: scale };
+  paintScene(ctx, scene, tileCanvas, scale);
+  if (!numbered) return;
+
+  ctx.font = `bold ${NUMBER_SIZE}px ${FONT}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.lineJoin = "round";
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = "rgba(0, 0, 0, 0.75)";
+  ctx.fillStyle = "#fff";
+  for (const { number, at } of window.legend) {
+    ctx.strokeText(String(number), at.x, at.y);
+    ctx.fillText(String(number), at.x, at.y);
+  }
+}
+
+/* ── one at a time ───────────────────────────────────────── */
+
+/** Thrown when an export is asked for while another is running. */
+export class ExportBusyError extends Error {
+  constructor() {
+    super("Another export is in progress; try again shortly");
+    this.name = "ExportBusyError";
+  }
+}
+
+let exporting = false;
+
+/**
+ * Run `task` unless another export is running in this process, so only
+ * one export's photo and canvases are in memory at a time.
+ */
+async function oneAtATime<T>(task: () => Promise<T>): Promise<T> {
+  if (exporting) throw new ExportBusyError();
+  exporting = true;
+  try {
+    return await task();
+  } finally {
+    exporting = false;
+  }
+}
+
+/* ── PNG ─────────────────────────────────────────────────── */
+
+/** The window as a PNG, sized by `outputSize`. */
+export function exportPng(image: ImageRecord, options: ExportOptions): Promise<Buffer> {
+  return oneAtATime(() => renderPng(image, options));
+}
+
+async function renderPng(image: ImageRecord, options: ExportOptions): Promise<Buffer> {
+  const photo = await loadPhoto(image);
+  const size = outputSize(photo.width, photo.height, options);
+  if (size.width * size.height > MAX_EXPORT_PIXELS) {
+    throw new ValidationError([
+      {
+        path: options.dpi !== undefined && options.widthMm !== undefined ? "widthMm" : "scale",
+        message: `A ${size.width} × ${size.height} PNG is over the ${MAX_EXPORT_PIXELS / 1e6} megapixel limit`,
+      },
+    ]);
+  }
+  const window = await loadWindow(image, photo);
+  const canvas = createCanvas(size.width, size.height);
+  const ctx = canvas.getContext("2d");
+  const scale = size.width / window.scene.width;
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  paint(ctx, window, scale, false);
+  return canvas.encode("png");
+}
+
+/* ── PDF poster ──────────────────────────────────────────── */
+
+type PageContext = ReturnType<PDFDocument["beginPage"]>;
+
+/** Whether `ctx` draws images, which PDF pages do but are not typed to. */
+function isSkiaContext(ctx: PageContext): ctx is SKRSContext2D {
+  return "drawImage" in ctx;
+}
+
+/** A new page, as the full Skia context it is. */
+function beginPage(doc: PDFDocument, width: number, height: number): SKRSContext2D {
+  const ctx = doc.beginPage(width, height);
+  if (!isSkiaContext(ctx)) throw new Error("PDF pages cannot draw images");
+  return ctx;
+}
+
+/** Corner marks and a page label in the margin of a poster page. */
+function pageMarks(ctx: SKRSContext2D, x: number, y: number, width: number, height: number, label: string) {
+  const length = 4 * POINTS_PER_MM;
+  const gap = 1 * POINTS_PER_MM;
+  ctx.strokeStyle = "#888";
+  ctx.lineWidth = 0.3;
+  ctx.beginPath();
+  for (const [cx, cy, dx, dy] of [
+    [x, y, -1, -1],
+    [x + width, y, 1, -1],
+    [x, y + height, -1, 1],
+    [x + width, y + height, 1, 1],
+  ]) {
+    ctx.moveTo(cx + dx * gap, cy);
+    ctx.lineTo(cx + dx * (gap + length), cy);
+    ctx.moveTo(cx, cy + dy * gap);
+    ctx.lineTo(cx, cy + dy * (gap + length));
+  }
+  ctx.stroke();
+  ctx.fillStyle = "#666";
+  ctx.font = `7px ${FONT}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(label, x + width / 2, y + height + (PAGE_MARGIN_MM * POINTS_PER_MM) / 2);
+}
+
+/** `text` cut to fit `width`, with an ellipsis when it had to be cut. */
+function fitText(ctx: SKRSContext2D, text: string, width: number): string {
+  if (ctx.measureText(text).width <= width) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > width) end--;
+  return `${text.slice(0, end)}…`;
+}
+
+/** Legend pages listing each numbered piece's title and date. */
+function legendPages(doc: PDFDocument, window: LoadedWindow, pageWidth: number, pageHeight: number) {
+  const margin = 2 * PAGE_MARGIN_MM * POINTS_PER_MM;
+  const lineHeight = 16;
+  const top = margin + 40;
+  const perPage = Math.max(1, Math.floor((pageHeight - top - margin) / lineHeight));
+  const title = window.image.originalName || window.image.slug;
+
+  for (let start = 0; start < window.legend.length || start === 0; start += perPage) {
+    const ctx = beginPage(doc, pageWidth, pageHeight);
+    ctx.fillStyle = "#111";
+    ctx.textBaseline = "alphabetic";
+    ctx.textAlign = "left";
+    ctx.font = `bold 16px ${FONT}`;
+    ctx.fillText(fitText(ctx, title, pageWidth - 2 * margin), margin, margin + 12);
+    ctx.font = `10px ${FONT}`;
+    ctx.fillStyle = "#555";
+    ctx.fillText(
+      window.legend.length === 0
+        ? "No annotated pieces"
+        : `${window.legend.length} annotated piece${window.legend.length === 1 ? "" : "s"}`,
+      margin,
+      margin + 28
+    );
+
+    window.legend.slice(start, start + perPage).forEach(({ number, annotation }, i) => {
+      const y = top + (i + 1) * lineHeight;
+      ctx.fillStyle = "#111";
+      ctx.font = `bold 10px ${FONT}`;
+      ctx.textAlign = "right";
+      ctx.fillText(String(number), margin + 24, y);
+      ctx.textAlign = "right";
+      ctx.font = `10px ${FONT}`;
+      ctx.fillStyle = "#555";
+      ctx.fillText(annotation.date, pageWidth - margin, y);
+      const dateWidth = ctx.measureText(annotation.date).width;
+      ctx.textAlign = "left";
+      ctx.fillStyle = "#111";
+      ctx.fillText(
+        fitText(ctx, annotation.title || "Untitled", pageWidth - 2 * margin - 36 - dateWidth - 12),
+        margin + 36,
+        y
+      );
+    });
+    doc.endPage();
+  }
+}
+
+/**
+ * The window as a PDF poster, tiled across pages by `posterLayout`,
+ * with a legend after the poster pages when `options.legend` is set.
+ */
+export function exportPdf(image: ImageRecord, options: ExportOptions): Promise<Buffer> {
+  return oneAtATime(() => renderPdf(image, options));
+}
+
+async function renderPdf(image: ImageRecord, options: ExportOptions): Promise<Buffer> {
+  const photo = await loadPhoto(image);
+  const layout = posterLayout(photo.width, photo.height, options);
+  if (layout.columns * layout.rows > MAX_POSTER_PAGES) {
+    throw new ValidationError([
+      {
+        path: "widthMm",
+        message: `A ${layout.columns} × ${layout.rows} page poster is over the ${MAX_POSTER_PAGES} page limit`,
+      },
+    ]);
+  }
+  const perMm = pixelsPerMm(layout.dpi);
+  const slice = {
+    width: Math.round(layout.printable.width * perMm),
+    height: Math.round(layout.printable.height * perMm),
+  };
+  if (slice.width * slice.height > MAX_EXPORT_PIXELS) {
+    throw new ValidationError([
+      { path: "dpi", message: `Pages at ${layout.dpi} dpi are over the ${MAX_EXPORT_PIXELS / 1e6} megapixel limit` },
+    ]);
+  }
+
+  const window = await loadWindow(image, photo);
+  const scale = (layout.poster.width * perMm) / window.scene.width;
+  const pageWidth = layout.page.width * POINTS_PER_MM;
+  const pageHeight = layout.page.height * POINTS_PER_MM;
+  const margin = PAGE_MARGIN_MM * POINTS_PER_MM;
+  const doc = new PDFDocument({
+    title: window.image.originalName || window.image.slug,
+    creator: "Stained Glass Gallery",
+  });
+  for (let row = 0; row < layout.rows; row++) {
+    for (let column = 0; column < layout.columns; column++) {
+      // One page of the poster at a time keeps memory to a page's worth
+      const canvas = createCanvas(slice.width, slice.height);
+      const ctx = canvas.getContext("2d");
+      ctx.fillStyle = "#fff";
+      ctx.fillRect(0, 0, slice.width, slice.height);
+      ctx.setTransform(scale, 0, 0, scale, -column * slice.width, -row * slice.height);
+      paint(ctx, window, scale, options.legend === true);
+
+      const page = beginPage(doc, pageWidth, pageHeight);
+      const width = Math.min(layout.printable.width, layout.poster.width - column * layout.printable.width);
+      const height = Math.min(layout.printable.height, layout.poster.height - row * layout.printable.height);
+      // Only the part of the slice the poster covers
+      page.drawImage(
+        canvas,
+        0,
+        0,
+        Math.min(slice.width, Math.round(width * perMm)),
+        Math.min(slice.height, Math.round(height * perMm)),
+        margin,
+        margin,
+        width * POINTS_PER_MM,
+        height * POINTS_PER_MM
+      );
+      if (layout.rows * layout.columns > 1) {
+        pageMarks(
+          page,
+          margin,
+          margin,
+          width * POINTS_PER_MM,
+          height * POINTS_PER_MM,
+          `Row ${row + 1} of ${layout.rows} · column ${column + 1} of ${layout.columns}`
+        );
+      }
+      doc.endPage();
+    }
+  }
+  if (options.legend) legendPages(doc, window, pageWidth, pageHeight);
+  return doc.close();
+}
+
+/* ── cut pattern ─────────────────────────────────────────── */
+
+/**
+ * The window's cut pattern as an SVG or DXF drawing, or its parts list
+ * as CSV, scaled to a real window `options.widthMm` wide.
+ */
+export function exportCutPattern(
+  image: ImageRecord,
+  options: ExportOptions & { format: CutPatternFormat }
+): Promise<string> {
+  return oneAtATime(() => renderCutPattern(image, options));
+}
+
+async function renderCutPattern(
+  image: ImageRecord,
+  options: ExportOptions & { format: CutPatternFormat }
+): Promise<string> {
+  if (options.widthMm === undefined) {
+    throw new ValidationError([{ path: "widthMm", message: "Required for a cut pattern" }]);
+  }
+  const layout = await loadLayout(image, await loadPhoto(image));
+  const { style, cells } = layout;
+
+  const colours = new Map<number, PieceColour>();
+  if ((options.colours ?? (style.palette === "fixed" ? "palette" : "sampled")) === "palette") {
+    const glass = style.glass ?? GLASS_PRESETS[0].colours;
+    matchGlass(cells, glass).forEach((index, id) => colours.set(id, glass[index]));
+  } else {
+    for (const { id, colour } of cells) if (colour) colours.set(id, { hex: rgbToHex(colour) });
+  }
+
+  const pattern = cutPattern(cells, layout.graph, layout, colours, {
+    widthMm: options.widthMm,
+    leadMm: options.leadMm ?? (style.lead === "copper-foil" ? FOIL_SEAM_MM : CAME_HEART_MM),
+  });
+  if (options.format === "svg") return cutPatternSvg(pattern, image.originalName || image.slug);
+  if (options.format === "dxf") return cutPatternDxf(pattern);
+  return partsListCsv(pattern);
+}
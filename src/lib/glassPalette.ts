@@ -0,0 +1,201 @@
+/**
+ * Fixed glass palettes. A window built from real sheets has a limited
+ * set of colours, so each piece is matched to the sheet nearest its
+ * photo colour in CIELAB, where distance follows perceived difference
+ * far better than in RGB. The palette report counts the pieces cut
+ * from each sheet, for material estimates.
+ */
+
+import { polygonArea, VoronoiCell } from "./delaunay";
+import { GlassColour, MAX_GLASS_COLOURS } from "./glassStyle";
+
+type RGB = [number, number, number];
+type Lab = [number, number, number];
+
+export interface GlassPreset {
+  id: string;
+  label: string;
+  colours: GlassColour[];
+}
+
+export const GLASS_PRESETS: GlassPreset[] = [
+  {
+    id: "cathedral",
+    label: "Cathedral (12)",
+    colours: [
+      { name: "Clear", hex: "#e8ecea" },
+      { name: "Light amber", hex: "#e9b65a" },
+      { name: "Gold", hex: "#d89a1e" },
+      { name: "Dark amber", hex: "#a8641c" },
+      { name: "Ruby", hex: "#9e1b2c" },
+      { name: "Rose", hex: "#d67a8e" },
+      { name: "Sky blue", hex: "#8fb8de" },
+      { name: "Cobalt", hex: "#1f3f99" },
+      { name: "Spring green", hex: "#9cc58a" },
+      { name: "Emerald", hex: "#1f7a4a" },
+      { name: "Violet", hex: "#5b2c83" },
+      { name: "Smoke", hex: "#4a4a4f" },
+    ],
+  },
+  {
+    id: "medieval",
+    label: "Medieval pot-metal (8)",
+    colours: [
+      { name: "White", hex: "#ddd8c4" },
+      { name: "Yellow stain", hex: "#d8a838" },
+      { name: "Flesh", hex: "#d9a88a" },
+      { name: "Ruby", hex: "#8c1020" },
+      { name: "Murrey", hex: "#6e2a4a" },
+      { name: "Sapphire", hex: "#1c3577" },
+      { name: "Pot-metal green", hex: "#2f6a36" },
+      { name: "Grisaille", hex: "#3a3630" },
+    ],
+  },
+];
+
+/* ── colour spaces ───────────────────────────────────────── */
+
+export function hexToRgb(hex: string): RGB {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+export function rgbToHex([r, g, b]: RGB): string {
+  return "#" + [r, g, b].map((v) => v.toString(16).padStart(2, "0")).join("");
+}
+
+/** sRGB → CIELAB under the D65 white point. */
+export function rgbToLab([r, g, b]: RGB): Lab {
+  const linear = (v: number) => {
+    v /= 255;
+    return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+  };
+  const lr = linear(r), lg = linear(g), lb = linear(b);
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047;
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883;
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const fx = f(x), fy = f(y), fz = f(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/* ── palettes ────────────────────────────────────────────── */
+
+/**
+ * Read a palette from text: a GIMP `.gpl` file (`R G B name` per line),
+ * a JSON array of `{ name, hex }`, or one `#rrggbb name` per line.
+ * Unnamed sheets are named after their hex code. Returns `null` when
+ * no colours are found or there are more than `MAX_GLASS_COLOURS`.
+ */
+export function parsePalette(text: string): GlassColour[] | null {
+  let colours: GlassColour[] = [];
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith("[")) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (!Array.isArray(parsed)) return null;
+      for (const entry of parsed) {
+        const hex = typeof entry?.hex === "string" ? entry.hex.trim() : "";
+        if (!/^#?[0-9a-f]{6}$/i.test(hex)) return null;
+        const normalized = `#${hex.replace("#", "").toLowerCase()}`;
+        const name = typeof entry.name === "string" && entry.name.trim() ? entry.name.trim() : normalized;
+        colours.push({ name: name.slice(0, 60), hex: normalized });
+      }
+    } catch {
+      return null;
+    }
+  } else {
+    for (const raw of trimmed.split(/\r?\n/)) {
+      const line = raw.trim();
+      const rgb = line.match(/^(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})\s*(.*)$/);
+      const hex = line.match(/^#?([0-9a-f]{6})\b[\s,;]*(.*)$/i);
+      let colour: RGB | null = null;
+      let name = "";
+      if (rgb) {
+        colour = [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+        if (colour.some((v) => v > 255)) continue;
+        name = rgb[4];
+      } else if (hex) {
+        colour = hexToRgb(`#${hex[1]}`);
+        name = hex[2];
+      }
+      if (!colour) continue; // headers and comments
+      const code = rgbToHex(colour);
+      colours.push({ name: (name.trim() || code).slice(0, 60), hex: code });
+    }
+  }
+
+  colours = colours.filter((c, i) => colours.findIndex((d) => d.hex === c.hex) === i);
+  return colours.length > 0 && colours.length <= MAX_GLASS_COLOURS ? colours : null;
+}
+
+/**
+ * Index into `glass` of the sheet nearest each piece's sampled colour,
+ * by CIE76 distance in CIELAB. Pieces without a colour are left out.
+ */
+export function matchGlass(cells: VoronoiCell[], glass: GlassColour[]): Map<number, number> {
+  const sheets = glass.map((g) => rgbToLab(hexToRgb(g.hex)));
+  const nearest = new Map<string, number>();
+  const matches = new Map<number, number>();
+  for (const { id, colour } of cells) {
+    if (!colour) continue;
+    const key = colour.join(",");
+    let best = nearest.get(key);
+    if (best === undefined) {
+      const [l, a, b] = rgbToLab(colour);
+      let bestDistance = Infinity;
+      sheets.forEach(([sl, sa, sb], i) => {
+        const d = (l - sl) ** 2 + (a - sa) ** 2 + (b - sb) ** 2;
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = i;
+        }
+      });
+      nearest.set(key, best!);
+    }
+    matches.set(id, best!);
+  }
+  return matches;
+}
+
+/* ── palette report ──────────────────────────────────────── */
+
+export interface PaletteReportRow {
+  colour: GlassColour;
+  panes: number;
+  /** Share of the glazed area, 0–1. */
+  area: number;
+}
+
+/**
+ * Panes and area per sheet, most-used first. Sheets the window does not
+ * use are listed with zero panes.
+ */
+export function paletteReport(
+  cells: VoronoiCell[],
+  glass: GlassColour[],
+  matches: Map<number, number>
+): PaletteReportRow[] {
+  const rows = glass.map((colour) => ({ colour, panes: 0, area: 0 }));
+  let total = 0;
+  for (const cell of cells) {
+    const index = matches.get(cell.id);
+    if (index === undefined) continue;
+    const area = polygonArea(cell.vertices);
+    rows[index].panes++;
+    rows[index].area += area;
+    total += area;
+  }
+  for (const row of rows) row.area = total > 0 ? row.area / total : 0;
+  return rows.sort((a, b) => b.panes - a.panes || b.area - a.area);
+}
+
+/** The report as CSV, for the fabricator. */
+export function paletteReportCsv(rows: PaletteReportRow[]): string {
+  const quote = (s: string) => (/[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s);
+  const lines = rows.map(
+    ({ colour, panes, area }) => `${quote(colour.name)},${colour.hex},${panes},${(area * 100).toFixed(1)}`
+  );
+  return ["Glass,Hex,Panes,Area %", ...lines].join("\n") + "\n";
+}
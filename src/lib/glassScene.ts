@@ -0,0 +1,201 @@
+/**
+ * How the window is painted, wherever it is drawn: the glass colour of
+ * each pane and of its leading, and the `GlassScene` a renderer turns
+ * into pixels. The viewer and the server-side export both build their
+ * scenes here, so a download looks like the window on screen.
+ */
+
+import type { CellGraph, Point, VoronoiCell } from "./delaunay";
+import { DISTINCT_GLASS, type GlassColour, type GlassStyle } from "./glassStyle";
+import { hexToRgb } from "./glassPalette";
+import { paneGrain } from "./glassTextures";
+import { leadPieces } from "./leadCame";
+import type { GlassScene } from "./renderers";
+
+type RGB = [number, number, number];
+
+export interface PaneFill {
+  colour: RGB;
+  opacity: number;
+}
+
+export interface GlassPaint {
+  /** Colour laid over the photo on each pane. */
+  fills: Map<number, PaneFill>;
+  /** Colour of each pane's leads and glow. */
+  edges: Map<number, RGB>;
+}
+
+/** Where pane colours come from besides the photo. */
+export interface GlassColouring {
+  /** Graph colour per pane, for `distinct-neighbours`. */
+  distinct: Map<number, number> | null;
+  /** Index into `glass` per pane, for `fixed`. */
+  matches: Map<number, number> | null;
+  glass: GlassColour[];
+}
+
+/** Annotated panes – anything with `has(cellId)`. */
+export interface FilledPanes {
+  has(cellId: number): boolean;
+}
+
+/* ── colour ──────────────────────────────────────────────── */
+
+/**
+ * Glass colours of the panes in `cells`, from their sampled colour.
+ * Annotated panes are vivid, the rest nearly clear; a fixed palette
+ * shows each sheet as it is, without boosting.
+ */
+export function paintGlass(cells: VoronoiCell[], filled: FilledPanes, colouring: GlassColouring): GlassPaint {
+  const sheets = colouring.glass.map((g) => hexToRgb(g.hex));
+  const fills = new Map<number, PaneFill>();
+  const edges = new Map<number, RGB>();
+
+  for (const { id, colour } of cells) {
+    if (!colour) continue;
+    const index = colouring.matches?.get(id);
+    const sheet = index === undefined ? undefined : sheets[index];
+
+    // With a distinct-neighbours palette hue and saturation come from
+    // the piece's glass; lightness follows the photo
+    let [h, s, l] = rgbToHsl(...colour);
+    const glass = colouring.distinct?.get(id);
+    if (glass !== undefined) [h, s] = rgbToHsl(...DISTINCT_GLASS[glass % DISTINCT_GLASS.length]);
+
+    // Boost saturation for a vivid stained-glass tint
+    const isFilled = filled.has(id);
+    const enhS = Math.min(1, isFilled ? s * 1.8 + 0.15 : s * 1.5 + 0.1);
+    const enhL = isFilled
+      ? Math.max(0.35, Math.min(0.85, l * 1.3))
+      : Math.max(0.18, Math.min(0.78, l));
+    fills.set(id, {
+      colour: sheet ?? hslToRgb(h, enhS, enhL),
+      opacity: isFilled ? 0.85 : 0.5,
+    });
+    edges.set(
+      id,
+      sheet ?? hslToRgb(h, Math.min(1, s * 1.5 + 0.1), Math.max(0.35, Math.min(0.85, l * 1.3)))
+    );
+  }
+  return { fills, edges };
+}
+
+/* ── scene ───────────────────────────────────────────────── */
+
+export interface SceneGeometry {
+  /** Panes in scene coordinates. */
+  cells: VoronoiCell[];
+  /** Shared edges of the layout the panes were scaled from. */
+  graph: CellGraph;
+  /** Scene units per layout pixel. */
+  scaleX: number;
+  scaleY: number;
+  width: number;
+  height: number;
+  /** Window outline in scene coordinates, or `null` for a rectangle. */
+  outline: Point[] | null;
+}
+
+/** Everything in the scene but the photo and the output resolution. */
+export function glassScene(
+  geometry: SceneGeometry,
+  paint: GlassPaint,
+  filled: FilledPanes,
+  style: GlassStyle
+): Omit<GlassScene, "image" | "dpr"> {
+  const { cells, graph, scaleX, scaleY, width, height } = geometry;
+
+  const panes: GlassScene["panes"] = [];
+  for (const { vertices, id } of cells) {
+    const fill = paint.fills.get(id);
+    if (fill) panes.push({ vertices, ...fill, grain: paneGrain(id) });
+  }
+
+  // Subtle thin lead, each line once, in the colour of both its pieces –
+  // unless came or foil takes its place
+  const lead = style.lead ?? "line";
+  const came = lead === "line" ? [] : leadPieces(cells, lead, width, height);
+  const leads: GlassScene["leads"] = [];
+  for (const { a, b, from, to } of graph.edges) {
+    const ca = paint.edges.get(a);
+    if (!ca || came.length > 0) continue;
+    const cb = (b !== null && paint.edges.get(b)) || ca;
+    leads.push({
+      from: { x: from.x * scaleX, y: from.y * scaleY },
+      to: { x: to.x * scaleX, y: to.y * scaleY },
+      colour: [(ca[0] + cb[0]) >> 1, (ca[1] + cb[1]) >> 1, (ca[2] + cb[2]) >> 1],
+      alpha: 0.25,
+    });
+  }
+
+  // Bright, prominent border for filled cells: lead colour blended 60% toward white
+  const glows: GlassScene["glows"] = [];
+  for (const { vertices, id } of cells) {
+    const edge = paint.edges.get(id);
+    if (!filled.has(id) || !edge) continue;
+    glows.push({
+      vertices,
+      colour: [
+        Math.round(edge[0] + (255 - edge[0]) * 0.6),
+        Math.round(edge[1] + (255 - edge[1]) * 0.6),
+        Math.round(edge[2] + (255 - edge[2]) * 0.6),
+      ],
+    });
+  }
+
+  return {
+    width,
+    height,
+    outline: geometry.outline,
+    panes,
+    texture: style.texture ?? "flat",
+    leads,
+    came,
+    glows,
+  };
+}
+
+/* ── colour helpers ──────────────────────────────────────── */
+
+function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+  r /= 255;
+  g /= 255;
+  b /= 255;
+  const max = Math.max(r, g, b),
+    min = Math.min(r, g, b);
+  let h = 0,
+    s = 0;
+  const l = (max + min) / 2;
+
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    if (max === r) h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
+    else if (max === g) h = ((b - r) / d + 2) / 6;
+    else h = ((r - g) / d + 4) / 6;
+  }
+  return [h, s, l];
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  if (s === 0) {
+    const v = Math.round(l * 255);
+    return [v, v, v];
+  }
+  const hue2rgb = (p: number, q: number, t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  return [
+    Math.round(hue2rgb(p, q, h + 1 / 3) * 255),
+    Math.round(hue2rgb(p, q, h) * 255),
+    Math.round(hue2rgb(p, q, h - 1 / 3) * 255),
+  ];
+}
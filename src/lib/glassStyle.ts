@@ -0,0 +1,78 @@
+/**
+ * Per-image look of the glass. The layout of the pieces lives in
+ * `TessellationSettings`; this covers how they are coloured.
+ */
+
+export const PALETTE_MODES = ["photo", "distinct-neighbours", "fixed"] as const;
+
+export type PaletteMode = (typeof PALETTE_MODES)[number];
+
+export const SAMPLING_MODES = ["seed", "mean", "median", "dominant"] as const;
+
+export type SamplingMode = (typeof SAMPLING_MODES)[number];
+
+export const GLASS_TEXTURES = ["flat", "cathedral", "seedy", "opalescent", "streaky"] as const;
+
+export type GlassTexture = (typeof GLASS_TEXTURES)[number];
+
+export const LEAD_STYLES = ["line", "came", "copper-foil"] as const;
+
+export type LeadStyle = (typeof LEAD_STYLES)[number];
+
+/** One sheet of glass in a fixed palette. */
+export interface GlassColour {
+  name: string;
+  /** `#rrggbb` */
+  hex: string;
+}
+
+/** Most sheets a fixed palette may hold. */
+export const MAX_GLASS_COLOURS = 64;
+
+export interface GlassStyle {
+  /**
+   * `photo` tints each piece with the photo's colour under it;
+   * `distinct-neighbours` picks from `DISTINCT_GLASS` so that no two
+   * neighbouring pieces match, keeping the photo's light and shade;
+   * `fixed` cuts each piece from the sheet in `glass` nearest its
+   * photo colour.
+   */
+  palette: PaletteMode;
+  /** Sheets for the `fixed` palette; `GLASS_PRESETS[0]` when unset. */
+  glass?: GlassColour[];
+  /**
+   * How a piece's colour is read from the photo: the pixel under its
+   * seed, or the mean, median or k-means dominant colour of everything
+   * it covers. Unset means `seed`, as styles saved before this existed.
+   */
+  sampling?: SamplingMode;
+  /**
+   * Surface of the glass, generated in the browser: hammered
+   * `cathedral`, `seedy` with bubbles, milky `opalescent` or `streaky`.
+   * Unset means `flat`.
+   */
+  texture?: GlassTexture;
+  /**
+   * How the pieces are joined: a thin `line`, bevelled lead `came` with
+   * soldered joints, or the narrow seams of Tiffany `copper-foil`.
+   * Unset means `line`.
+   */
+  lead?: LeadStyle;
+}
+
+/** Settings for images that never saved their own. */
+export function defaultGlassStyle(): GlassStyle {
+  return { palette: "photo" };
+}
+
+/** Glass colours for `distinct-neighbours`, by graph colour index. */
+export const DISTINCT_GLASS: ReadonlyArray<[number, number, number]> = [
+  [178, 34, 52], // ruby
+  [30, 80, 170], // cobalt
+  [222, 160, 30], // amber
+  [30, 130, 76], // emerald
+  [110, 50, 150], // violet
+  [20, 140, 150], // teal
+  [200, 90, 30], // flame
+  [120, 150, 40], // olive
+];
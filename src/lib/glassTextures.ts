@@ -0,0 +1,184 @@
+/**
+ * Procedural glass surfaces. Each texture is a small seamless tile of
+ * light and shade – white where the surface catches the light, black
+ * where it darkens, transparent elsewhere – laid over the tinted panes.
+ * Every pane shows the tile at its own angle and offset so the repeat
+ * never lines up across the window.
+ *
+ * Tiles are generated from fixed seeds, so every viewer and both
+ * renderers see exactly the same glass.
+ */
+
+import { createRandom } from "./delaunay";
+import type { GlassTexture } from "./glassStyle";
+
+/** Side of a texture tile, in CSS pixels. */
+export const TEXTURE_TILE = 256;
+
+/** Where a pane's texture sits: tile rotated by `angle`, origin at x, y. */
+export interface Grain {
+  angle: number;
+  x: number;
+  y: number;
+}
+
+/** Same grain for a pane every time, from its id. */
+export function paneGrain(id: number): Grain {
+  const random = createRandom(`grain:${id}`);
+  return {
+    angle: random() * Math.PI * 2,
+    x: random() * TEXTURE_TILE,
+    y: random() * TEXTURE_TILE,
+  };
+}
+
+/* ── noise ───────────────────────────────────────────────── */
+
+/**
+ * Value noise, 0–1, repeating every tile: `cellsX` × `cellsY` random
+ * lattice values smoothly interpolated.
+ */
+function periodicNoise(cellsX: number, cellsY: number, random: () => number): Float32Array {
+  const size = TEXTURE_TILE;
+  const lattice = Array.from({ length: cellsX * cellsY }, random);
+  const at = (i: number, j: number) => lattice[(j % cellsY) * cellsX + (i % cellsX)];
+  const fade = (t: number) => t * t * (3 - 2 * t);
+  const out = new Float32Array(size * size);
+  for (let y = 0; y < size; y++) {
+    const fy = (y / size) * cellsY;
+    const j = Math.floor(fy);
+    const ty = fade(fy - j);
+    for (let x = 0; x < size; x++) {
+      const fx = (x / size) * cellsX;
+      const i = Math.floor(fx);
+      const tx = fade(fx - i);
+      const top = at(i, j) + (at(i + 1, j) - at(i, j)) * tx;
+      const bottom = at(i, j + 1) + (at(i + 1, j + 1) - at(i, j + 1)) * tx;
+      out[y * size + x] = top + (bottom - top) * ty;
+    }
+  }
+  return out;
+}
+
+/** Octaves of `periodicNoise`, each `[cellsX, cellsY, weight]`. */
+function fractalNoise(octaves: Array<[number, number, number]>, random: () => number): Float32Array {
+  const out = new Float32Array(TEXTURE_TILE * TEXTURE_TILE);
+  const total = octaves.reduce((sum, [, , weight]) => sum + weight, 0);
+  for (const [cellsX, cellsY, weight] of octaves) {
+    const octave = periodicNoise(cellsX, cellsY, random);
+    for (let i = 0; i < out.length; i++) out[i] += (octave[i] * weight) / total;
+  }
+  return out;
+}
+
+const smoothstep = (from: number, to: number, x: number) => {
+  const t = Math.max(0, Math.min(1, (x - from) / (to - from)));
+  return t * t * (3 - 2 * t);
+};
+
+/* ── surfaces ────────────────────────────────────────────── */
+
+/**
+ * Light and shade from a height field lit from the top left, scaled
+ * so the steepest slope reaches `strength`.
+ */
+function relief(height: Float32Array, strength: number): Float32Array {
+  const size = TEXTURE_TILE;
+  const at = (x: number, y: number) => height[((y + size) % size) * size + ((x + size) % size)];
+  const shade = new Float32Array(size * size);
+  let steepest = 1e-6;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const s = -(at(x + 1, y) - at(x - 1, y)) - (at(x, y + 1) - at(x, y - 1));
+      shade[y * size + x] = s;
+      steepest = Math.max(steepest, Math.abs(s));
+    }
+  }
+  for (let i = 0; i < shade.length; i++) shade[i] *= strength / steepest;
+  return shade;
+}
+
+/** RGBA tile from signed shade: positive lightens, negative darkens. */
+function shadeTile(shade: Float32Array): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(shade.length * 4);
+  for (let i = 0; i < shade.length; i++) {
+    const s = shade[i];
+    const v = s > 0 ? 255 : 0;
+    rgba.set([v, v, v, Math.round(Math.abs(s) * 255)], i * 4);
+  }
+  return rgba;
+}
+
+function cathedral(random: () => number): Uint8ClampedArray {
+  // Hammered: overlapping shallow dimples at a few sizes
+  const height = fractalNoise([[12, 12, 0.5], [24, 24, 0.35], [48, 48, 0.15]], random);
+  return shadeTile(relief(height, 0.3));
+}
+
+function seedy(random: () => number): Uint8ClampedArray {
+  const size = TEXTURE_TILE;
+  const shade = relief(fractalNoise([[8, 8, 0.6], [16, 16, 0.4]], random), 0.08);
+  // Small trapped bubbles: a dark rim and a bright glint
+  for (let n = 0; n < 90; n++) {
+    const cx = random() * size;
+    const cy = random() * size;
+    const radius = 0.8 + random() ** 2 * 3.5;
+    const reach = Math.ceil(radius + 1);
+    for (let dy = -reach; dy <= reach; dy++) {
+      for (let dx = -reach; dx <= reach; dx++) {
+        const x = Math.floor(cx) + dx;
+        const y = Math.floor(cy) + dy;
+        const r = Math.hypot(x + 0.5 - cx, y + 0.5 - cy) / radius;
+        if (r >= 1) continue;
+        const glint = Math.hypot(x + 0.5 - (cx - 0.35 * radius), y + 0.5 - (cy - 0.35 * radius)) / radius;
+        const i = ((y + size) % size) * size + ((x + size) % size);
+        shade[i] = glint < 0.3 ? 0.65 : r > 0.65 ? -0.4 * smoothstep(0.65, 1, r) - 0.05 : 0.08;
+      }
+    }
+  }
+  return shadeTile(shade);
+}
+
+function opalescent(random: () => number): Uint8ClampedArray {
+  // Milky clouds that hold back much of the light
+  const cloud = fractalNoise([[2, 2, 0.5], [4, 4, 0.3], [8, 8, 0.2]], random);
+  const rgba = new Uint8ClampedArray(cloud.length * 4);
+  for (let i = 0; i < cloud.length; i++) {
+    const alpha = 0.15 + 0.4 * smoothstep(0.3, 0.75, cloud[i]);
+    rgba.set([255, 250, 240, Math.round(alpha * 255)], i * 4);
+  }
+  return rgba;
+}
+
+function streaky(random: () => number): Uint8ClampedArray {
+  // Long drawn-out streaks of white and darker glass, all one way
+  const streaks = fractalNoise([[2, 16, 0.6], [4, 40, 0.4]], random);
+  const shade = new Float32Array(streaks.length);
+  for (let i = 0; i < streaks.length; i++) {
+    const s = streaks[i];
+    shade[i] = 0.5 * smoothstep(0.55, 0.8, s) - 0.25 * smoothstep(0.45, 0.2, s);
+  }
+  return shadeTile(shade);
+}
+
+const GENERATORS: Record<Exclude<GlassTexture, "flat">, (random: () => number) => Uint8ClampedArray> = {
+  cathedral,
+  seedy,
+  opalescent,
+  streaky,
+};
+
+const tiles = new Map<GlassTexture, Uint8ClampedArray>();
+
+/**
+ * RGBA pixels (straight alpha) of the `TEXTURE_TILE`-square tile for
+ * `texture`, made once and then reused.
+ */
+export function textureTile(texture: Exclude<GlassTexture, "flat">): Uint8ClampedArray {
+  let tile = tiles.get(texture);
+  if (!tile) {
+    tile = GENERATORS[texture](createRandom(`texture:${texture}`));
+    tiles.set(texture, tile);
+  }
+  return tile;
+}
@@ -0,0 +1,112 @@
+/**
+ * Shared helpers for API route handlers: request body validation and
+ * mapping of library errors to structured JSON responses.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  CorruptDocumentError,
+  getImageByAlias,
+  getImageBySlug,
+  ImageRecord,
+} from "./db";
+import { parse, Schema, SchemaIssue, ValidationError } from "./schema";
+
+export function invalidBody(issues: SchemaIssue[]): NextResponse {
+  return NextResponse.json(
+    { error: "Invalid request body", issues },
+    { status: 400 }
+  );
+}
+
+/**
+ * Read and validate a JSON request body. Returns either the parsed
+ * value or a ready-made 400 response.
+ */
+export async function parseJsonBody<T>(
+  request: NextRequest,
+  schema: Schema<T>
+): Promise<{ value: T } | { response: NextResponse }> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { response: invalidBody([{ path: "", message: "Malformed JSON" }]) };
+  }
+  const result = parse(schema, body);
+  if (!result.ok) return { response: invalidBody(result.issues) };
+  return { value: result.value };
+}
+
+/**
+ * Look up the image a `[slug]` route refers to. Unknown slugs get a
+ * 404; old slugs kept as aliases get a 308 to the same URL under the
+ * image's current slug.
+ */
+export async function resolveImage(
+  request: NextRequest,
+  slug: string,
+  options: { includeTrashed?: boolean } = {}
+): Promise<{ image: ImageRecord } | { response: NextResponse }> {
+  const image = await getImageBySlug(slug, options);
+  if (image) return { image };
+
+  const aliased = await getImageByAlias(slug);
+  if (aliased && (options.includeTrashed || !aliased.trashedAt)) {
+    const url = request.nextUrl.clone();
+    const segments = url.pathname.split("/");
+    const idx = segments.findIndex((seg) => decodeURIComponent(seg) === slug);
+    segments[idx] = encodeURIComponent(aliased.slug);
+    url.pathname = segments.join("/");
+    return { response: NextResponse.redirect(url, 308) };
+  }
+
+  return {
+    response: NextResponse.json({ error: "Image not found" }, { status: 404 }),
+  };
+}
+
+/**
+ * Parse a cell id from a path segment or query parameter.
+ */
+export function parseCellId(raw: string): number | null {
+  if (!/^\d+$/.test(raw)) return null;
+  const id = Number(raw);
+  return Number.isSafeInteger(id) ? id : null;
+}
+
+const MAX_AUTHOR_LENGTH = 100;
+
+/**
+ * The free-form author label editors send (URI-encoded) in `X-Author`,
+ * recorded on annotation revisions.
+ */
+export function authorFrom(request: NextRequest): string {
+  const raw = request.headers.get("x-author") ?? "";
+  let label = raw;
+  try {
+    label = decodeURIComponent(raw);
+  } catch {
+    // not URI-encoded – use as sent
+  }
+  label = label.trim();
+  return label ? label.slice(0, MAX_AUTHOR_LENGTH) : "anonymous";
+}
+
+/**
+ * Fallback for a route's `catch` block.
+ */
+export function errorResponse(error: unknown): NextResponse {
+  if (error instanceof ValidationError) {
+    return invalidBody(error.issues);
+  }
+  if (error instanceof CorruptDocumentError) {
+    console.error(`Corrupt document ${error.key}:`, error.issues);
+    return NextResponse.json(
+      { error: error.message, corrupt: true, issues: error.issues },
+      { status: 500 }
+    );
+  }
+  const msg = error instanceof Error ? error.message : String(error);
+  return NextResponse.json({ error: msg }, { status: 500 });
+}
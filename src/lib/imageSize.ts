@@ -0,0 +1,71 @@
+/**
+ * Minimal image header parsing – reads pixel dimensions of PNG, GIF,
+ * JPEG and WebP files without decoding them.
+ */
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+function readPng(b: Uint8Array, v: DataView): ImageSize | null {
+  // 8-byte signature, then the IHDR chunk: length, "IHDR", width, height
+  if (b.length < 24 || v.getUint32(0) !== 0x89504e47) return null;
+  return { width: v.getUint32(16), height: v.getUint32(20) };
+}
+
+function readGif(b: Uint8Array, v: DataView): ImageSize | null {
+  if (b.length < 10 || String.fromCharCode(b[0], b[1], b[2]) !== "GIF") return null;
+  return { width: v.getUint16(6, true), height: v.getUint16(8, true) };
+}
+
+function readJpeg(b: Uint8Array, v: DataView): ImageSize | null {
+  if (b.length < 4 || b[0] !== 0xff || b[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 9 < b.length) {
+    if (b[offset] !== 0xff) return null;
+    const marker = b[offset + 1];
+    const length = v.getUint16(offset + 2);
+    // SOF0–SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: v.getUint16(offset + 5), width: v.getUint16(offset + 7) };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function readWebp(b: Uint8Array, v: DataView): ImageSize | null {
+  if (b.length < 30) return null;
+  const riff = String.fromCharCode(b[0], b[1], b[2], b[3]);
+  const webp = String.fromCharCode(b[8], b[9], b[10], b[11]);
+  if (riff !== "RIFF" || webp !== "WEBP") return null;
+  const chunk = String.fromCharCode(b[12], b[13], b[14], b[15]);
+  if (chunk === "VP8 ") {
+    return { width: v.getUint16(26, true) & 0x3fff, height: v.getUint16(28, true) & 0x3fff };
+  }
+  if (chunk === "VP8L") {
+    const bits = v.getUint32(21, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === "VP8X") {
+    const w = b[24] | (b[25] << 8) | (b[26] << 16);
+    const h = b[27] | (b[28] << 8) | (b[29] << 16);
+    return { width: w + 1, height: h + 1 };
+  }
+  return null;
+}
+
+/**
+ * Return the pixel dimensions encoded in an image's header, or `null`
+ * when the format is not recognised.
+ */
+export function readImageSize(bytes: Uint8Array): ImageSize | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return (
+    readPng(bytes, view) ??
+    readGif(bytes, view) ??
+    readJpeg(bytes, view) ??
+    readWebp(bytes, view)
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * Geometry for drawing the joins between pieces as real leadwork.
+ *
+ * Each pane gets a band just inside its edge; the bands of two
+ * neighbouring panes meet along the shared edge and together make the
+ * came. Each side of a band is shaded by which way it slopes, lit from
+ * the top left, so the came reads as a bevelled ridge. Came joints
+ * are soldered: a dull blob with a glint wherever pieces meet.
+ *
+ * Everything is plain coloured polygons, drawn in order, so both
+ * renderers produce the same result.
+ */
+
+import { insetPolygon, polygonArea, polygonPerimeter, type Point, type VoronoiCell } from "./delaunay";
+import type { LeadStyle } from "./glassStyle";
+
+type RGB = [number, number, number];
+
+export interface LeadPiece {
+  vertices: Point[];
+  colour: RGB;
+}
+
+interface LeadLook {
+  /** Band width inside each pane, as a share of the window's long side. */
+  band: number;
+  /** Narrowest band, in CSS pixels. */
+  minBand: number;
+  /** Colour of a band facing away from the light, and one facing it. */
+  dark: RGB;
+  light: RGB;
+  /** Soldered joints, or none. */
+  solder: { colour: RGB; glint: RGB } | null;
+}
+
+const LOOKS: Record<Exclude<LeadStyle, "line">, LeadLook> = {
+  came: {
+    band: 0.0025,
+    minBand: 1.2,
+    dark: [34, 34, 38],
+    light: [150, 150, 158],
+    solder: { colour: [104, 104, 110], glint: [196, 196, 204] },
+  },
+  "copper-foil": {
+    band: 0.001,
+    minBand: 0.7,
+    dark: [52, 36, 28],
+    light: [168, 118, 86],
+    solder: null,
+  },
+};
+
+/** Shades a band can take; fewer shades batch better on Canvas 2D. */
+const SHADES = 16;
+
+/** Direction the light comes from: the top left. */
+const LIGHT = { x: -Math.SQRT1_2, y: -Math.SQRT1_2 };
+
+const JOINT_SIDES = 12;
+
+function disc(centre: Point, radius: number): Point[] {
+  return Array.from({ length: JOINT_SIDES }, (_, i) => {
+    const angle = (i / JOINT_SIDES) * Math.PI * 2;
+    return { x: centre.x + Math.cos(angle) * radius, y: centre.y + Math.sin(angle) * radius };
+  });
+}
+
+const mix = (a: RGB, b: RGB, t: number): RGB => [
+  Math.round(a[0] + (b[0] - a[0]) * t),
+  Math.round(a[1] + (b[1] - a[1]) * t),
+  Math.round(a[2] + (b[2] - a[2]) * t),
+];
+
+/**
+ * One quad per pane edge between the edge and the same edge moved
+ * `width` inward, shaded by the edge's inward normal.
+ */
+function paneBand(vertices: Point[], width: number, look: LeadLook, out: Array<LeadPiece & { shade: number }>) {
+  // Keep thin slivers from turning inside out
+  const band = Math.min(width, (0.6 * polygonArea(vertices)) / polygonPerimeter(vertices));
+  if (!(band > 0)) return;
+  const shape = insetPolygon(vertices, band);
+  if (!shape) return;
+  const { vertices: points, inset, inward } = shape;
+  const n = points.length;
+
+  for (let i = 0; i < n; i++) {
+    const j = (i + 1) % n;
+    const facing = inward[i].x * LIGHT.x + inward[i].y * LIGHT.y;
+    const shade = Math.round(((facing + 1) / 2) * (SHADES - 1));
+    out.push({
+      vertices: [points[i], points[j], inset[j], inset[i]],
+      colour: mix(look.dark, look.light, shade / (SHADES - 1)),
+      shade,
+    });
+  }
+}
+
+/**
+ * Lead pieces for `cells` in a `width` × `height` window, in drawing
+ * order: bands grouped by shade, then solder joints and their glints.
+ */
+export function leadPieces(cells: VoronoiCell[], style: Exclude<LeadStyle, "line">, width: number, height: number): LeadPiece[] {
+  const look = LOOKS[style];
+  const band = Math.max(look.minBand, look.band * Math.max(width, height));
+
+  const bands: Array<LeadPiece & { shade: number }> = [];
+  for (const { vertices } of cells) paneBand(vertices, band, look, bands);
+  bands.sort((a, b) => a.shade - b.shade);
+  const pieces: LeadPiece[] = bands.map(({ vertices, colour }) => ({ vertices, colour }));
+  if (!look.solder) return pieces;
+
+  // Solder wherever two or more panes share a corner
+  const corners = new Map<string, { at: Point; count: number }>();
+  for (const { vertices } of cells) {
+    for (const p of vertices) {
+      const key = `${Math.round(p.x * 100)},${Math.round(p.y * 100)}`;
+      const corner = corners.get(key);
+      if (corner) corner.count++;
+      else corners.set(key, { at: p, count: 1 });
+    }
+  }
+  const joints = Array.from(corners.values()).filter((c) => c.count >= 2).map((c) => c.at);
+  const radius = band * 1.6;
+  for (const at of joints) pieces.push({ vertices: disc(at, radius), colour: look.solder.colour });
+  for (const at of joints) {
+    const glint = { x: at.x - radius * 0.35, y: at.y - radius * 0.35 };
+    pieces.push({ vertices: disc(glint, radius * 0.35), colour: look.solder.glint });
+  }
+  return pieces;
+}
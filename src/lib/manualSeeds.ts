@@ -0,0 +1,318 @@
+/**
+ * Hand-edited layouts. Once a designer starts moving pieces around, the
+ * layout is stored as its seed set instead of being regenerated from
+ * settings. Seeds are in normalized image coordinates so the set fits
+ * the image at any size.
+ *
+ * Seeds sharing a `piece` label are drawn as one merged piece. A seed
+ * also remembers the annotation on its piece, so editing the layout
+ * never hands an annotation to a different piece.
+ */
+
+import { Point, polygonArea, polygonCentroid, VoronoiCell, voronoiFromSeeds } from "./delaunay";
+
+export interface ManualSeed {
+  x: number;
+  y: number;
+  /** Merge label; seeds with the same label form one piece. */
+  piece?: number;
+  /** Key of the annotation on this seed's piece. */
+  annotation?: number;
+}
+
+/** Fewest seeds a hand-edited layout may be reduced to. */
+export const MIN_MANUAL_SEEDS = 2;
+
+/* ── helpers ─────────────────────────────────────────────── */
+
+const vertexKey = (p: Point) => `${p.x.toFixed(3)},${p.y.toFixed(3)}`;
+
+function normalize(p: Point, width: number, height: number): Point {
+  const clamp = (v: number) => Math.max(1e-6, Math.min(1 - 1e-6, v));
+  return { x: clamp(p.x / width), y: clamp(p.y / height) };
+}
+
+/**
+ * Id of the cell a seed ends up in: merged pieces take the lowest index
+ * among their seeds.
+ */
+function pieceIds(seeds: ManualSeed[]): number[] {
+  const first = new Map<number, number>();
+  return seeds.map((s, i) => {
+    if (s.piece === undefined) return i;
+    if (!first.has(s.piece)) first.set(s.piece, i);
+    return first.get(s.piece)!;
+  });
+}
+
+/** Indices of the seeds making up the piece shown as cell `cellId`. */
+function membersOf(seeds: ManualSeed[], cellId: number): number[] {
+  const ids = pieceIds(seeds);
+  return seeds.map((_, i) => i).filter((i) => ids[i] === cellId);
+}
+
+function nextPieceLabel(seeds: ManualSeed[]): number {
+  return seeds.reduce((max, s) => Math.max(max, (s.piece ?? -1) + 1), 0);
+}
+
+/**
+ * Union of polygons that tile a region edge-to-edge: edges shared by two
+ * of them cancel, the rest are chained back into outlines. Returns the
+ * largest outline.
+ */
+function unionPolygons(polygons: Point[][]): Point[] {
+  const edges = new Map<string, { from: Point; to: Point; toKey: string }>();
+  for (const vertices of polygons) {
+    for (let i = 0; i < vertices.length; i++) {
+      const a = vertices[i];
+      const b = vertices[(i + 1) % vertices.length];
+      const ka = vertexKey(a), kb = vertexKey(b);
+      if (ka === kb) continue;
+      const reverse = `${kb}>${ka}`;
+      if (edges.has(reverse)) edges.delete(reverse);
+      else edges.set(`${ka}>${kb}`, { from: a, to: b, toKey: kb });
+    }
+  }
+
+  const byStart = new Map<string, Array<{ from: Point; to: Point; toKey: string }>>();
+  edges.forEach((edge, k) => {
+    const start = k.slice(0, k.indexOf(">"));
+    if (!byStart.has(start)) byStart.set(start, []);
+    byStart.get(start)!.push(edge);
+  });
+
+  let best: Point[] = [];
+  byStart.forEach((list, start) => {
+    while (list.length > 0) {
+      const ring: Point[] = [];
+      let edge = list.pop()!;
+      ring.push(edge.from);
+      for (let guard = 0; edge.toKey !== start && guard < edges.size; guard++) {
+        const next = byStart.get(edge.toKey)?.pop();
+        if (!next) break;
+        ring.push(next.from);
+        edge = next;
+      }
+      if (ring.length >= 3 && polygonArea(ring) > polygonArea(best)) best = ring;
+    }
+  });
+  return best;
+}
+
+/** The part of `vertices` on the left of the directed line a → b. */
+function halfPlane(vertices: Point[], a: Point, b: Point): Point[] {
+  const side = (p: Point) => (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+  const out: Point[] = [];
+  for (let i = 0; i < vertices.length; i++) {
+    const p = vertices[i];
+    const q = vertices[(i + 1) % vertices.length];
+    const sp = side(p), sq = side(q);
+    if (sp >= 0) out.push(p);
+    if (sp >= 0 !== sq >= 0) {
+      const t = sp / (sp - sq);
+      out.push({ x: p.x + t * (q.x - p.x), y: p.y + t * (q.y - p.y) });
+    }
+  }
+  return out;
+}
+
+/** Whether two cells share an edge (two or more vertices). */
+function sharesEdge(a: VoronoiCell, b: VoronoiCell): boolean {
+  const keys = new Set(a.vertices.map(vertexKey));
+  return b.vertices.filter((p) => keys.has(vertexKey(p))).length >= 2;
+}
+
+/* ── building cells ──────────────────────────────────────── */
+
+/**
+ * Cells for a hand-edited `width` × `height` layout: the Voronoi cells
+ * of the seeds, with merged pieces joined into one cell.
+ */
+export function manualCells(seeds: ManualSeed[], width: number, height: number): VoronoiCell[] {
+  const cells = voronoiFromSeeds(
+    seeds.map((s) => ({ x: s.x * width, y: s.y * height })),
+    width,
+    height
+  );
+  const ids = pieceIds(seeds);
+  const groups = new Map<number, VoronoiCell[]>();
+  for (const cell of cells) {
+    const id = ids[cell.id];
+    if (!groups.has(id)) groups.set(id, []);
+    groups.get(id)!.push(cell);
+  }
+
+  const merged: VoronoiCell[] = [];
+  groups.forEach((group, id) => {
+    if (group.length === 1) {
+      merged.push({ ...group[0], id });
+      return;
+    }
+    const vertices = unionPolygons(group.map((c) => c.vertices));
+    if (vertices.length < 3) return;
+    const seed = (group.find((c) => c.id === id) ?? group[0]).seed;
+    merged.push({ id, seed, vertices });
+  });
+  return merged.sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Annotation key pinned to each cell id of a hand-edited layout.
+ */
+export function pinnedAnnotations(seeds: ManualSeed[]): Map<number, number> {
+  const ids = pieceIds(seeds);
+  const pinned = new Map<number, number>();
+  seeds.forEach((s, i) => {
+    if (s.annotation !== undefined && !pinned.has(ids[i])) pinned.set(ids[i], s.annotation);
+  });
+  return pinned;
+}
+
+/* ── editing ─────────────────────────────────────────────── */
+
+/**
+ * Seeds reproducing a generated layout of `width` × `height`, one per
+ * cell in order, carrying the annotations bound to them (`keys` maps
+ * cell id → annotation key).
+ */
+export function seedsFromCells(
+  cells: VoronoiCell[],
+  width: number,
+  height: number,
+  keys: Map<number, number>
+): ManualSeed[] {
+  return cells.map((cell) => {
+    const key = keys.get(cell.id);
+    const p = normalize(cell.seed, width, height);
+    return key === undefined ? p : { ...p, annotation: key };
+  });
+}
+
+/**
+ * Re-record which annotation sits on which piece, for annotations added
+ * or removed since the seeds were saved.
+ */
+export function withAnnotations(seeds: ManualSeed[], keys: Map<number, number>): ManualSeed[] {
+  return seeds.map((s, i) => {
+    const { annotation: _, ...rest } = s;
+    const key = keys.get(i);
+    return key === undefined ? rest : { ...rest, annotation: key };
+  });
+}
+
+export function moveSeed(
+  seeds: ManualSeed[],
+  index: number,
+  to: Point,
+  width: number,
+  height: number
+): ManualSeed[] {
+  return seeds.map((s, i) => (i === index ? { ...s, ...normalize(to, width, height) } : s));
+}
+
+export function addSeed(seeds: ManualSeed[], at: Point, width: number, height: number): ManualSeed[] {
+  return [...seeds, normalize(at, width, height)];
+}
+
+/**
+ * Remove a seed. Its annotation passes to another seed of the same
+ * merged piece, if there is one; otherwise the annotation's anchor
+ * decides where it goes.
+ */
+export function removeSeed(seeds: ManualSeed[], index: number): ManualSeed[] {
+  if (seeds.length <= MIN_MANUAL_SEEDS) return seeds;
+  const removed = seeds[index];
+  const heir =
+    removed.annotation !== undefined && removed.piece !== undefined
+      ? seeds.findIndex((s, i) => i !== index && s.piece === removed.piece)
+      : -1;
+  return seeds
+    .map((s, i) => (i === heir ? { ...s, annotation: removed.annotation } : s))
+    .filter((_, i) => i !== index);
+}
+
+/**
+ * Join the pieces shown as cells `a` and `b` into one. Returns null
+ * when they are not neighbours. The merged piece keeps `a`'s
+ * annotation, or `b`'s when `a` has none.
+ */
+export function mergePieces(
+  seeds: ManualSeed[],
+  cells: VoronoiCell[],
+  a: number,
+  b: number
+): ManualSeed[] | null {
+  const cellA = cells.find((c) => c.id === a);
+  const cellB = cells.find((c) => c.id === b);
+  if (!cellA || !cellB || a === b || !sharesEdge(cellA, cellB)) return null;
+
+  const membersA = membersOf(seeds, a);
+  const membersB = membersOf(seeds, b);
+  const label = seeds[a].piece ?? seeds[b].piece ?? nextPieceLabel(seeds);
+  const annotated = [...membersA, ...membersB].find((i) => seeds[i].annotation !== undefined);
+  const joined = new Set([...membersA, ...membersB]);
+
+  return seeds.map((s, i) => {
+    if (!joined.has(i)) return s;
+    const { annotation: _, ...rest } = s;
+    return i === annotated ? { ...rest, piece: label, annotation: s.annotation } : { ...rest, piece: label };
+  });
+}
+
+/**
+ * Split the piece shown as `cell` along the line through `a` and `b`
+ * (image coordinates). A merged piece is divided between its seeds; a
+ * single seed is replaced by two mirrored across the line, so the
+ * border between them runs exactly along it. Returns null when the
+ * line misses the piece or would cut off a sliver.
+ */
+export function splitPiece(
+  seeds: ManualSeed[],
+  cell: VoronoiCell,
+  a: Point,
+  b: Point,
+  width: number,
+  height: number
+): ManualSeed[] | null {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length < 1e-6) return null;
+  const left = halfPlane(cell.vertices, a, b);
+  const right = halfPlane(cell.vertices, b, a);
+  const area = polygonArea(cell.vertices);
+  if (left.length < 3 || right.length < 3) return null;
+  if (polygonArea(left) < area * 0.02 || polygonArea(right) < area * 0.02) return null;
+
+  // Unit normal pointing to the left of a → b
+  const nx = -(b.y - a.y) / length;
+  const ny = (b.x - a.x) / length;
+  const offset = (p: Point) => (p.x - a.x) * nx + (p.y - a.y) * ny;
+
+  const members = membersOf(seeds, cell.id);
+  if (members.length > 1) {
+    const onLeft = members.filter((i) => offset({ x: seeds[i].x * width, y: seeds[i].y * height }) >= 0);
+    if (onLeft.length === 0 || onLeft.length === members.length) return null;
+    const label = nextPieceLabel(seeds);
+    return seeds.map((s, i) => (onLeft.includes(i) ? { ...s, piece: label } : s));
+  }
+
+  const c1 = polygonCentroid(left);
+  const c2 = polygonCentroid(right);
+  if (!c1 || !c2) return null;
+  // Mirror pair around the line, level with the halves' centroids
+  const d = (Math.abs(offset(c1)) + Math.abs(offset(c2))) / 2;
+  const along = (p: Point) => ({ x: p.x - offset(p) * nx, y: p.y - offset(p) * ny });
+  const f1 = along(c1), f2 = along(c2);
+  const m = { x: (f1.x + f2.x) / 2, y: (f1.y + f2.y) / 2 };
+  const leftSeed = { x: m.x + nx * d, y: m.y + ny * d };
+  const rightSeed = { x: m.x - nx * d, y: m.y - ny * d };
+
+  // The original seed's side keeps its annotation
+  const index = members[0];
+  const keepLeft = offset(cell.seed) >= 0;
+  const kept = keepLeft ? leftSeed : rightSeed;
+  const added = keepLeft ? rightSeed : leftSeed;
+  return [
+    ...seeds.map((s, i) => (i === index ? { ...s, ...normalize(kept, width, height) } : s)),
+    normalize(added, width, height),
+  ];
+}
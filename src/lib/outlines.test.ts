@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { generateVoronoiCells, pointInPolygon, Point, polygonArea } from "./delaunay";
+import { clipCellsToOutline, outlinePolygon, parseSvgPath } from "./outlines";
+
+const WIDTH = 600;
+const HEIGHT = 600;
+
+const star: Point[] = Array.from({ length: 10 }, (_, i) => {
+  const r = i % 2 ? 120 : 290;
+  const a = (i * Math.PI) / 5 - Math.PI / 2;
+  return { x: 300 + r * Math.cos(a), y: 300 + r * Math.sin(a) };
+});
+
+const totalArea = (polygons: Point[][]) => polygons.reduce((sum, p) => sum + polygonArea(p), 0);
+
+describe("parseSvgPath", () => {
+  it("flattens each subpath into its own polygon", () => {
+    const paths = parseSvgPath("M0 0 H10 V10 H0 Z m20 0 l10 0 l0 10 z");
+    expect(paths).toEqual([
+      [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+        { x: 0, y: 10 },
+      ],
+      [
+        { x: 20, y: 0 },
+        { x: 30, y: 0 },
+        { x: 30, y: 10 },
+      ],
+    ]);
+  });
+
+  it("approximates curves closely", () => {
+    const [circle] = parseSvgPath("M0 -10 A10 10 0 1 1 0 10 A10 10 0 1 1 0 -10 Z")!;
+    expect(Math.abs(polygonArea(circle) / (Math.PI * 100) - 1)).toBeLessThan(0.01);
+  });
+
+  it("rejects malformed data", () => {
+    expect(parseSvgPath("L 10 10")).toBeNull();
+    expect(parseSvgPath("")).toBeNull();
+  });
+});
+
+describe("outlinePolygon", () => {
+  it("is null for the plain rectangle", () => {
+    expect(outlinePolygon(undefined, WIDTH, HEIGHT)).toBeNull();
+    expect(outlinePolygon({ shape: "rectangle" }, WIDTH, HEIGHT)).toBeNull();
+  });
+
+  it.each(["arch", "round", "lancet"] as const)("keeps the %s inside the layout", (shape) => {
+    const polygon = outlinePolygon({ shape }, WIDTH, 400)!;
+    for (const p of polygon) {
+      expect(p.x).toBeGreaterThanOrEqual(-1e-9);
+      expect(p.x).toBeLessThanOrEqual(WIDTH + 1e-9);
+      expect(p.y).toBeGreaterThanOrEqual(-1e-9);
+      expect(p.y).toBeLessThanOrEqual(400 + 1e-9);
+    }
+  });
+
+  it("fits a custom path to the layout, keeping its aspect ratio", () => {
+    const polygon = outlinePolygon({ shape: "custom", path: "M0 0 H2 V1 H0 Z" }, WIDTH, HEIGHT)!;
+    expect(polygonArea(polygon)).toBeCloseTo(WIDTH * (WIDTH / 2), -2);
+  });
+});
+
+describe("clipCellsToOutline", () => {
+  it("fills a convex outline exactly", () => {
+    const round = outlinePolygon({ shape: "round" }, WIDTH, HEIGHT)!;
+    const cells = clipCellsToOutline(generateVoronoiCells(WIDTH, HEIGHT, 40), round);
+    expect(totalArea(cells.map((c) => c.vertices))).toBeCloseTo(polygonArea(round), 0);
+  });
+
+  it.each([8, 20, 60])("fills a concave outline without holes (%i cells)", (count) => {
+    const cells = generateVoronoiCells(WIDTH, HEIGHT, count);
+    const clipped = clipCellsToOutline(cells, star);
+    expect(totalArea(clipped.map((c) => c.vertices))).toBeCloseTo(polygonArea(star), 0);
+  });
+
+  it("turns every part of a split cell into a piece with its own id", () => {
+    // A bar across the star's two lower points, with its seed between them
+    const bar = {
+      id: 4,
+      seed: { x: 300, y: 465 },
+      vertices: [
+        { x: 0, y: 450 },
+        { x: 600, y: 450 },
+        { x: 600, y: 480 },
+        { x: 0, y: 480 },
+      ],
+    };
+    // New ids start past the highest in use, here the tip's
+    const tip = { id: 9, seed: { x: 300, y: 30 }, vertices: bar.vertices.map((p) => ({ x: p.x, y: p.y - 440 })) };
+    const clipped = clipCellsToOutline([bar, tip], star);
+    expect(clipped.map((c) => c.id).sort((a, b) => a - b)).toEqual([4, 9, 10]);
+    expect(new Set(clipped.map((c) => c.id)).size).toBe(clipped.length);
+    for (const cell of clipped) {
+      expect(pointInPolygon(cell.seed.x, cell.seed.y, cell.vertices)).toBe(true);
+    }
+  });
+
+  it("drops cells entirely outside the outline", () => {
+    const corner = {
+      id: 3,
+      seed: { x: 5, y: 5 },
+      vertices: [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+        { x: 0, y: 10 },
+      ],
+    };
+    expect(clipCellsToOutline([corner], star)).toEqual([]);
+  });
+});
@@ -0,0 +1,525 @@
+/**
+ * Window outlines – the shape of the opening the glass is set in.
+ * Built-in arch, round and lancet shapes, or any closed SVG path. Cells
+ * are clipped to the outline and the renderer masks and frames along it.
+ *
+ * Outlines are computed in layout coordinates, so they fit the image's
+ * `width` × `height` box the same way on every screen.
+ */
+
+import { interiorPoint, Point, polygonArea, pointInPolygon, VoronoiCell } from "./delaunay";
+
+export const OUTLINE_SHAPES = ["rectangle", "arch", "round", "lancet", "custom"] as const;
+
+export type OutlineShape = (typeof OUTLINE_SHAPES)[number];
+
+export interface WindowOutline {
+  shape: OutlineShape;
+  /** SVG path data (`d`) for `custom`; scaled to fit the image. */
+  path?: string;
+}
+
+/** Segments used for a quarter turn of any curve. */
+const CURVE_STEPS = 16;
+
+/* ── built-in shapes ─────────────────────────────────────── */
+
+function arc(
+  cx: number, cy: number,
+  rx: number, ry: number,
+  from: number, to: number
+): Point[] {
+  const n = Math.max(2, Math.ceil((Math.abs(to - from) / (Math.PI / 2)) * CURVE_STEPS));
+  return Array.from({ length: n + 1 }, (_, i) => {
+    const a = from + ((to - from) * i) / n;
+    return { x: cx + rx * Math.cos(a), y: cy + ry * Math.sin(a) };
+  });
+}
+
+/** Round arch: a semicircle (flattened if the box is short) on straight sides. */
+function archPolygon(width: number, height: number): Point[] {
+  const rise = Math.min(width / 2, height * 0.6);
+  return [
+    { x: 0, y: height },
+    ...arc(width / 2, rise, width / 2, rise, Math.PI, 2 * Math.PI),
+    { x: width, y: height },
+  ];
+}
+
+/** Lancet: an equilateral pointed arch on straight sides. */
+function lancetPolygon(width: number, height: number): Point[] {
+  // Each side is an arc of radius `width` centred on the opposite springer
+  const rise = Math.min(width * Math.sin(Math.PI / 3), height * 0.7);
+  const sy = rise / (width * Math.sin(Math.PI / 3));
+  const left = arc(width, rise, width, width * sy, Math.PI, (4 * Math.PI) / 3);
+  const right = arc(0, rise, width, width * sy, (5 * Math.PI) / 3, 2 * Math.PI);
+  return [{ x: 0, y: height }, ...left, ...right.slice(1), { x: width, y: height }];
+}
+
+/** Circle as large as the box allows, centred. */
+function roundPolygon(width: number, height: number): Point[] {
+  const r = Math.min(width, height) / 2;
+  return arc(width / 2, height / 2, r, r, 0, 2 * Math.PI).slice(0, -1);
+}
+
+/* ── SVG path data ───────────────────────────────────────── */
+
+/**
+ * Flatten SVG path data into closed polygons, one per subpath. Supports
+ * every path command (M L H V C S Q T A Z, absolute and relative).
+ * Returns `null` for malformed data.
+ */
+export function parseSvgPath(d: string): Point[][] | null {
+  const tokens = d.match(/[MLHVCSQTAZmlhvcsqtaz]|-?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g);
+  if (!tokens || !/^[Mm]$/.test(tokens[0])) return null;
+
+  const paths: Point[][] = [];
+  let current: Point[] = [];
+  let x = 0, y = 0, startX = 0, startY = 0;
+  let lastControl: Point | null = null;
+  let lastCommand = "";
+  let i = 0;
+  let command = "";
+
+  const num = (): number => {
+    const t = tokens[i++];
+    const v = Number(t);
+    if (t === undefined || Number.isNaN(v)) throw new Error("bad path");
+    return v;
+  };
+  const flush = () => {
+    if (current.length >= 3) paths.push(current);
+    current = [];
+  };
+  const cubic = (c1: Point, c2: Point, end: Point) => {
+    const p0 = { x, y };
+    for (let s = 1; s <= CURVE_STEPS; s++) {
+      const t = s / CURVE_STEPS, u = 1 - t;
+      current.push({
+        x: u * u * u * p0.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * end.x,
+        y: u * u * u * p0.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * end.y,
+      });
+    }
+  };
+  const quadratic = (c: Point, end: Point) => {
+    const p0 = { x, y };
+    for (let s = 1; s <= CURVE_STEPS; s++) {
+      const t = s / CURVE_STEPS, u = 1 - t;
+      current.push({
+        x: u * u * p0.x + 2 * u * t * c.x + t * t * end.x,
+        y: u * u * p0.y + 2 * u * t * c.y + t * t * end.y,
+      });
+    }
+  };
+  // Endpoint → centre parameterization (SVG spec, appendix F.6.5)
+  const elliptical = (
+    rx: number, ry: number, rotation: number,
+    largeArc: boolean, sweep: boolean, end: Point
+  ) => {
+    if (rx === 0 || ry === 0) {
+      current.push(end);
+      return;
+    }
+    const phi = (rotation * Math.PI) / 180;
+    const cos = Math.cos(phi), sin = Math.sin(phi);
+    const dx = (x - end.x) / 2, dy = (y - end.y) / 2;
+    const x1 = cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    const scale = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (scale > 1) {
+      rx *= Math.sqrt(scale);
+      ry *= Math.sqrt(scale);
+    }
+    const num2 = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const k = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num2 / den));
+    const cx1 = (k * rx * y1) / ry;
+    const cy1 = (-k * ry * x1) / rx;
+    const cx = cos * cx1 - sin * cy1 + (x + end.x) / 2;
+    const cy = sin * cx1 + cos * cy1 + (y + end.y) / 2;
+    const angle = (ux: number, uy: number, vx: number, vy: number) =>
+      Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+    let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+    if (!sweep && delta > 0) delta -= 2 * Math.PI;
+    if (sweep && delta < 0) delta += 2 * Math.PI;
+    const n = Math.max(2, Math.ceil((Math.abs(delta) / (Math.PI / 2)) * CURVE_STEPS));
+    for (let s = 1; s <= n; s++) {
+      const a = start + (delta * s) / n;
+      const px = rx * Math.cos(a), py = ry * Math.sin(a);
+      current.push({ x: cos * px - sin * py + cx, y: sin * px + cos * py + cy });
+    }
+  };
+
+  try {
+    while (i < tokens.length) {
+      if (/^[A-Za-z]$/.test(tokens[i])) command = tokens[i++];
+      else if (!command) return null;
+      const rel = command === command.toLowerCase();
+      const ox = rel ? x : 0, oy = rel ? y : 0;
+      const C = command.toUpperCase();
+      const smooth = (C === "S" && /[CS]/i.test(lastCommand)) || (C === "T" && /[QT]/i.test(lastCommand));
+      const reflected: Point = smooth && lastControl
+        ? { x: 2 * x - lastControl.x, y: 2 * y - lastControl.y }
+        : { x, y };
+      let control: Point | null = null;
+
+      switch (C) {
+        case "M": {
+          flush();
+          x = startX = ox + num();
+          y = startY = oy + num();
+          current.push({ x, y });
+          // Further pairs after a moveto are linetos
+          command = rel ? "l" : "L";
+          break;
+        }
+        case "L": {
+          x = ox + num();
+          y = oy + num();
+          current.push({ x, y });
+          break;
+        }
+        case "H": {
+          x = ox + num();
+          current.push({ x, y });
+          break;
+        }
+        case "V": {
+          y = oy + num();
+          current.push({ x, y });
+          break;
+        }
+        case "C": {
+          const c1 = { x: ox + num(), y: oy + num() };
+          const c2 = { x: ox + num(), y: oy + num() };
+          const end = { x: ox + num(), y: oy + num() };
+          cubic(c1, c2, end);
+          control = c2;
+          x = end.x;
+          y = end.y;
+          break;
+        }
+        case "S": {
+          const c2 = { x: ox + num(), y: oy + num() };
+          const end = { x: ox + num(), y: oy + num() };
+          cubic(reflected, c2, end);
+          control = c2;
+          x = end.x;
+          y = end.y;
+          break;
+        }
+        case "Q": {
+          const c = { x: ox + num(), y: oy + num() };
+          const end = { x: ox + num(), y: oy + num() };
+          quadratic(c, end);
+          control = c;
+          x = end.x;
+          y = end.y;
+          break;
+        }
+        case "T": {
+          const end = { x: ox + num(), y: oy + num() };
+          quadratic(reflected, end);
+          control = reflected;
+          x = end.x;
+          y = end.y;
+          break;
+        }
+        case "A": {
+          const rx = num(), ry = num(), rotation = num();
+          const largeArc = num() !== 0, sweep = num() !== 0;
+          const end = { x: ox + num(), y: oy + num() };
+          elliptical(rx, ry, rotation, largeArc, sweep, end);
+          x = end.x;
+          y = end.y;
+          break;
+        }
+        case "Z": {
+          x = startX;
+          y = startY;
+          flush();
+          current.push({ x, y });
+          break;
+        }
+        default:
+          return null;
+      }
+      lastControl = control;
+      lastCommand = C;
+    }
+  } catch {
+    return null;
+  }
+  flush();
+  return paths.length > 0 ? paths : null;
+}
+
+/* ── outline polygon ─────────────────────────────────────── */
+
+/**
+ * The outline as a polygon in `width` × `height` layout coordinates,
+ * or `null` for the plain rectangle (and for unusable custom paths).
+ * A custom path's largest subpath is scaled to fit, keeping its aspect
+ * ratio, and centred.
+ */
+export function outlinePolygon(
+  outline: WindowOutline | undefined,
+  width: number,
+  height: number
+): Point[] | null {
+  switch (outline?.shape) {
+    case undefined:
+    case "rectangle":
+      return null;
+    case "arch":
+      return archPolygon(width, height);
+    case "lancet":
+      return lancetPolygon(width, height);
+    case "round":
+      return roundPolygon(width, height);
+    case "custom": {
+      const paths = outline.path ? parseSvgPath(outline.path) : null;
+      if (!paths) return null;
+      const largest = paths.reduce((a, b) => (polygonArea(b) > polygonArea(a) ? b : a));
+      if (polygonArea(largest) <= 0) return null;
+      const xs = largest.map((p) => p.x), ys = largest.map((p) => p.y);
+      const minX = Math.min(...xs), minY = Math.min(...ys);
+      const w = Math.max(...xs) - minX, h = Math.max(...ys) - minY;
+      // A hair inside the box, so the outline never runs along its edges
+      const scale = Math.min(width / w, height / h) * 0.9999;
+      const offX = (width - w * scale) / 2, offY = (height - h * scale) / 2;
+      return largest.map((p) => ({
+        x: offX + (p.x - minX) * scale,
+        y: offY + (p.y - minY) * scale,
+      }));
+    }
+  }
+}
+
+/* ── clipping ────────────────────────────────────────────── */
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+function isConvex(polygon: Point[]): boolean {
+  let sign = 0;
+  const n = polygon.length;
+  for (let i = 0; i < n; i++) {
+    const c = cross(polygon[i], polygon[(i + 1) % n], polygon[(i + 2) % n]);
+    if (Math.abs(c) < 1e-9) continue;
+    if (sign === 0) sign = Math.sign(c);
+    else if (Math.sign(c) !== sign) return false;
+  }
+  return true;
+}
+
+/** Sutherland-Hodgman against each edge of a convex clip polygon. */
+function clipConvex(subject: Point[], clip: Point[]): Point[] {
+  // Orient so "inside" is always to the left of each edge
+  let orientation = 0;
+  for (let i = 0; i < clip.length; i++) {
+    const a = clip[i], b = clip[(i + 1) % clip.length];
+    orientation += a.x * b.y - b.x * a.y;
+  }
+  const sign = orientation >= 0 ? 1 : -1;
+
+  let output = subject;
+  for (let i = 0; i < clip.length && output.length > 0; i++) {
+    const a = clip[i], b = clip[(i + 1) % clip.length];
+    const inside = (p: Point) => sign * cross(a, b, p) >= 0;
+    const intersect = (p: Point, q: Point): Point => {
+      const cp = cross(a, b, p), cq = cross(a, b, q);
+      const t = cp / (cp - cq);
+      return { x: p.x + t * (q.x - p.x), y: p.y + t * (q.y - p.y) };
+    };
+    const input = output;
+    output = [];
+    let prev = input[input.length - 1];
+    for (const curr of input) {
+      if (inside(curr)) {
+        if (!inside(prev)) output.push(intersect(prev, curr));
+        output.push(curr);
+      } else if (inside(prev)) {
+        output.push(intersect(prev, curr));
+      }
+      prev = curr;
+    }
+  }
+  return output;
+}
+
+/** A vertex in one of Greiner-Hormann's doubly linked rings. */
+class ClipNode {
+  next: ClipNode = this;
+  prev: ClipNode = this;
+  entry = false;
+  visited = false;
+  /** The same intersection in the other ring. */
+  neighbor: ClipNode | null = null;
+
+  constructor(
+    public p: Point,
+    public intersect = false,
+    /** Position along its edge, 0–1, for ordering intersections. */
+    public alpha = 0
+  ) {}
+}
+
+function linkedRing(points: Point[]): ClipNode[] {
+  const nodes = points.map((p) => new ClipNode(p));
+  nodes.forEach((node, i) => {
+    node.next = nodes[(i + 1) % nodes.length];
+    node.prev = nodes[(i + nodes.length - 1) % nodes.length];
+  });
+  return nodes;
+}
+
+/**
+ * Move the vertices of `points` that lie on an edge of `polygon` a
+ * hair off it.
+ */
+function nudgeOff(points: Point[], polygon: Point[], eps: number): Point[] {
+  return points.map((p) => {
+    for (let i = 0; i < polygon.length; i++) {
+      const a = polygon[i], b = polygon[(i + 1) % polygon.length];
+      const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+      const t = ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / (len * len);
+      if (t >= -1e-9 && t <= 1 + 1e-9 && Math.abs(cross(a, b, p)) / len < eps) {
+        return { x: p.x + eps * 3.1, y: p.y + eps * 2.3 };
+      }
+    }
+    return p;
+  });
+}
+
+/**
+ * Greiner-Hormann intersection of two simple polygons, for concave
+ * outlines. Vertices of either polygon lying on an edge of the other
+ * are nudged off it first – the algorithm cannot handle those
+ * degenerate cases.
+ */
+function clipGeneral(subject: Point[], outline: Point[]): Point[][] {
+  const eps = 1e-7 * Math.max(1, ...outline.map((p) => Math.abs(p.x) + Math.abs(p.y)));
+  const nudged = nudgeOff(subject, outline, eps);
+  const clip = nudgeOff(outline, nudged, eps);
+
+  const subj = linkedRing(nudged);
+  const clp = linkedRing(clip);
+  const subjEdges: ClipNode[][] = subj.map(() => []);
+  const clipEdges: ClipNode[][] = clp.map(() => []);
+
+  for (let i = 0; i < subj.length; i++) {
+    const a = subj[i].p, b = subj[(i + 1) % subj.length].p;
+    for (let j = 0; j < clp.length; j++) {
+      const c = clp[j].p, d = clp[(j + 1) % clp.length].p;
+      const den = (b.x - a.x) * (d.y - c.y) - (b.y - a.y) * (d.x - c.x);
+      if (Math.abs(den) < 1e-12) continue;
+      const ta = ((c.x - a.x) * (d.y - c.y) - (c.y - a.y) * (d.x - c.x)) / den;
+      const tc = ((c.x - a.x) * (b.y - a.y) - (c.y - a.y) * (b.x - a.x)) / den;
+      if (ta <= 0 || ta >= 1 || tc <= 0 || tc >= 1) continue;
+      const p = { x: a.x + ta * (b.x - a.x), y: a.y + ta * (b.y - a.y) };
+      const s = new ClipNode(p, true, ta);
+      const k = new ClipNode(p, true, tc);
+      s.neighbor = k;
+      k.neighbor = s;
+      subjEdges[i].push(s);
+      clipEdges[j].push(k);
+    }
+  }
+
+  const splice = (ring: ClipNode[], edges: ClipNode[][]) => {
+    ring.forEach((node, i) => {
+      const after = node.next;
+      let prev = node;
+      for (const x of edges[i].sort((a, b) => a.alpha - b.alpha)) {
+        prev.next = x;
+        x.prev = prev;
+        prev = x;
+      }
+      prev.next = after;
+      after.prev = prev;
+    });
+  };
+  splice(subj, subjEdges);
+  splice(clp, clipEdges);
+
+  if (subjEdges.every((e) => e.length === 0)) {
+    if (pointInPolygon(nudged[0].x, nudged[0].y, clip)) return [subject];
+    if (pointInPolygon(clip[0].x, clip[0].y, nudged)) return [clip];
+    return [];
+  }
+
+  const markEntries = (start: ClipNode, other: Point[]) => {
+    let entry = !pointInPolygon(start.p.x, start.p.y, other);
+    let node = start;
+    do {
+      if (node.intersect) {
+        node.entry = entry;
+        entry = !entry;
+      }
+      node = node.next;
+    } while (node !== start);
+  };
+  markEntries(subj[0], clip);
+  markEntries(clp[0], nudged);
+
+  const results: Point[][] = [];
+  for (;;) {
+    let start: ClipNode | null = null;
+    let node = subj[0];
+    do {
+      if (node.intersect && !node.visited) {
+        start = node;
+        break;
+      }
+      node = node.next;
+    } while (node !== subj[0]);
+    if (!start) break;
+
+    const polygon: Point[] = [start.p];
+    let current = start;
+    do {
+      current.visited = true;
+      current.neighbor!.visited = true;
+      const forward = current.entry;
+      do {
+        current = forward ? current.next : current.prev;
+        polygon.push(current.p);
+      } while (!current.intersect);
+      current = current.neighbor!;
+    } while (!current.visited);
+    polygon.pop(); // back at the start point
+    results.push(polygon);
+  }
+  return results;
+}
+
+/**
+ * Clip every cell to `outline` (a polygon from `outlinePolygon`). Cells
+ * left outside are dropped; a cell whose seed ends up outside its
+ * clipped shape is re-seeded inside it. A cell that a concave outline
+ * cuts apart keeps its id on its largest part, and every other part
+ * becomes a piece of its own with an id past the highest in use.
+ */
+export function clipCellsToOutline(cells: VoronoiCell[], outline: Point[]): VoronoiCell[] {
+  const convex = isConvex(outline);
+  let nextId = cells.reduce((max, cell) => Math.max(max, cell.id + 1), 0);
+  const out: VoronoiCell[] = [];
+  for (const cell of cells) {
+    // Anything smaller is rounding left over from the clip, not glass
+    const minArea = polygonArea(cell.vertices) * 1e-6;
+    const parts = (convex ? [clipConvex(cell.vertices, outline)] : clipGeneral(cell.vertices, outline))
+      .filter((part) => part.length >= 3 && polygonArea(part) > minArea)
+      .sort((a, b) => polygonArea(b) - polygonArea(a));
+    parts.forEach((part, i) => {
+      const seed = i === 0 && pointInPolygon(cell.seed.x, cell.seed.y, part) ? cell.seed : interiorPoint(part);
+      if (!seed) return;
+      out.push({ id: i === 0 ? cell.id : nextId++, seed, vertices: part });
+    });
+  }
+  return out;
+}
@@ -0,0 +1,164 @@
+import type { Point } from "../delaunay";
+import type { GlassTexture } from "../glassStyle";
+import {
+  GLOW,
+  LEAD_WIDTH,
+  textureCanvas,
+  type GlassRenderer,
+  type GlassScene,
+  type SceneImage,
+} from ".";
+
+type Matrix2D = { a: number; b: number; c: number; d: number; e: number; f: number };
+
+/**
+ * The parts of a Canvas 2D context `paintScene` draws with, so the
+ * browser's context and @napi-rs/canvas's both fit as they are.
+ * `Source` is what the context draws images from and `Style` its
+ * gradients and patterns.
+ */
+export interface Paintable2D<Source, Style> {
+  fillStyle: string | Style;
+  strokeStyle: string | Style;
+  lineWidth: number;
+  lineJoin: CanvasLineJoin;
+  shadowColor: string;
+  shadowBlur: number;
+  save(): void;
+  restore(): void;
+  beginPath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  closePath(): void;
+  clip(): void;
+  fill(): void;
+  stroke(): void;
+  drawImage(
+    image: Source,
+    sx: number, sy: number, sw: number, sh: number,
+    dx: number, dy: number, dw: number, dh: number
+  ): void;
+  createPattern(
+    image: Source,
+    repetition: "repeat"
+  ): (Style & { setTransform(matrix: Matrix2D): void }) | null;
+}
+
+function tracePolygon<Source, Style>(ctx: Paintable2D<Source, Style>, vertices: Point[]) {
+  ctx.beginPath();
+  ctx.moveTo(vertices[0].x, vertices[0].y);
+  for (let i = 1; i < vertices.length; i++) ctx.lineTo(vertices[i].x, vertices[i].y);
+  ctx.closePath();
+}
+
+/**
+ * Draw `scene` in its own units onto `ctx`, which the caller has
+ * already sized, cleared and transformed. `tile` supplies the canvas
+ * holding each texture's tile. Also used by the server-side export,
+ * which passes its scale as `shadowScale` – `shadowBlur` ignores the
+ * transform, and glows should keep their size in the scene.
+ */
+export function paintScene<Source, Style>(
+  ctx: Paintable2D<Source, Style>,
+  scene: GlassScene<Source & SceneImage>,
+  tile: (texture: Exclude<GlassTexture, "flat">) => Source,
+  shadowScale = 1
+): void {
+  const { width, height } = scene;
+  ctx.save();
+  if (scene.outline) {
+    tracePolygon(ctx, scene.outline);
+    ctx.clip();
+  }
+
+  const { image } = scene;
+  ctx.drawImage(image, 0, 0, image.width, image.height, 0, 0, width, height);
+
+  for (const { vertices, colour: [r, g, b], opacity } of scene.panes) {
+    tracePolygon(ctx, vertices);
+    ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${opacity})`;
+    ctx.fill();
+  }
+
+  const pattern =
+    scene.texture === "flat" ? null : ctx.createPattern(tile(scene.texture), "repeat");
+  if (pattern) {
+    for (const { vertices, grain } of scene.panes) {
+      const cos = Math.cos(grain.angle), sin = Math.sin(grain.angle);
+      pattern.setTransform({ a: cos, b: sin, c: -sin, d: cos, e: grain.x, f: grain.y });
+      tracePolygon(ctx, vertices);
+      ctx.fillStyle = pattern;
+      ctx.fill();
+    }
+  }
+
+  // Runs of one colour share a path
+  for (let i = 0; i < scene.came.length; ) {
+    const [r, g, b] = scene.came[i].colour;
+    ctx.beginPath();
+    for (; i < scene.came.length && scene.came[i].colour.join() === `${r},${g},${b}`; i++) {
+      const { vertices } = scene.came[i];
+      ctx.moveTo(vertices[0].x, vertices[0].y);
+      for (let k = 1; k < vertices.length; k++) ctx.lineTo(vertices[k].x, vertices[k].y);
+      ctx.closePath();
+    }
+    ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+    ctx.fill();
+  }
+
+  ctx.lineJoin = "round";
+  ctx.lineWidth = LEAD_WIDTH;
+  for (const { from, to, colour: [r, g, b], alpha } of scene.leads) {
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${alpha})`;
+    ctx.stroke();
+  }
+
+  for (const { vertices, colour: [r, g, b] } of scene.glows) {
+    tracePolygon(ctx, vertices);
+    ctx.shadowColor = `rgba(${r}, ${g}, ${b}, 1)`;
+    ctx.shadowBlur = GLOW.blur * shadowScale;
+    ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${GLOW.strokeAlpha})`;
+    ctx.lineWidth = GLOW.strokeWidth;
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+
+    tracePolygon(ctx, vertices);
+    ctx.strokeStyle = `rgba(255, 255, 255, ${GLOW.coreAlpha})`;
+    ctx.lineWidth = GLOW.coreWidth;
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/**
+ * Canvas 2D renderer: every pane is a filled path and the glow comes
+ * from `shadowBlur`. Works everywhere, but slows down on big windows.
+ */
+export function createCanvasRenderer(): GlassRenderer {
+  const canvas = document.createElement("canvas");
+
+  const render = (scene: GlassScene): boolean => {
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return false;
+    const { width, height, dpr } = scene;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    paintScene(ctx, scene, textureCanvas);
+    return true;
+  };
+
+  return {
+    name: "canvas",
+    canvas,
+    render,
+    dispose: () => {
+      canvas.width = 0;
+      canvas.height = 0;
+    },
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Renderers for the window's base layer – the photo, the tinted panes
+ * and their texture, the leads and the glow around annotated panes. Hover, selection and
+ * editing overlays are painted on top by `StainedGlass` itself, and
+ * hit-testing never looks at pixels, so both renderers agree on which
+ * pane is under the pointer.
+ *
+ * Two renderers ship:
+ *   - `webgl`  – WebGL 2; panes are triangulated once into buffers and
+ *                tint, leads and glow are drawn in shaders
+ *   - `canvas` – Canvas 2D, for browsers without WebGL 2
+ *
+ * WebGL is used when it is available, software implementations
+ * included. `?renderer=canvas` (or `webgl`) in the page URL overrides
+ * the choice.
+ *
+ * Both must produce the same output and hit-test results. Hit-testing
+ * is shared, and `renderers.test.ts` draws the same scenes with both in
+ * headless Chromium on software WebGL and compares the pixels: they may
+ * differ only by antialiasing, a mean under 1.5 of 255 per channel.
+ */
+
+import type { Point } from "../delaunay";
+import type { GlassTexture } from "../glassStyle";
+import { TEXTURE_TILE, textureTile, type Grain } from "../glassTextures";
+import type { LeadPiece } from "../leadCame";
+import { createCanvasRenderer } from "./canvas2d";
+import { createWebglRenderer } from "./webgl";
+
+type RGB = [number, number, number];
+
+/** The photo under the panes: the page's image, or the export's headless one. */
+export interface SceneImage {
+  width: number;
+  height: number;
+}
+
+/** Everything in the base layer, in CSS pixels. */
+export interface GlassScene<Image extends SceneImage = HTMLImageElement> {
+  width: number;
+  height: number;
+  /** Device pixels per CSS pixel. */
+  dpr: number;
+  image: Image;
+  /** Nothing is drawn outside a shaped window. */
+  outline: Point[] | null;
+  /** Colour laid over the photo on each pane. */
+  panes: Array<{ vertices: Point[]; colour: RGB; opacity: number; grain: Grain }>;
+  /** Surface laid over every pane, each at its own `grain`. */
+  texture: GlassTexture;
+  /** Thin leads, each shared edge once. */
+  leads: Array<{ from: Point; to: Point; colour: RGB; alpha: number }>;
+  /** Came or foil, opaque and in order, instead of thin leads. */
+  came: LeadPiece[];
+  /** Glowing borders of annotated panes, drawn last. */
+  glows: Array<{ vertices: Point[]; colour: RGB }>;
+}
+
+export type RendererName = "webgl" | "canvas";
+
+export interface GlassRenderer {
+  name: RendererName;
+  /** Holds the rendered base layer at device resolution. */
+  canvas: HTMLCanvasElement;
+  /** Render the scene; returns false if it could not, e.g. on context loss. */
+  render(scene: GlassScene): boolean;
+  dispose(): void;
+}
+
+/* ── shared look ─────────────────────────────────────────── */
+
+export const LEAD_WIDTH = 1;
+
+/** Glow around annotated panes: a blurred band under a coloured stroke and a white core. */
+export const GLOW = {
+  blur: 10,
+  strokeWidth: 3.5,
+  strokeAlpha: 0.8,
+  coreWidth: 1.8,
+  coreAlpha: 0.9,
+};
+
+const textureCanvases = new Map<GlassTexture, HTMLCanvasElement>();
+
+/** The texture's tile on a canvas, for patterns and texture uploads. */
+export function textureCanvas(texture: Exclude<GlassTexture, "flat">): HTMLCanvasElement {
+  let canvas = textureCanvases.get(texture);
+  if (!canvas) {
+    canvas = document.createElement("canvas");
+    canvas.width = TEXTURE_TILE;
+    canvas.height = TEXTURE_TILE;
+    const pixels = new ImageData(TEXTURE_TILE, TEXTURE_TILE);
+    pixels.data.set(textureTile(texture));
+    canvas.getContext("2d")!.putImageData(pixels, 0, 0);
+    textureCanvases.set(texture, canvas);
+  }
+  return canvas;
+}
+
+/* ── choosing ────────────────────────────────────────────── */
+
+function requestedRenderer(): RendererName | null {
+  if (typeof window === "undefined") return null;
+  const requested = new URLSearchParams(window.location.search).get("renderer");
+  return requested === "webgl" || requested === "canvas" ? requested : null;
+}
+
+/**
+ * The renderer to draw with: WebGL when the browser supports it, Canvas
+ * 2D otherwise or when `fallback` is set (after WebGL failed).
+ */
+export function createGlassRenderer(fallback = false): GlassRenderer {
+  if (!fallback && requestedRenderer() !== "canvas") {
+    const webgl = createWebglRenderer();
+    if (webgl) return webgl;
+  }
+  return createCanvasRenderer();
+}
@@ -0,0 +1,179 @@
+import { createCanvas } from "@napi-rs/canvas";
+import chromium from "@sparticuz/chromium";
+import { build } from "esbuild";
+import { fileURLToPath } from "node:url";
+import puppeteer, { type Browser, type Page } from "puppeteer-core";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { colourCells } from "../cellColours";
+import { cellGraph } from "../delaunay";
+import { glassScene, paintGlass } from "../glassScene";
+import type { GlassStyle } from "../glassStyle";
+import { outlinePolygon, type WindowOutline } from "../outlines";
+import { tessellate, type TessellationSettings } from "../tessellation";
+import type { GlassRenderer, GlassScene } from ".";
+
+declare global {
+  interface Window {
+    renderers: { webgl: () => GlassRenderer | null; canvas: () => GlassRenderer };
+  }
+}
+
+const WIDTH = 320;
+const HEIGHT = 240;
+
+let browser: Browser | null = null;
+let page: Page;
+
+/**
+ * Both renderers in headless Chromium, whose WebGL 2 is SwiftShader –
+ * a software implementation, so the test needs no GPU.
+ */
+beforeAll(async () => {
+  const bundle = await build({
+    stdin: {
+      contents: `import { createWebglRenderer } from "./webgl";
+        import { createCanvasRenderer } from "./canvas2d";
+        window.renderers = { webgl: createWebglRenderer, canvas: createCanvasRenderer };`,
+      resolveDir: fileURLToPath(new URL(".", import.meta.url)),
+      loader: "ts",
+    },
+    bundle: true,
+    write: false,
+    format: "iife",
+  });
+  browser = await puppeteer.launch({
+    executablePath: await chromium.executablePath(),
+    args: chromium.args,
+    headless: "shell",
+  });
+  page = await browser.newPage();
+  await page.addScriptTag({ content: bundle.outputFiles[0].text });
+}, 120_000);
+
+afterAll(async () => {
+  await browser?.close();
+});
+
+/** A photo with soft gradients and hard edges, as a PNG data URL and its pixels. */
+const PHOTO = (() => {
+  const canvas = createCanvas(WIDTH, HEIGHT);
+  const ctx = canvas.getContext("2d");
+  const gradient = ctx.createLinearGradient(0, 0, WIDTH, HEIGHT);
+  gradient.addColorStop(0, "#e8b040");
+  gradient.addColorStop(0.5, "#3a7bd5");
+  gradient.addColorStop(1, "#4a2060");
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  ctx.fillStyle = "#f4f0e0";
+  ctx.beginPath();
+  ctx.arc(WIDTH * 0.3, HEIGHT * 0.4, 50, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = "#203018";
+  ctx.fillRect(WIDTH * 0.55, HEIGHT * 0.5, 90, 70);
+  return {
+    url: canvas.toDataURL("image/png"),
+    pixels: ctx.getImageData(0, 0, WIDTH, HEIGHT),
+  };
+})();
+
+/** A window as the viewer builds it, with every third pane annotated. */
+function scene(style: GlassStyle, outline?: WindowOutline): Omit<GlassScene, "image" | "dpr"> {
+  const { pixels } = PHOTO;
+  const settings: TessellationSettings = {
+    algorithm: "jittered-grid",
+    cellCount: 40,
+    seed: "renderers",
+    jitter: 0.6,
+    outline,
+  };
+  const cells = colourCells(tessellate(settings, WIDTH, HEIGHT, pixels), pixels, WIDTH, HEIGHT, "seed");
+  const filled = new Set(cells.filter((_, i) => i % 3 === 0).map((cell) => cell.id));
+  const paint = paintGlass(cells, filled, { distinct: null, matches: null, glass: [] });
+  return glassScene(
+    {
+      cells,
+      graph: cellGraph(cells),
+      scaleX: 1,
+      scaleY: 1,
+      width: WIDTH,
+      height: HEIGHT,
+      outline: outlinePolygon(outline, WIDTH, HEIGHT),
+    },
+    paint,
+    filled,
+    style
+  );
+}
+
+/** Both renderers' pixels for `base` at `dpr`, RGBA and unpremultiplied. */
+async function renderBoth(base: Omit<GlassScene, "image" | "dpr">, dpr: number) {
+  return page.evaluate(
+    async (base, url, dpr) => {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      const scene = { ...base, image, dpr };
+      const pixels = (renderer: GlassRenderer | null) => {
+        if (!renderer?.render(scene)) return null;
+        const { width, height } = renderer.canvas;
+        const ctx = Object.assign(document.createElement("canvas"), { width, height }).getContext("2d")!;
+        ctx.drawImage(renderer.canvas, 0, 0);
+        return Array.from(ctx.getImageData(0, 0, width, height).data);
+      };
+      return { webgl: pixels(window.renderers.webgl()), canvas: pixels(window.renderers.canvas()) };
+    },
+    base,
+    PHOTO.url,
+    dpr
+  );
+}
+
+/** Mean difference of every channel of every pixel, out of 255. */
+function meanDifference(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length;
+}
+
+/** Share of pixels with some channel off by more than `threshold`. */
+function shareOff(a: number[], b: number[], threshold: number): number {
+  let off = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    for (let c = 0; c < 4; c++) {
+      if (Math.abs(a[i + c] - b[i + c]) > threshold) {
+        off++;
+        break;
+      }
+    }
+  }
+  return off / (a.length / 4);
+}
+
+const cases: Array<{ name: string; style: GlassStyle; outline?: WindowOutline; dpr: number }> = [
+  { name: "thin leads and glows", style: { palette: "photo" }, dpr: 1 },
+  {
+    name: "came, a texture and an arch",
+    style: { palette: "photo", lead: "came", texture: "streaky" },
+    outline: { shape: "arch" },
+    dpr: 1,
+  },
+  {
+    name: "copper foil and a texture at 2x",
+    style: { palette: "photo", lead: "copper-foil", texture: "seedy" },
+    dpr: 2,
+  },
+];
+
+describe.each(cases)("WebGL and Canvas 2D renderers, $name", ({ style, outline, dpr }) => {
+  it("draw the same pixels", { timeout: 30_000 }, async () => {
+    const { webgl, canvas } = await renderBoth(scene(style, outline), dpr);
+    expect(webgl).not.toBeNull();
+    expect(canvas).not.toBeNull();
+    expect(webgl!.length).toBe(WIDTH * HEIGHT * dpr * dpr * 4);
+    // Edges and glow rims differ by antialiasing alone; a glow blurred
+    // twice as wide moves 15% of the pixels by more than 8
+    expect(meanDifference(webgl!, canvas!)).toBeLessThan(1.5);
+    expect(shareOff(webgl!, canvas!, 8)).toBeLessThan(0.06);
+    expect(shareOff(webgl!, canvas!, 64)).toBeLessThan(0.001);
+  });
+});
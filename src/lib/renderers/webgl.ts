@@ -0,0 +1,518 @@
+import { triangulatePolygon, type Point } from "../delaunay";
+import type { GlassTexture } from "../glassStyle";
+import { TEXTURE_TILE } from "../glassTextures";
+import { GLOW, LEAD_WIDTH, textureCanvas, type GlassRenderer, type GlassScene } from ".";
+
+/* ── shaders ──────────────────────────────────────────────
+ * Positions are in CSS pixels. The photo is uploaded at the
+ * canvas's device resolution and read one texel per pixel, so
+ * it matches what Canvas 2D draws. Texture tiles are turned and
+ * shifted per pane exactly as a Canvas 2D pattern would be. Came is
+ * drawn as opaque panes. Leads and glows are quads
+ * around each edge whose fragment shader works out the distance
+ * to the edge and turns it into antialiased coverage.
+ * ──────────────────────────────────────────────────────── */
+
+const TO_CLIP = `
+uniform vec2 u_size;
+vec4 toClip(vec2 p) {
+  return vec4(p.x / u_size.x * 2.0 - 1.0, 1.0 - p.y / u_size.y * 2.0, 0.0, 1.0);
+}`;
+
+const FILL_VERTEX = `#version 300 es
+layout(location = 0) in vec2 a_position;
+layout(location = 1) in vec4 a_colour;
+out vec4 v_colour;
+${TO_CLIP}
+void main() {
+  v_colour = a_colour;
+  gl_Position = toClip(a_position);
+}`;
+
+// The photo with the pane's colour laid over it (premultiplied)
+const FILL_FRAGMENT = `#version 300 es
+precision highp float;
+uniform sampler2D u_image;
+uniform vec2 u_backing;
+in vec4 v_colour;
+out vec4 outColour;
+void main() {
+  vec2 uv = vec2(gl_FragCoord.x, u_backing.y - gl_FragCoord.y) / u_backing;
+  vec4 photo = texture(u_image, uv);
+  outColour = vec4(v_colour.rgb * v_colour.a, v_colour.a) + photo * (1.0 - v_colour.a);
+}`;
+
+const GRAIN_VERTEX = `#version 300 es
+layout(location = 0) in vec2 a_position;
+layout(location = 1) in vec3 a_grain; // angle, origin
+uniform float u_tile;
+out vec2 v_uv;
+${TO_CLIP}
+void main() {
+  vec2 d = a_position - a_grain.yz;
+  float c = cos(a_grain.x), s = sin(a_grain.x);
+  v_uv = vec2(c * d.x + s * d.y, -s * d.x + c * d.y) / u_tile;
+  gl_Position = toClip(a_position);
+}`;
+
+const GRAIN_FRAGMENT = `#version 300 es
+precision highp float;
+uniform sampler2D u_grain;
+in vec2 v_uv;
+out vec4 outColour;
+void main() {
+  outColour = texture(u_grain, v_uv);
+}`;
+
+const STROKE_VERTEX = `#version 300 es
+layout(location = 0) in vec2 a_position;
+layout(location = 1) in vec2 a_local;
+layout(location = 2) in float a_length;
+layout(location = 3) in vec4 a_colour;
+layout(location = 4) in float a_depth;
+out vec2 v_local;
+out float v_length;
+out vec4 v_colour;
+out float v_depth;
+${TO_CLIP}
+void main() {
+  v_local = a_local;
+  v_length = a_length;
+  v_colour = a_colour;
+  v_depth = a_depth;
+  gl_Position = toClip(a_position);
+}`;
+
+// Leads: a band with butt ends. Glows: a round-capped band, its
+// gaussian shadow and a white core, composited as Canvas 2D would.
+// Depth is the distance to the edge, so the nearest edge of a pane
+// wins where two of its edges overlap.
+const STROKE_FRAGMENT = `#version 300 es
+precision highp float;
+uniform bool u_glow;
+uniform float u_dpr;
+uniform float u_leadHalfWidth;
+uniform vec4 u_glowShape; // stroke half-width, core half-width, shadow sigma, reach
+uniform vec2 u_glowAlpha; // stroke, core
+uniform float u_depthStep;
+in vec2 v_local;
+in float v_length;
+in vec4 v_colour;
+in float v_depth;
+out vec4 outColour;
+
+float erf(float x) {
+  float s = sign(x);
+  x = abs(x);
+  float t = 1.0 / (1.0 + 0.3275911 * x);
+  float y = 1.0 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * exp(-x * x);
+  return s * y;
+}
+
+float coverage(float halfWidth, float d) {
+  return clamp((halfWidth - d) * u_dpr + 0.5, 0.0, 1.0);
+}
+
+void main() {
+  if (!u_glow) {
+    float a = v_colour.a * coverage(u_leadHalfWidth, abs(v_local.y));
+    outColour = vec4(v_colour.rgb * a, a);
+    gl_FragDepth = gl_FragCoord.z;
+    return;
+  }
+  float beyond = max(0.0, max(-v_local.x, v_local.x - v_length));
+  float d = length(vec2(beyond, v_local.y));
+  float h = u_glowShape.x;
+  float k = 1.0 / (u_glowShape.z * sqrt(2.0));
+  float shadow = u_glowAlpha.x * 0.5 * (erf((h - d) * k) - erf((-h - d) * k));
+  float band = u_glowAlpha.x * coverage(h, d);
+  float core = u_glowAlpha.y * coverage(u_glowShape.y, d);
+  vec4 colour = vec4(v_colour.rgb * shadow, shadow);
+  colour = vec4(v_colour.rgb * band, band) + colour * (1.0 - band);
+  colour = vec4(vec3(core), core) + colour * (1.0 - core);
+  outColour = colour;
+  gl_FragDepth = v_depth + min(d / u_glowShape.w, 1.0) * u_depthStep * 0.999;
+}`;
+
+const CLEAR_VERTEX = `#version 300 es
+layout(location = 0) in vec2 a_position;
+${TO_CLIP}
+void main() {
+  gl_Position = toClip(a_position);
+}`;
+
+const CLEAR_FRAGMENT = `#version 300 es
+precision mediump float;
+out vec4 outColour;
+void main() {
+  outColour = vec4(0.0);
+}`;
+
+/* ── setup ───────────────────────────────────────────────── */
+
+function compile(gl: WebGL2RenderingContext, vertex: string, fragment: string): WebGLProgram | null {
+  const program = gl.createProgram();
+  if (!program) return null;
+  for (const [type, source] of [[gl.VERTEX_SHADER, vertex], [gl.FRAGMENT_SHADER, fragment]] as const) {
+    const shader = gl.createShader(type);
+    if (!shader) return null;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) return null;
+    gl.attachShader(program, shader);
+  }
+  gl.linkProgram(program);
+  return gl.getProgramParameter(program, gl.LINK_STATUS) ? program : null;
+}
+
+/** Bind interleaved float attributes: `[location, size]` in buffer order. */
+function layout(gl: WebGL2RenderingContext, attributes: Array<[number, number]>) {
+  const stride = attributes.reduce((sum, [, size]) => sum + size, 0) * 4;
+  let offset = 0;
+  for (const [location, size] of attributes) {
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset);
+    offset += size * 4;
+  }
+}
+
+/** Triangles per pane outline, worked out once per layout. */
+const triangulations = new WeakMap<Point[], number[]>();
+
+function trianglesOf(vertices: Point[]): number[] {
+  let triangles = triangulations.get(vertices);
+  if (!triangles) {
+    triangles = triangulatePolygon(vertices);
+    triangulations.set(vertices, triangles);
+  }
+  return triangles;
+}
+
+/**
+ * Six vertices (two triangles) of the quad reaching `reach` around the
+ * edge from → to, each carrying its position along and across the edge.
+ * `caps` extends the quad past both ends.
+ */
+function pushQuad(
+  out: number[],
+  from: Point,
+  to: Point,
+  reach: number,
+  caps: boolean,
+  rest: number[]
+): void {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  if (length < 1e-6) return;
+  const ux = (to.x - from.x) / length, uy = (to.y - from.y) / length;
+  const nx = -uy, ny = ux;
+  const start = caps ? -reach : 0;
+  const end = caps ? length + reach : length;
+  const corner = (along: number, across: number) =>
+    out.push(
+      from.x + ux * along + nx * across,
+      from.y + uy * along + ny * across,
+      along,
+      across,
+      length,
+      ...rest
+    );
+  corner(start, -reach);
+  corner(end, -reach);
+  corner(end, reach);
+  corner(start, -reach);
+  corner(end, reach);
+  corner(start, reach);
+}
+
+/* ── renderer ────────────────────────────────────────────── */
+
+/**
+ * WebGL 2 renderer, or `null` when the browser has no WebGL 2 or the
+ * shaders do not compile.
+ */
+export function createWebglRenderer(): GlassRenderer | null {
+  const canvas = document.createElement("canvas");
+  const gl = canvas.getContext("webgl2", {
+    alpha: true,
+    antialias: true,
+    depth: true,
+    stencil: true,
+    premultipliedAlpha: true,
+    // Read back with drawImage after rendering
+    preserveDrawingBuffer: true,
+  });
+  if (!gl) return null;
+
+  const fill = compile(gl, FILL_VERTEX, FILL_FRAGMENT);
+  const grain = compile(gl, GRAIN_VERTEX, GRAIN_FRAGMENT);
+  const stroke = compile(gl, STROKE_VERTEX, STROKE_FRAGMENT);
+  const clear = compile(gl, CLEAR_VERTEX, CLEAR_FRAGMENT);
+  const positions = gl.createBuffer();
+  const colours = gl.createBuffer();
+  const grains = gl.createBuffer();
+  const came = gl.createBuffer();
+  const strokes = gl.createBuffer();
+  const outline = gl.createBuffer();
+  const texture = gl.createTexture();
+  const tile = gl.createTexture();
+  if (
+    !fill || !grain || !stroke || !clear ||
+    !positions || !colours || !grains || !came || !strokes || !outline ||
+    !texture || !tile
+  ) {
+    return null;
+  }
+
+  let lost = false;
+  canvas.addEventListener("webglcontextlost", () => {
+    lost = true;
+  });
+
+  const uniform = (program: WebGLProgram, name: string) => gl.getUniformLocation(program, name);
+
+  // Cached between renders
+  let panes: Point[][] = [];
+  let paneVertexCount = 0;
+  let photo: { image: HTMLImageElement; width: number; height: number } | null = null;
+  let tileTexture: GlassTexture = "flat";
+
+  const uploadPanes = (scene: GlassScene) => {
+    const same =
+      panes.length === scene.panes.length && scene.panes.every((p, i) => p.vertices === panes[i]);
+    const colourData: number[] = [];
+    // Full-canvas quad first, transparent, for the bare photo
+    for (let i = 0; i < 6; i++) colourData.push(0, 0, 0, 0);
+    for (const { vertices, colour, opacity } of scene.panes) {
+      const count = trianglesOf(vertices).length;
+      for (let i = 0; i < count; i++) colourData.push(colour[0] / 255, colour[1] / 255, colour[2] / 255, opacity);
+    }
+    if (!same) {
+      const { width: w, height: h } = scene;
+      const positionData: number[] = [0, 0, w, 0, w, h, 0, 0, w, h, 0, h];
+      const grainData: number[] = new Array(18).fill(0);
+      for (const { vertices, grain: { angle, x, y } } of scene.panes) {
+        for (const index of trianglesOf(vertices)) {
+          positionData.push(vertices[index].x, vertices[index].y);
+          grainData.push(angle, x, y);
+        }
+      }
+      gl.bindBuffer(gl.ARRAY_BUFFER, positions);
+      gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(positionData), gl.STATIC_DRAW);
+      gl.bindBuffer(gl.ARRAY_BUFFER, grains);
+      gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(grainData), gl.STATIC_DRAW);
+      panes = scene.panes.map((p) => p.vertices);
+      paneVertexCount = positionData.length / 2;
+    }
+    gl.bindBuffer(gl.ARRAY_BUFFER, colours);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(colourData), gl.DYNAMIC_DRAW);
+  };
+
+  const uploadPhoto = (scene: GlassScene, width: number, height: number) => {
+    if (photo && photo.image === scene.image && photo.width === width && photo.height === height) return;
+    // Resample through Canvas 2D so the photo matches the fallback exactly
+    const scaled = document.createElement("canvas");
+    scaled.width = width;
+    scaled.height = height;
+    const ctx = scaled.getContext("2d")!;
+    ctx.drawImage(scene.image, 0, 0, scene.image.width, scene.image.height, 0, 0, width, height);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, scaled);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    photo = { image: scene.image, width, height };
+  };
+
+  const uploadTile = (texture: Exclude<GlassTexture, "flat">) => {
+    if (tileTexture === texture) return;
+    gl.bindTexture(gl.TEXTURE_2D, tile);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, textureCanvas(texture));
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.REPEAT);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.REPEAT);
+    tileTexture = texture;
+  };
+
+  const render = (scene: GlassScene): boolean => {
+    if (lost || gl.isContextLost()) return false;
+    const { width, height, dpr } = scene;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    // Browsers shrink buffers past their limit; the fallback copes better
+    if (gl.drawingBufferWidth !== canvas.width || gl.drawingBufferHeight !== canvas.height) return false;
+
+    try {
+      uploadPhoto(scene, canvas.width, canvas.height);
+    } catch {
+      // Cross-origin photo – WebGL may not read it
+      return false;
+    }
+    uploadPanes(scene);
+
+    gl.viewport(0, 0, canvas.width, canvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clearDepth(1);
+    gl.clearStencil(0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT | gl.STENCIL_BUFFER_BIT);
+    gl.disable(gl.DEPTH_TEST);
+    gl.disable(gl.STENCIL_TEST);
+    gl.disable(gl.BLEND);
+
+    /* ---- photo and panes ---------------------------------- */
+    gl.useProgram(fill);
+    gl.uniform2f(uniform(fill, "u_size"), width, height);
+    gl.uniform2f(uniform(fill, "u_backing"), canvas.width, canvas.height);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.uniform1i(uniform(fill, "u_image"), 0);
+    gl.bindBuffer(gl.ARRAY_BUFFER, positions);
+    layout(gl, [[0, 2]]);
+    gl.bindBuffer(gl.ARRAY_BUFFER, colours);
+    layout(gl, [[1, 4]]);
+    gl.drawArrays(gl.TRIANGLES, 0, paneVertexCount);
+    gl.disableVertexAttribArray(1);
+
+    /* ---- texture ------------------------------------------ */
+    if (scene.texture !== "flat") {
+      uploadTile(scene.texture);
+      gl.useProgram(grain);
+      gl.uniform2f(uniform(grain, "u_size"), width, height);
+      gl.uniform1f(uniform(grain, "u_tile"), TEXTURE_TILE);
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, tile);
+      gl.uniform1i(uniform(grain, "u_grain"), 1);
+      gl.bindBuffer(gl.ARRAY_BUFFER, positions);
+      layout(gl, [[0, 2]]);
+      gl.bindBuffer(gl.ARRAY_BUFFER, grains);
+      layout(gl, [[1, 3]]);
+      gl.enable(gl.BLEND);
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+      // Skip the full-canvas quad
+      gl.drawArrays(gl.TRIANGLES, 6, paneVertexCount - 6);
+      gl.disable(gl.BLEND);
+      gl.disableVertexAttribArray(1);
+      gl.activeTexture(gl.TEXTURE0);
+    }
+
+    /* ---- came --------------------------------------------- */
+    if (scene.came.length > 0) {
+      const cameData: number[] = [];
+      for (const { vertices, colour } of scene.came) {
+        const [r, g, b] = colour.map((c) => c / 255);
+        for (const index of trianglesOf(vertices)) cameData.push(vertices[index].x, vertices[index].y, r, g, b, 1);
+      }
+      // Opaque, so the fill program draws the colour alone
+      gl.useProgram(fill);
+      gl.bindBuffer(gl.ARRAY_BUFFER, came);
+      gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(cameData), gl.DYNAMIC_DRAW);
+      layout(gl, [[0, 2], [1, 4]]);
+      gl.drawArrays(gl.TRIANGLES, 0, cameData.length / 6);
+      gl.disableVertexAttribArray(1);
+    }
+
+    /* ---- leads and glows ---------------------------------- */
+    const sigma = GLOW.blur / 2 / dpr; // shadowBlur is in device pixels
+    const glowReach = GLOW.strokeWidth / 2 + 3 * sigma + 1 / dpr;
+    const leadReach = LEAD_WIDTH / 2 + 1 / dpr;
+    const strokeData: number[] = [];
+    for (const { from, to, colour, alpha } of scene.leads) {
+      pushQuad(strokeData, from, to, leadReach, false, [colour[0] / 255, colour[1] / 255, colour[2] / 255, alpha, 0]);
+    }
+    const leadVertexCount = strokeData.length / 10;
+    const glowRanges: Array<[number, number]> = [];
+    const depthStep = 1 / Math.max(1, scene.glows.length);
+    scene.glows.forEach(({ vertices, colour }, k) => {
+      const first = strokeData.length / 10;
+      // Later glows sit in front of earlier ones
+      const depth = (scene.glows.length - 1 - k) * depthStep;
+      const rest = [colour[0] / 255, colour[1] / 255, colour[2] / 255, 1, depth];
+      vertices.forEach((p, i) => pushQuad(strokeData, p, vertices[(i + 1) % vertices.length], glowReach, true, rest));
+      glowRanges.push([first, strokeData.length / 10 - first]);
+    });
+
+    gl.useProgram(stroke);
+    gl.uniform2f(uniform(stroke, "u_size"), width, height);
+    gl.uniform1f(uniform(stroke, "u_dpr"), dpr);
+    gl.uniform1f(uniform(stroke, "u_leadHalfWidth"), LEAD_WIDTH / 2);
+    gl.uniform4f(uniform(stroke, "u_glowShape"), GLOW.strokeWidth / 2, GLOW.coreWidth / 2, sigma, glowReach);
+    gl.uniform2f(uniform(stroke, "u_glowAlpha"), GLOW.strokeAlpha, GLOW.coreAlpha);
+    gl.uniform1f(uniform(stroke, "u_depthStep"), depthStep);
+    gl.bindBuffer(gl.ARRAY_BUFFER, strokes);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(strokeData), gl.DYNAMIC_DRAW);
+    layout(gl, [[0, 2], [1, 2], [2, 1], [3, 4], [4, 1]]);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+    gl.uniform1i(uniform(stroke, "u_glow"), 0);
+    gl.drawArrays(gl.TRIANGLES, 0, leadVertexCount);
+
+    // Each glow in two passes: the first finds the nearest edge of the
+    // pane per pixel, the second blends only that edge, and only once
+    gl.uniform1i(uniform(stroke, "u_glow"), 1);
+    gl.enable(gl.DEPTH_TEST);
+    glowRanges.forEach(([first, count], k) => {
+      if (k % 255 === 0) gl.clear(gl.STENCIL_BUFFER_BIT);
+      gl.disable(gl.STENCIL_TEST);
+      gl.colorMask(false, false, false, false);
+      gl.depthMask(true);
+      gl.depthFunc(gl.LESS);
+      gl.drawArrays(gl.TRIANGLES, first, count);
+
+      gl.enable(gl.STENCIL_TEST);
+      gl.stencilFunc(gl.NOTEQUAL, (k % 255) + 1, 0xff);
+      gl.stencilOp(gl.KEEP, gl.KEEP, gl.REPLACE);
+      gl.colorMask(true, true, true, true);
+      gl.depthMask(false);
+      gl.depthFunc(gl.LEQUAL);
+      gl.drawArrays(gl.TRIANGLES, first, count);
+    });
+    gl.depthMask(true);
+    gl.disable(gl.DEPTH_TEST);
+    for (let location = 1; location <= 4; location++) gl.disableVertexAttribArray(location);
+
+    /* ---- clip to the window outline ----------------------- */
+    if (scene.outline) {
+      const { width: w, height: h } = scene;
+      gl.useProgram(clear);
+      gl.uniform2f(uniform(clear, "u_size"), width, height);
+      gl.bindBuffer(gl.ARRAY_BUFFER, outline);
+      gl.bufferData(
+        gl.ARRAY_BUFFER,
+        new Float32Array([...scene.outline.flatMap((p) => [p.x, p.y]), 0, 0, w, 0, w, h, 0, 0, w, h, 0, h]),
+        gl.DYNAMIC_DRAW
+      );
+      layout(gl, [[0, 2]]);
+      // Odd coverage by the outline's fan marks the inside
+      gl.clear(gl.STENCIL_BUFFER_BIT);
+      gl.enable(gl.STENCIL_TEST);
+      gl.stencilMask(0x01);
+      gl.stencilFunc(gl.ALWAYS, 0, 0x01);
+      gl.stencilOp(gl.KEEP, gl.KEEP, gl.INVERT);
+      gl.colorMask(false, false, false, false);
+      gl.drawArrays(gl.TRIANGLE_FAN, 0, scene.outline.length);
+
+      gl.stencilFunc(gl.EQUAL, 0, 0x01);
+      gl.stencilOp(gl.KEEP, gl.KEEP, gl.KEEP);
+      gl.colorMask(true, true, true, true);
+      gl.disable(gl.BLEND);
+      gl.drawArrays(gl.TRIANGLES, scene.outline.length, 6);
+      gl.stencilMask(0xff);
+    }
+    gl.disable(gl.STENCIL_TEST);
+    gl.disable(gl.BLEND);
+    return !gl.isContextLost();
+  };
+
+  return {
+    name: "webgl",
+    canvas,
+    render,
+    dispose: () => {
+      gl.getExtension("WEBGL_lose_context")?.loseContext();
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { AnnotationRevision, CellAnnotation } from "./db";
+import {
+  addRevision,
+  changedCellIds,
+  emptyHistory,
+  historyFromSnapshots,
+  MAX_REVISIONS,
+  replayHistory,
+} from "./revisionHistory";
+
+const note = (title: string): CellAnnotation => ({ title, description: "", date: "2024-05-01" });
+
+const meta = (id: string, baseVersion: string | null, version: string) => ({
+  id,
+  createdAt: "2024-05-01T00:00:00.000Z",
+  author: "test",
+  baseVersion,
+  version,
+});
+
+describe("addRevision", () => {
+  it("stores only the cells a save changed", () => {
+    const history = emptyHistory();
+    addRevision(history, meta("a", null, "v1"), {}, { 1: note("one"), 2: note("two") });
+    addRevision(history, meta("b", "v1", "v2"), {}, { 1: note("one"), 2: note("TWO") });
+    addRevision(history, meta("c", "v2", "v3"), {}, { 2: note("TWO") });
+    expect(history.revisions.map((r) => r.changes)).toEqual([
+      { 1: note("one"), 2: note("two") },
+      { 2: note("TWO") },
+      { 1: null },
+    ]);
+  });
+
+  it("seeds the base of an empty history from the state the save replaced", () => {
+    const history = emptyHistory();
+    addRevision(history, meta("a", "v0", "v1"), { 1: note("old") }, { 1: note("old"), 2: note("new") });
+    expect(history.base).toEqual({ 1: note("old") });
+    expect(history.revisions[0].changes).toEqual({ 2: note("new") });
+  });
+
+  it("skips saves that changed nothing", () => {
+    const history = emptyHistory();
+    addRevision(history, meta("a", null, "v1"), {}, { 1: note("one") });
+    expect(addRevision(history, meta("b", "v1", "v2"), {}, { 1: note("one") })).toBe(false);
+    expect(history.revisions).toHaveLength(1);
+  });
+
+  it("orders a late-recorded save before the one based on it", () => {
+    const history = emptyHistory();
+    addRevision(history, meta("a", null, "v1"), {}, { 1: note("one") });
+    // v2 → v3 is recorded before v1 → v2
+    addRevision(history, meta("c", "v2", "v3"), {}, { 1: note("one"), 2: note("two"), 3: note("three") });
+    addRevision(history, meta("b", "v1", "v2"), {}, { 1: note("one"), 2: note("two") });
+
+    const revisions = replayHistory(history);
+    expect(revisions.map((r) => r.id)).toEqual(["a", "b", "c"]);
+    expect(revisions.map((r) => r.changedCells)).toEqual([[1], [2], [3]]);
+    expect(revisions[2].annotations).toEqual({ 1: note("one"), 2: note("two"), 3: note("three") });
+  });
+
+  it("folds revisions beyond the cap into the base", () => {
+    const history = emptyHistory();
+    for (let i = 0; i <= MAX_REVISIONS; i++) {
+      addRevision(history, meta(`r${i}`, i ? `v${i - 1}` : null, `v${i}`), {}, { [i]: note(`${i}`) });
+    }
+    expect(history.revisions).toHaveLength(MAX_REVISIONS);
+    expect(history.revisions[0].id).toBe("r1");
+    expect(history.base).toEqual({ 0: note("0") });
+    expect(replayHistory(history).at(-1)?.annotations).toEqual({ [MAX_REVISIONS]: note(`${MAX_REVISIONS}`) });
+  });
+});
+
+describe("historyFromSnapshots", () => {
+  it("replays to the same snapshots and changed cells", () => {
+    const snapshots: AnnotationRevision[] = [
+      { id: "p", createdAt: "", author: "x", changedCells: [2], annotations: { 1: note("1"), 2: note("2") } },
+      { id: "q", createdAt: "", author: "x", changedCells: [1], annotations: { 2: note("2") } },
+      { id: "r", createdAt: "", author: "y", changedCells: [2, 3], annotations: { 2: note("2b"), 3: note("3") } },
+    ];
+    expect(replayHistory(historyFromSnapshots(snapshots))).toEqual(snapshots);
+  });
+});
+
+describe("changedCellIds", () => {
+  it("lists added, removed and edited cells in order", () => {
+    expect(changedCellIds({ 1: note("a"), 2: note("b"), 5: note("c") }, { 2: note("B"), 5: note("c"), 3: note("d") })).toEqual([
+      1, 2, 3,
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * A slug's annotation history as stored: the annotations before the
+ * oldest kept revision, then each revision's per-cell changes. Full
+ * snapshots are rebuilt by replaying the changes in order.
+ *
+ * Every revision carries the annotations version it was made to and
+ * the version it produced, so one whose history write lands late is
+ * still slotted in after the save it was based on.
+ */
+
+import type {
+  AnnotationRevision,
+  AnnotationsMap,
+  RevisionChanges,
+  RevisionEntry,
+  RevisionHistory,
+} from "./db";
+
+/** Oldest revisions beyond this are folded into the base. */
+export const MAX_REVISIONS = 100;
+
+export function emptyHistory(): RevisionHistory {
+  return { base: {}, revisions: [] };
+}
+
+/**
+ * Cell ids whose annotation differs between two snapshots.
+ */
+export function changedCellIds(before: AnnotationsMap, after: AnnotationsMap): number[] {
+  const ids = new Set([...Object.keys(before), ...Object.keys(after)].map(Number));
+  return Array.from(ids)
+    .filter((id) => JSON.stringify(before[id]) !== JSON.stringify(after[id]))
+    .sort((a, b) => a - b);
+}
+
+function changesBetween(before: AnnotationsMap, after: AnnotationsMap): RevisionChanges {
+  const changes: RevisionChanges = {};
+  for (const id of changedCellIds(before, after)) changes[id] = after[id] ?? null;
+  return changes;
+}
+
+function applyChanges(annotations: AnnotationsMap, changes: RevisionChanges): void {
+  for (const [id, annotation] of Object.entries(changes)) {
+    if (annotation) annotations[Number(id)] = annotation;
+    else delete annotations[Number(id)];
+  }
+}
+
+/** The annotations after the first `count` revisions. */
+function stateAt(history: RevisionHistory, count: number): AnnotationsMap {
+  const annotations = { ...history.base };
+  for (const revision of history.revisions.slice(0, count)) applyChanges(annotations, revision.changes);
+  return annotations;
+}
+
+/**
+ * Every revision with the full annotations it left behind, oldest first.
+ */
+export function replayHistory(history: RevisionHistory): AnnotationRevision[] {
+  const annotations = { ...history.base };
+  return history.revisions.map(({ id, createdAt, author, changes }) => {
+    applyChanges(annotations, changes);
+    return {
+      id,
+      createdAt,
+      author,
+      changedCells: Object.keys(changes).map(Number).sort((a, b) => a - b),
+      annotations: { ...annotations },
+    };
+  });
+}
+
+/**
+ * Convert a history stored as full snapshots, as it was before
+ * revisions kept only their changes. What the oldest snapshot's
+ * changed cells held before it is gone, so they start out empty.
+ */
+export function historyFromSnapshots(snapshots: AnnotationRevision[]): RevisionHistory {
+  if (snapshots.length === 0) return emptyHistory();
+  const [first] = snapshots;
+  const base = { ...first.annotations };
+  for (const id of first.changedCells) delete base[id];
+
+  let previous = first.annotations;
+  const revisions = snapshots.map(({ id, createdAt, author, changedCells, annotations }, i) => {
+    const changes =
+      i === 0
+        ? Object.fromEntries(changedCells.map((cell) => [cell, annotations[cell] ?? null]))
+        : changesBetween(previous, annotations);
+    previous = annotations;
+    return { id, createdAt, author, changes };
+  });
+  return { base, revisions };
+}
+
+/**
+ * Add the save that turned the annotations at `revision.baseVersion`
+ * into `after` at `revision.version`. It goes after the revision that
+ * produced its base version, or else before one based on its result,
+ * or else last. `before` seeds the base of an empty history, so the
+ * first revision only lists what it changed. Edits `history` in place
+ * and returns false when the save changed nothing.
+ */
+export function addRevision(
+  history: RevisionHistory,
+  revision: Omit<RevisionEntry, "changes">,
+  before: AnnotationsMap,
+  after: AnnotationsMap
+): boolean {
+  const { revisions } = history;
+  if (revisions.length === 0) history.base = { ...before };
+
+  let at = revisions.length;
+  const parent = revision.baseVersion
+    ? revisions.findIndex((r) => r.version === revision.baseVersion)
+    : -1;
+  const child = revisions.findIndex((r) => r.baseVersion === revision.version);
+  if (parent !== -1) at = parent + 1;
+  else if (child !== -1) at = child;
+
+  const changes = changesBetween(stateAt(history, at), after);
+  if (revisions.length > 0 && Object.keys(changes).length === 0) return false;
+
+  // The revision after ours was diffed without it; rebase it onto ours
+  const next = revisions[at];
+  if (next) next.changes = changesBetween(after, stateAt(history, at + 1));
+
+  revisions.splice(at, 0, { ...revision, changes });
+  for (const dropped of revisions.splice(0, Math.max(0, revisions.length - MAX_REVISIONS))) {
+    applyChanges(history.base, dropped.changes);
+  }
+  return true;
+}
@@ -0,0 +1,76 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { describe, expect, it, vi } from "vitest";
+import { useTempStorage } from "@/test/tempStorage";
+import { getAnnotations, getRevisions, saveAnnotations, setCellAnnotation, type CellAnnotation } from "./db";
+import { diffRevisions, listRevisions, restoreRevision } from "./revisions";
+
+const storage = useTempStorage();
+
+const note = (title: string): CellAnnotation => ({ title, description: "", date: "2024-05-01" });
+
+describe("annotation revisions", () => {
+  it("records each save with what it changed", async () => {
+    const v1 = await saveAnnotations("walk", { 1: note("one") }, null, "ann");
+    await saveAnnotations("walk", { 1: note("one"), 2: note("two") }, v1, "bob");
+    await setCellAnnotation("walk", 1, note("ONE"), "cy");
+
+    const revisions = await listRevisions("walk");
+    expect(revisions.map((r) => [r.author, r.changedCells])).toEqual([
+      ["cy", [1]],
+      ["bob", [2]],
+      ["ann", [1]],
+    ]);
+    expect(await listRevisions("walk", 2)).toHaveLength(1);
+
+    const [latest, , first] = revisions;
+    expect(await diffRevisions("walk", first.id, latest.id)).toEqual([
+      { cellId: 1, status: "changed", fields: ["title"], before: note("one"), after: note("ONE") },
+      { cellId: 2, status: "added", fields: ["title", "description", "date"], before: null, after: note("two") },
+    ]);
+  });
+
+  it("keeps concurrent per-cell saves in a consistent chain", async () => {
+    await Promise.all(Array.from({ length: 6 }, (_, i) => setCellAnnotation("chain", i, note(`${i}`))));
+    const revisions = await getRevisions("chain");
+    expect(revisions).toHaveLength(6);
+    expect(revisions.at(-1)?.annotations).toEqual(await getAnnotations("chain"));
+    expect(revisions.flatMap((r) => r.changedCells).sort()).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it("restores a whole revision or one cell of it", async () => {
+    await setCellAnnotation("restore", 1, note("first"));
+    const [{ id }] = await listRevisions("restore");
+    await setCellAnnotation("restore", 1, note("second"));
+    await setCellAnnotation("restore", 2, note("other"));
+
+    expect(await restoreRevision("restore", id, { cellId: 1 })).toEqual({ 1: note("first"), 2: note("other") });
+    expect(await restoreRevision("restore", id)).toEqual({ 1: note("first") });
+    expect(await restoreRevision("restore", "missing")).toBeNull();
+  });
+
+  it("reads histories stored as full snapshots", async () => {
+    const file = path.join(storage.dir(), "data", "revisions", "legacy.json");
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(
+      file,
+      JSON.stringify([
+        { id: "p", createdAt: "2024-05-01T00:00:00.000Z", author: "x", changedCells: [1], annotations: { 1: note("1") } },
+        { id: "q", createdAt: "2024-05-02T00:00:00.000Z", author: "x", changedCells: [2], annotations: { 1: note("1"), 2: note("2") } },
+      ])
+    );
+    expect((await listRevisions("legacy")).map((r) => r.id)).toEqual(["q", "p"]);
+  });
+
+  it("does not fail a save when its revision cannot be written", async () => {
+    const file = path.join(storage.dir(), "data", "revisions", "broken.json");
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify({ not: "a history" }));
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(saveAnnotations("broken", { 1: note("kept") }, null)).resolves.toEqual(expect.any(String));
+    expect(await getAnnotations("broken")).toEqual({ 1: note("kept") });
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
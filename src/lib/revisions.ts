@@ -0,0 +1,123 @@
+/**
+ * Read-side helpers for annotation history: summaries, diffs between
+ * two revisions, and restoring a slug or a single cell.
+ */
+
+import {
+  getRevisions,
+  getRevision,
+  updateAnnotations,
+  AnnotationsMap,
+  CellAnnotation,
+} from "./db";
+import { changedCellIds } from "./revisionHistory";
+
+export interface RevisionSummary {
+  id: string;
+  createdAt: string;
+  author: string;
+  changedCells: number[];
+  /** The cell's annotation in this revision (only when filtering by cell). */
+  cell?: CellAnnotation | null;
+}
+
+export interface CellDiff {
+  cellId: number;
+  status: "added" | "removed" | "changed";
+  /** Fields that differ; every field for added/removed cells. */
+  fields: string[];
+  before: CellAnnotation | null;
+  after: CellAnnotation | null;
+}
+
+/**
+ * List revisions newest-first. With `cellId`, only revisions that
+ * touched that cell are returned, each with the cell's state.
+ */
+export async function listRevisions(
+  slug: string,
+  cellId?: number
+): Promise<RevisionSummary[]> {
+  const revisions = await getRevisions(slug);
+  return revisions
+    .filter((r) => cellId === undefined || r.changedCells.includes(cellId))
+    .reverse()
+    .map(({ id, createdAt, author, changedCells, annotations }) => ({
+      id,
+      createdAt,
+      author,
+      changedCells,
+      ...(cellId === undefined ? {} : { cell: annotations[cellId] ?? null }),
+    }));
+}
+
+export function diffAnnotations(
+  before: AnnotationsMap,
+  after: AnnotationsMap,
+  cellId?: number
+): CellDiff[] {
+  return changedCellIds(before, after)
+    .filter((id) => cellId === undefined || id === cellId)
+    .map((id) => {
+      const a = before[id] ?? null;
+      const b = after[id] ?? null;
+      const keys = new Set([...Object.keys(a ?? {}), ...Object.keys(b ?? {})]);
+      const fields = Array.from(keys).filter(
+        (k) =>
+          JSON.stringify(a?.[k as keyof CellAnnotation]) !==
+          JSON.stringify(b?.[k as keyof CellAnnotation])
+      );
+      const status = !a ? "added" : !b ? "removed" : "changed";
+      return { cellId: id, status, fields, before: a, after: b };
+    });
+}
+
+/**
+ * Diff two revisions by id. Returns `null` when either is unknown.
+ */
+export async function diffRevisions(
+  slug: string,
+  fromId: string,
+  toId: string,
+  cellId?: number
+): Promise<CellDiff[] | null> {
+  const [from, to] = await Promise.all([
+    getRevision(slug, fromId),
+    getRevision(slug, toId),
+  ]);
+  if (!from || !to) return null;
+  return diffAnnotations(from.annotations, to.annotations, cellId);
+}
+
+/**
+ * Restore a whole revision, or just one cell of it. The restore is
+ * itself saved as a new revision. Returns the resulting annotations,
+ * or `null` when the revision does not exist.
+ */
+export async function restoreRevision(
+  slug: string,
+  revisionId: string,
+  options: { cellId?: number; author?: string } = {}
+): Promise<AnnotationsMap | null> {
+  const revision = await getRevision(slug, revisionId);
+  if (!revision) return null;
+  const { cellId, author } = options;
+  let result: AnnotationsMap = {};
+  await updateAnnotations(
+    slug,
+    (annotations) => {
+      if (cellId === undefined) {
+        for (const id of Object.keys(annotations)) delete annotations[Number(id)];
+        Object.assign(annotations, revision.annotations);
+      } else if (revision.annotations[cellId]) {
+        annotations[cellId] = revision.annotations[cellId];
+      } else {
+        delete annotations[cellId];
+      }
+      result = annotations;
+      return true;
+    },
+    author
+  );
+  return result;
+}
@@ -0,0 +1,479 @@
+/**
+ * Runtime schemas for data crossing the API boundary and read back
+ * from storage. A schema is a plain checker function; `parse` runs it
+ * and collects every problem as a `{ path, message }` issue.
+ */
+
+import type {
+  AnnotationAttachment,
+  AnnotationRevision,
+  AnnotationsMap,
+  CellAnchor,
+  CellAnnotation,
+  RevisionEntry,
+  RevisionHistory,
+  StoredCellColours,
+  StoredImageRecord,
+} from "./db";
+import {
+  MAX_CELLS,
+  MAX_RELAX_ITERATIONS,
+  MIN_CELLS,
+  TESSELLATION_ALGORITHMS,
+  TessellationSettings,
+} from "./tessellation";
+import { OUTLINE_SHAPES, parseSvgPath, WindowOutline } from "./outlines";
+import { ManualSeed, MIN_MANUAL_SEEDS } from "./manualSeeds";
+import { CUT_COLOURS, EXPORT_FORMATS, ExportOptions, PAPER_NAMES } from "./exportOptions";
+import {
+  GLASS_TEXTURES,
+  GlassColour,
+  GlassStyle,
+  LEAD_STYLES,
+  MAX_GLASS_COLOURS,
+  PALETTE_MODES,
+  SAMPLING_MODES,
+} from "./glassStyle";
+
+export interface SchemaIssue {
+  /** Dotted path to the offending field, e.g. `12.attachment.width`. */
+  path: string;
+  message: string;
+}
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: SchemaIssue[] };
+
+export type Schema<T> = (input: unknown, path: string[], issues: SchemaIssue[]) => T;
+
+function fail(issues: SchemaIssue[], path: string[], message: string) {
+  issues.push({ path: path.join("."), message });
+}
+
+export function parse<T>(check: Schema<T>, input: unknown): ParseResult<T> {
+  const issues: SchemaIssue[] = [];
+  const value = check(input, [], issues);
+  return issues.length === 0 ? { ok: true, value } : { ok: false, issues };
+}
+
+/* ── primitives ──────────────────────────────────────────── */
+
+function string(opts: { min?: number; max?: number; pattern?: RegExp } = {}): Schema<string> {
+  return (input, path, issues) => {
+    if (typeof input !== "string") {
+      fail(issues, path, "Expected a string");
+      return "";
+    }
+    if (opts.min !== undefined && input.trim().length < opts.min) {
+      fail(issues, path, opts.min === 1 ? "Required" : `Must be at least ${opts.min} characters`);
+    }
+    if (opts.max !== undefined && input.length > opts.max) {
+      fail(issues, path, `Must be at most ${opts.max} characters`);
+    }
+    if (opts.pattern && !opts.pattern.test(input)) {
+      fail(issues, path, "Invalid format");
+    }
+    return input;
+  };
+}
+
+function integer(opts: { min?: number; max?: number } = {}): Schema<number> {
+  return (input, path, issues) => {
+    if (typeof input !== "number" || !Number.isInteger(input)) {
+      fail(issues, path, "Expected an integer");
+      return 0;
+    }
+    if (opts.min !== undefined && input < opts.min) fail(issues, path, `Must be ≥ ${opts.min}`);
+    if (opts.max !== undefined && input > opts.max) fail(issues, path, `Must be ≤ ${opts.max}`);
+    return input;
+  };
+}
+
+function number(opts: { min?: number; max?: number } = {}): Schema<number> {
+  return (input, path, issues) => {
+    if (typeof input !== "number" || !Number.isFinite(input)) {
+      fail(issues, path, "Expected a number");
+      return 0;
+    }
+    if (opts.min !== undefined && input < opts.min) fail(issues, path, `Must be ≥ ${opts.min}`);
+    if (opts.max !== undefined && input > opts.max) fail(issues, path, `Must be ≤ ${opts.max}`);
+    return input;
+  };
+}
+
+function boolean(): Schema<boolean> {
+  return (input, path, issues) => {
+    if (typeof input !== "boolean") {
+      fail(issues, path, "Expected a boolean");
+      return false;
+    }
+    return input;
+  };
+}
+
+function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (input, path, issues) => {
+    if (!values.includes(input as T)) {
+      fail(issues, path, `Expected one of: ${values.join(", ")}`);
+    }
+    return input as T;
+  };
+}
+
+function isoDate(): Schema<string> {
+  return (input, path, issues) => {
+    const value = string()(input, path, issues);
+    if (typeof input === "string" && Number.isNaN(Date.parse(value))) {
+      fail(issues, path, "Expected a date");
+    }
+    return value;
+  };
+}
+
+/* ── composites ──────────────────────────────────────────── */
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const OPTIONAL = Symbol("optional");
+
+function optional<T>(check: Schema<T>): Schema<T | undefined> {
+  const wrapped: Schema<T | undefined> = (input, path, issues) =>
+    input === undefined ? undefined : check(input, path, issues);
+  return Object.assign(wrapped, { [OPTIONAL]: true });
+}
+
+function nullable<T>(check: Schema<T>): Schema<T | null> {
+  return (input, path, issues) => (input === null ? null : check(input, path, issues));
+}
+
+function isPlainObject(input: unknown): input is Record<string, unknown> {
+  return typeof input === "object" && input !== null && !Array.isArray(input);
+}
+
+/**
+ * Object with a fixed set of fields. `strict` rejects unknown keys.
+ */
+function object<T>(shape: Shape<T>, opts: { strict?: boolean } = {}): Schema<T> {
+  return (input, path, issues) => {
+    if (!isPlainObject(input)) {
+      fail(issues, path, "Expected an object");
+      return {} as T;
+    }
+    const out: Record<string, unknown> = opts.strict ? {} : { ...input };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const check = shape[key] as Schema<unknown> & { [OPTIONAL]?: boolean };
+      if (!(key in input) && !check[OPTIONAL]) {
+        fail(issues, [...path, key], "Required");
+        continue;
+      }
+      const value = check(input[key], [...path, key], issues);
+      if (value !== undefined) out[key] = value;
+      else delete out[key];
+    }
+    if (opts.strict) {
+      for (const key of Object.keys(input)) {
+        if (!(key in shape)) fail(issues, [...path, key], "Unknown field");
+      }
+    }
+    return out as T;
+  };
+}
+
+/**
+ * A PATCH body: every field is optional, and `null` clears a field.
+ */
+export type Patch<T> = { [K in keyof T]?: T[K] | null };
+
+/**
+ * Like `object`, but every field is optional and the `clearable`
+ * ones also accept `null`.
+ */
+function partial<T>(shape: Shape<T>, clearable: (keyof T)[]): Schema<Patch<T>> {
+  const loose = {} as Record<keyof T, Schema<unknown>>;
+  for (const key of Object.keys(shape) as (keyof T)[]) {
+    const check = shape[key] as Schema<unknown>;
+    loose[key] = optional((input, path, issues) => {
+      if (input === null) {
+        if (!clearable.includes(key)) fail(issues, path, "Cannot be cleared");
+        return null;
+      }
+      return check(input, path, issues);
+    });
+  }
+  return object(loose as Shape<Patch<T>>, { strict: true });
+}
+
+function array<T>(item: Schema<T>, opts: { max?: number } = {}): Schema<T[]> {
+  return (input, path, issues) => {
+    if (!Array.isArray(input)) {
+      fail(issues, path, "Expected an array");
+      return [];
+    }
+    if (opts.max !== undefined && input.length > opts.max) {
+      fail(issues, path, `Must have at most ${opts.max} items`);
+      return [];
+    }
+    return input.map((v, i) => item(v, [...path, String(i)], issues));
+  };
+}
+
+/**
+ * Object keyed by non-negative integers (cell ids).
+ */
+function cellRecord<T>(value: Schema<T>): Schema<Record<number, T>> {
+  return (input, path, issues) => {
+    if (!isPlainObject(input)) {
+      fail(issues, path, "Expected an object");
+      return {};
+    }
+    const out: Record<number, T> = {};
+    for (const [key, v] of Object.entries(input)) {
+      if (!/^\d+$/.test(key)) {
+        fail(issues, [...path, key], "Key must be a cell id");
+        continue;
+      }
+      out[Number(key)] = value(v, [...path, key], issues);
+    }
+    return out;
+  };
+}
+
+/* ── app schemas ─────────────────────────────────────────── */
+
+export const ATTACHMENT_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+] as const;
+
+const attachmentShape: Shape<AnnotationAttachment> = {
+  url: string({ min: 1, max: 2048 }),
+  mimeType: oneOf(ATTACHMENT_MIME_TYPES),
+  width: integer({ min: 1 }),
+  height: integer({ min: 1 }),
+};
+
+export const attachmentSchema = object(attachmentShape, { strict: true });
+
+/** A point in normalized image coordinates. */
+export const anchorSchema = object<CellAnchor>(
+  { x: number({ min: 0, max: 1 }), y: number({ min: 0, max: 1 }) },
+  { strict: true }
+);
+
+const cellAnnotationShape: Shape<CellAnnotation> = {
+  title: string({ min: 1, max: 200 }),
+  description: string({ max: 5000 }),
+  date: isoDate(),
+  attachment: optional(attachmentSchema),
+  anchor: optional(anchorSchema),
+};
+
+export const cellAnnotationSchema = object(cellAnnotationShape, { strict: true });
+
+export const cellAnnotationPatchSchema = partial(cellAnnotationShape, ["attachment"]);
+
+export const annotationsMapSchema: Schema<AnnotationsMap> = cellRecord(cellAnnotationSchema);
+
+const storedCellAnnotationSchema: Schema<CellAnnotation> = object(
+  { ...cellAnnotationShape, imageDataUrl: optional(string()) },
+  { strict: true }
+);
+
+/**
+ * Annotations as stored – may still carry a legacy inline
+ * `imageDataUrl` until the annotation routes or the migration route
+ * convert it (see `migrateInlineImages`).
+ */
+export const storedAnnotationsMapSchema: Schema<AnnotationsMap> = cellRecord(
+  storedCellAnnotationSchema
+);
+
+const revisionSnapshotsSchema = array(
+  object<AnnotationRevision>({
+    id: string({ min: 1 }),
+    createdAt: isoDate(),
+    author: string({ max: 100 }),
+    changedCells: array(integer({ min: 0 })),
+    annotations: storedAnnotationsMapSchema,
+  })
+);
+
+const revisionHistoryObjectSchema = object<RevisionHistory>({
+  base: storedAnnotationsMapSchema,
+  revisions: array(
+    object<RevisionEntry>({
+      id: string({ min: 1 }),
+      createdAt: isoDate(),
+      author: string({ max: 100 }),
+      baseVersion: optional(nullable(string({ min: 1 }))),
+      version: optional(string({ min: 1 })),
+      changes: cellRecord(nullable(storedCellAnnotationSchema)),
+    })
+  ),
+});
+
+/**
+ * A slug's revision history as stored: a `RevisionHistory`, or a list
+ * of full snapshots from before revisions kept only their changes.
+ */
+export const storedRevisionsSchema: Schema<RevisionHistory | AnnotationRevision[]> = (
+  input,
+  path,
+  issues
+) =>
+  Array.isArray(input)
+    ? revisionSnapshotsSchema(input, path, issues)
+    : revisionHistoryObjectSchema(input, path, issues);
+
+export const SLUG_PATTERN = /^[a-z0-9-]+$/;
+
+const outlineObjectSchema = object<WindowOutline>(
+  { shape: oneOf(OUTLINE_SHAPES), path: optional(string({ min: 1, max: 20000 })) },
+  { strict: true }
+);
+
+/** A custom outline needs path data that describes a closed shape. */
+const outlineSchema: Schema<WindowOutline> = (input, path, issues) => {
+  const value = outlineObjectSchema(input, path, issues);
+  if (value && value.shape === "custom" && !(value.path && parseSvgPath(value.path))) {
+    fail(issues, [...path, "path"], "Expected SVG path data for a closed shape");
+  }
+  return value;
+};
+
+const manualSeedSchema = object<ManualSeed>(
+  {
+    x: number({ min: 0, max: 1 }),
+    y: number({ min: 0, max: 1 }),
+    piece: optional(integer({ min: 0 })),
+    annotation: optional(integer({ min: 0 })),
+  },
+  { strict: true }
+);
+
+/** A hand-edited seed set – at least two seeds, at most `MAX_CELLS`. */
+const manualSeedsSchema: Schema<ManualSeed[]> = (input, path, issues) => {
+  const seeds = array(manualSeedSchema, { max: MAX_CELLS })(input, path, issues);
+  if (Array.isArray(input) && input.length < MIN_MANUAL_SEEDS) {
+    fail(issues, path, `Must have at least ${MIN_MANUAL_SEEDS} seeds`);
+  }
+  return seeds;
+};
+
+export const tessellationSchema = object<TessellationSettings>(
+  {
+    cellCount: integer({ min: MIN_CELLS, max: MAX_CELLS }),
+    seed: string({ min: 1, max: 200 }),
+    jitter: number({ min: 0, max: 1 }),
+    algorithm: oneOf(TESSELLATION_ALGORITHMS),
+    edgeSnap: optional(number({ min: 0, max: 1 })),
+    relaxIterations: optional(integer({ min: 0, max: MAX_RELAX_ITERATIONS })),
+    relaxWeighted: optional(boolean()),
+    outline: optional(outlineSchema),
+    seeds: optional(manualSeedsSchema),
+  },
+  { strict: true }
+);
+
+const glassColourSchema = object<GlassColour>(
+  { name: string({ min: 1, max: 60 }), hex: string({ pattern: /^#[0-9a-f]{6}$/ }) },
+  { strict: true }
+);
+
+/** A fixed palette – at least one sheet, at most `MAX_GLASS_COLOURS`. */
+const glassColoursSchema: Schema<GlassColour[]> = (input, path, issues) => {
+  const colours = array(glassColourSchema, { max: MAX_GLASS_COLOURS })(input, path, issues);
+  if (Array.isArray(input) && input.length === 0) fail(issues, path, "Must have at least one colour");
+  return colours;
+};
+
+export const glassStyleSchema = object<GlassStyle>(
+  {
+    palette: oneOf(PALETTE_MODES),
+    sampling: optional(oneOf(SAMPLING_MODES)),
+    glass: optional(glassColoursSchema),
+    texture: optional(oneOf(GLASS_TEXTURES)),
+    lead: optional(oneOf(LEAD_STYLES)),
+  },
+  { strict: true }
+);
+
+/** Piece colours as `id, r, g, b` quadruples. */
+const packedColoursSchema: Schema<number[]> = (input, path, issues) => {
+  const colours = array(integer({ min: 0 }), { max: MAX_CELLS * 4 })(input, path, issues);
+  if (Array.isArray(input) && input.length % 4 !== 0) {
+    fail(issues, path, "Expected id, r, g, b per piece");
+  }
+  colours.forEach((value, i) => {
+    if (i % 4 !== 0 && value > 255) fail(issues, [...path, String(i)], "Must be ≤ 255");
+  });
+  return colours;
+};
+
+export const storedCellColoursSchema = object<StoredCellColours>(
+  { layout: string({ min: 1, max: 64 }), colours: packedColoursSchema },
+  { strict: true }
+);
+
+/** Export query parameters, after numbers and flags are parsed. */
+export const exportOptionsSchema = object<ExportOptions>(
+  {
+    format: oneOf(EXPORT_FORMATS),
+    scale: optional(number({ min: 0.01, max: 16 })),
+    dpi: optional(integer({ min: 36, max: 1200 })),
+    widthMm: optional(number({ min: 10, max: 20000 })),
+    paper: optional(oneOf(PAPER_NAMES)),
+    legend: optional(boolean()),
+    leadMm: optional(number({ min: 0, max: 20 })),
+    colours: optional(oneOf(CUT_COLOURS)),
+  },
+  { strict: true }
+);
+
+export const imageRecordSchema = object<StoredImageRecord>({
+  id: string({ min: 1 }),
+  slug: string({ min: 1, max: 200, pattern: SLUG_PATTERN }),
+  originalName: string(),
+  fileName: string({ min: 1 }),
+  // Missing from records stored before uploads kept their URL
+  blobUrl: optional(string({ min: 1 })),
+  uploadedAt: isoDate(),
+  trashedAt: optional(isoDate()),
+  previousSlugs: optional(array(string({ min: 1, max: 200, pattern: SLUG_PATTERN }))),
+  tessellation: optional(tessellationSchema),
+  style: optional(glassStyleSchema),
+});
+
+export const imageListSchema = array(imageRecordSchema);
+
+export const restoreBodySchema = object<{ cellId?: number }>(
+  { cellId: optional(integer({ min: 0 })) },
+  { strict: true }
+);
+
+export const renameBodySchema = object<{ slug: string }>(
+  { slug: string({ min: 1, max: 200 }) },
+  { strict: true }
+);
+
+/**
+ * Thrown when data fails a schema check on its way into storage.
+ */
+export class ValidationError extends Error {
+  constructor(public issues: SchemaIssue[]) {
+    super("Validation failed");
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Like `parse`, but throws `ValidationError` on failure.
+ */
+export function assertValid<T>(schema: Schema<T>, input: unknown): T {
+  const result = parse(schema, input);
+  if (!result.ok) throw new ValidationError(result.issues);
+  return result.value;
+}
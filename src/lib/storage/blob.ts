@@ -0,0 +1,111 @@
+import { put, del, list, head, BlobPreconditionFailedError } from "@vercel/blob";
+import { VersionConflictError, type StorageDriver } from ".";
+
+/* ── URL caching ─────────────────────────────────────────
+ * Vercel Blob `list()` is an "advanced operation" that counts
+ * towards billing limits. Since we use `addRandomSuffix: false`,
+ * blob URLs are deterministic — once discovered via `list()` or
+ * returned from `put()`, we cache them so subsequent reads are
+ * plain HTTP GETs (zero advanced operations).
+ * ──────────────────────────────────────────────────────── */
+
+/**
+ * Documents whose blob pathname predates the storage layer.
+ */
+const LEGACY_PATHNAMES: Record<string, string> = {
+  "images.json": "metadata/images.json",
+};
+
+function pathnameFor(key: string): string {
+  return LEGACY_PATHNAMES[key] ?? key;
+}
+
+/**
+ * Fetch a blob URL with cache-busting to avoid stale CDN responses.
+ */
+async function fetchBlobFresh(url: string): Promise<Response> {
+  const u = new URL(url);
+  u.searchParams.set("_t", Date.now().toString());
+  return fetch(u.toString(), { cache: "no-store" });
+}
+
+export function createBlobStorage(): StorageDriver {
+  const cachedUrls: Record<string, string> = {};
+
+  /**
+   * Discover a document's blob URL (one `list()` call, then cached).
+   */
+  async function resolveUrl(pathname: string): Promise<string | null> {
+    if (cachedUrls[pathname]) return cachedUrls[pathname];
+    const { blobs } = await list({ prefix: pathname, limit: 1 });
+    if (blobs.length === 0 || blobs[0].pathname !== pathname) return null;
+    cachedUrls[pathname] = blobs[0].url;
+    return cachedUrls[pathname];
+  }
+
+  return {
+    async readDocument<T>(key: string) {
+      const url = await resolveUrl(pathnameFor(key));
+      if (!url) return null;
+      const res = await fetchBlobFresh(url);
+      if (!res.ok) return null;
+      const data = (await res.json()) as T;
+      // The CDN echoes the blob ETag; fall back to head() if it was stripped
+      const version = res.headers.get("etag") ?? (await head(url)).etag;
+      return { data, version };
+    },
+
+    async writeDocument(key, data, options = {}) {
+      const pathname = pathnameFor(key);
+      const { ifVersion } = options;
+      try {
+        const blob = await put(pathname, JSON.stringify(data), {
+          access: "public",
+          addRandomSuffix: false,
+          allowOverwrite: ifVersion !== null,
+          ...(ifVersion ? { ifMatch: ifVersion } : {}),
+          contentType: "application/json",
+        });
+        // Cache the URL from the put response — zero future list() calls
+        cachedUrls[pathname] = blob.url;
+        return blob.etag;
+      } catch (err) {
+        if (err instanceof BlobPreconditionFailedError) {
+          throw new VersionConflictError(key);
+        }
+        // Create-only writes fail when someone else created it first
+        if (ifVersion === null && (await resolveUrl(pathname))) {
+          throw new VersionConflictError(key);
+        }
+        throw err;
+      }
+    },
+
+    async deleteDocument(key) {
+      const pathname = pathnameFor(key);
+      delete cachedUrls[pathname];
+      await del(pathname);
+    },
+
+    async putFile(key, body, contentType) {
+      const blob = await put(key, body, { access: "public", contentType });
+      return blob.url;
+    },
+
+    fileUrl(key) {
+      // Read-write tokens are `vercel_blob_rw_<store id>_<secret>`
+      const store = process.env.BLOB_READ_WRITE_TOKEN?.match(/^vercel_blob_rw_([^_]+)_/)?.[1];
+      return store ? `https://${store.toLowerCase()}.public.blob.vercel-storage.com/${key}` : null;
+    },
+
+    async readFile(url) {
+      const res = await fetch(url);
+      if (!res.ok) return null;
+      return Buffer.from(await res.arrayBuffer());
+    },
+
+    async deleteFile(url) {
+      await del(url);
+    },
+  };
+}
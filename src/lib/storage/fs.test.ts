@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { useTempStorage } from "@/test/tempStorage";
+import { getStorage, VersionConflictError } from ".";
+
+useTempStorage();
+
+describe("fs storage driver", () => {
+  it("reads back a document at the version it was written with", async () => {
+    const storage = getStorage();
+    const version = await storage.writeDocument("docs/a.json", { n: 1 });
+    expect(await storage.readDocument("docs/a.json")).toEqual({ data: { n: 1 }, version });
+    expect(await storage.readDocument("docs/missing.json")).toBeNull();
+  });
+
+  it("only writes conditionally when the version matches", async () => {
+    const storage = getStorage();
+    await expect(storage.writeDocument("docs/b.json", 1, { ifVersion: "\"nope\"" })).rejects.toThrow(
+      VersionConflictError
+    );
+    const v1 = await storage.writeDocument("docs/b.json", 1, { ifVersion: null });
+    // `null` means "not created yet"
+    await expect(storage.writeDocument("docs/b.json", 2, { ifVersion: null })).rejects.toThrow(
+      VersionConflictError
+    );
+    const v2 = await storage.writeDocument("docs/b.json", 2, { ifVersion: v1 });
+    await expect(storage.writeDocument("docs/b.json", 3, { ifVersion: v1 })).rejects.toThrow(
+      VersionConflictError
+    );
+    expect(await storage.readDocument("docs/b.json")).toEqual({ data: 2, version: v2 });
+  });
+
+  it("lets exactly one of several writers from the same version through", async () => {
+    const storage = getStorage();
+    const base = await storage.writeDocument("docs/c.json", 0);
+    const results = await Promise.allSettled(
+      [1, 2, 3, 4, 5].map((n) => storage.writeDocument("docs/c.json", n, { ifVersion: base }))
+    );
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    for (const r of results) {
+      if (r.status === "rejected") expect(r.reason).toBeInstanceOf(VersionConflictError);
+    }
+  });
+
+  it("refuses keys outside its directory", async () => {
+    await expect(getStorage().writeDocument("../escape.json", 1)).rejects.toThrow(/Invalid storage key/);
+  });
+
+  it("stores files at the URL fileUrl predicts", async () => {
+    const storage = getStorage();
+    const url = await storage.putFile("images/x.png", new Blob([new Uint8Array([1, 2, 3])]), "image/png");
+    expect(url).toBe(storage.fileUrl("images/x.png"));
+    expect(Array.from((await storage.readFile(url))!)).toEqual([1, 2, 3]);
+    await storage.deleteFile(url);
+    expect(await storage.readFile(url)).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+import { promises as fs } from "fs";
+import { createHash } from "crypto";
+import path from "path";
+import { VersionConflictError, type StorageDriver } from ".";
+
+/* ── local filesystem layout ──────────────────────────────
+ * JSON documents live under `data/` (so the images list is
+ * `data/images.json`) and uploaded files under `public/uploads/`,
+ * which Next.js serves at `/uploads/…`. Both roots can be moved
+ * with `LOCAL_DATA_DIR` / `LOCAL_UPLOADS_DIR`, e.g. to a temp
+ * directory in CI.
+ *
+ * Document versions are content hashes, and conditional writes
+ * are serialised per key within the process.
+ * ──────────────────────────────────────────────────────── */
+
+const UPLOADS_URL_PREFIX = "/uploads/";
+
+function isMissing(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+/**
+ * Resolve `key` under `root`, refusing paths that escape it.
+ */
+function resolveUnder(root: string, key: string): string {
+  const full = path.resolve(root, key);
+  if (full !== root && !full.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return full;
+}
+
+function versionOf(raw: string): string {
+  return `"${createHash("sha1").update(raw).digest("hex")}"`;
+}
+
+/**
+ * Write via a temp file + rename so readers never see a half-written file.
+ */
+async function writeFileAtomic(file: string, data: string | Buffer) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, data);
+  await fs.rename(tmp, file);
+}
+
+export function createFsStorage(): StorageDriver {
+  const dataDir = path.resolve(process.env.LOCAL_DATA_DIR ?? path.join(process.cwd(), "data"));
+  const uploadsDir = path.resolve(
+    process.env.LOCAL_UPLOADS_DIR ?? path.join(process.cwd(), "public", "uploads")
+  );
+
+  const locks = new Map<string, Promise<unknown>>();
+
+  /**
+   * Run `fn` after every earlier call for the same key has settled.
+   */
+  function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const prev = locks.get(key) ?? Promise.resolve();
+    const next = prev.catch(() => {}).then(fn);
+    locks.set(key, next);
+    next.finally(() => {
+      if (locks.get(key) === next) locks.delete(key);
+    }).catch(() => {});
+    return next;
+  }
+
+  async function readRaw(file: string): Promise<string | null> {
+    try {
+      return await fs.readFile(file, "utf8");
+    } catch (err) {
+      if (isMissing(err)) return null;
+      throw err;
+    }
+  }
+
+  return {
+    async readDocument<T>(key: string) {
+      const raw = await readRaw(resolveUnder(dataDir, key));
+      if (raw === null) return null;
+      return { data: JSON.parse(raw) as T, version: versionOf(raw) };
+    },
+
+    async writeDocument(key, data, options = {}) {
+      const file = resolveUnder(dataDir, key);
+      const { ifVersion } = options;
+      return withLock(file, async () => {
+        if (ifVersion !== undefined) {
+          const raw = await readRaw(file);
+          const current = raw === null ? null : versionOf(raw);
+          if (current !== ifVersion) throw new VersionConflictError(key);
+        }
+        const raw = JSON.stringify(data, null, 2);
+        await writeFileAtomic(file, raw);
+        return versionOf(raw);
+      });
+    },
+
+    async deleteDocument(key) {
+      await fs.rm(resolveUnder(dataDir, key), { force: true });
+    },
+
+    async putFile(key, body) {
+      const file = resolveUnder(uploadsDir, key);
+      await writeFileAtomic(file, Buffer.from(await body.arrayBuffer()));
+      return UPLOADS_URL_PREFIX + key;
+    },
+
+    fileUrl(key) {
+      return UPLOADS_URL_PREFIX + key;
+    },
+
+    async readFile(url) {
+      if (!url.startsWith(UPLOADS_URL_PREFIX)) return null;
+      const key = decodeURIComponent(url.slice(UPLOADS_URL_PREFIX.length));
+      try {
+        return await fs.readFile(resolveUnder(uploadsDir, key));
+      } catch (err) {
+        if (isMissing(err)) return null;
+        throw err;
+      }
+    },
+
+    async deleteFile(url) {
+      if (!url.startsWith(UPLOADS_URL_PREFIX)) return;
+      const key = decodeURIComponent(url.slice(UPLOADS_URL_PREFIX.length));
+      await fs.rm(resolveUnder(uploadsDir, key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Storage abstraction shared by `db.ts` and the upload route.
+ *
+ * Two drivers ship with the app:
+ *   - `blob` – Vercel Blob (production)
+ *   - `fs`   – local filesystem under `data/` and `public/uploads/`
+ *
+ * The driver is chosen by `STORAGE_DRIVER`. When unset, Vercel Blob is
+ * used if `BLOB_READ_WRITE_TOKEN` is present, otherwise the filesystem.
+ */
+
+import { createBlobStorage } from "./blob";
+import { createFsStorage } from "./fs";
+
+/**
+ * A JSON document together with its opaque version (an ETag).
+ */
+export interface StoredDocument<T> {
+  data: T;
+  version: string;
+}
+
+export interface WriteOptions {
+  /**
+   * Only write when the stored version still matches. `null` means the
+   * document must not exist yet; `undefined` writes unconditionally.
+   */
+  ifVersion?: string | null;
+}
+
+/**
+ * Thrown by `writeDocument` when `ifVersion` no longer matches.
+ */
+export class VersionConflictError extends Error {
+  constructor(key: string) {
+    super(`Document "${key}" was modified concurrently`);
+    this.name = "VersionConflictError";
+  }
+}
+
+export interface StorageDriver {
+  /** Read a JSON document, or `null` when it does not exist. */
+  readDocument<T>(key: string): Promise<StoredDocument<T> | null>;
+  /** Create or overwrite a JSON document and return its new version. */
+  writeDocument(key: string, data: unknown, options?: WriteOptions): Promise<string>;
+  /** Remove a JSON document. Missing documents are ignored. */
+  deleteDocument(key: string): Promise<void>;
+  /** Store a binary file and return its public URL. */
+  putFile(key: string, body: Blob, contentType: string): Promise<string>;
+  /**
+   * Public URL of the file `putFile` stored (or would store) under
+   * `key`, without asking the backend – for records that predate
+   * stored URLs. `null` when the driver cannot tell.
+   */
+  fileUrl(key: string): string | null;
+  /** Read a file previously returned by `putFile`, or `null` when it is gone. */
+  readFile(url: string): Promise<Buffer | null>;
+  /** Remove a file previously returned by `putFile`, by URL. */
+  deleteFile(url: string): Promise<void>;
+}
+
+export type StorageDriverName = "blob" | "fs";
+
+function resolveDriverName(): StorageDriverName {
+  const configured = process.env.STORAGE_DRIVER?.trim().toLowerCase();
+  if (configured === "blob" || configured === "fs") return configured;
+  if (configured) {
+    throw new Error(`Unknown STORAGE_DRIVER "${configured}" (expected "blob" or "fs")`);
+  }
+  return process.env.BLOB_READ_WRITE_TOKEN ? "blob" : "fs";
+}
+
+let storage: StorageDriver | null = null;
+
+/**
+ * Return the configured storage driver (created once per process).
+ */
+export function getStorage(): StorageDriver {
+  if (storage) return storage;
+  storage = resolveDriverName() === "blob" ? createBlobStorage() : createFsStorage();
+  return storage;
+}
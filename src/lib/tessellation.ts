@@ -0,0 +1,203 @@
+/**
+ * Per-image tessellation settings and the one entry point that turns
+ * them into cells. Shared by the editor, the view page and the API.
+ */
+
+import {
+  createRandom,
+  jitteredGridSeeds,
+  lloydRelax,
+  Point,
+  poissonDiskSeeds,
+  polygonArea,
+  VoronoiCell,
+  voronoiFromSeeds,
+} from "./delaunay";
+import {
+  contentAwareSeeds,
+  detailDensity,
+  detailMap,
+  ImagePixels,
+  snapToEdges,
+} from "./contentAware";
+import { hexagonalCells, quadTreeCells, roseWindowCells, triangularCells } from "./tilings";
+import { clipCellsToOutline, outlinePolygon, WindowOutline } from "./outlines";
+import { ManualSeed, manualCells } from "./manualSeeds";
+
+export const TESSELLATION_ALGORITHMS = [
+  "jittered-grid",
+  "poisson-disk",
+  "content-aware",
+  "hexagonal",
+  "triangular",
+  "rose-window",
+  "quad-tree",
+] as const;
+
+export type TessellationAlgorithm = (typeof TESSELLATION_ALGORITHMS)[number];
+
+/** Fixed tilings – not built from seeds, so relaxation does not apply. */
+const TILINGS: readonly TessellationAlgorithm[] = [
+  "hexagonal",
+  "triangular",
+  "rose-window",
+  "quad-tree",
+];
+
+export function isTiling(algorithm: TessellationAlgorithm): boolean {
+  return TILINGS.includes(algorithm);
+}
+
+export interface TessellationSettings {
+  /** Number of pieces to aim for. */
+  cellCount: number;
+  /** PRNG seed; the same settings always give the same layout. */
+  seed: string;
+  /** How far seeds stray from their grid position, 0 (none) – 1. */
+  jitter: number;
+  algorithm: TessellationAlgorithm;
+  /** How hard borders are pulled onto edges in the photo, 0–1 (content-aware). */
+  edgeSnap?: number;
+  /** Rounds of Lloyd relaxation applied to the seeds. */
+  relaxIterations?: number;
+  /** Relax toward the image's detail instead of toward even sizes. */
+  relaxWeighted?: boolean;
+  /** Shape of the window; a plain rectangle when unset. */
+  outline?: WindowOutline;
+  /**
+   * Hand-edited seed set. When present it replaces seeding and
+   * relaxation; the count, algorithm and PRNG seed are kept only so
+   * that discarding the edits restores the generated layout.
+   */
+  seeds?: ManualSeed[];
+}
+
+export const MIN_CELLS = 8;
+export const MAX_CELLS = 5000;
+export const MAX_RELAX_ITERATIONS = 20;
+
+/**
+ * Settings for images that never saved their own. They reproduce the
+ * layout every image had before settings existed.
+ */
+export function defaultTessellation(imageUrl: string): TessellationSettings {
+  return {
+    cellCount: 120,
+    seed: `${imageUrl}__0`,
+    jitter: 0.7,
+    algorithm: "jittered-grid",
+  };
+}
+
+/**
+ * A fresh random seed for "reshuffle".
+ */
+export function randomSeed(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+/**
+ * Build the cells for a `width` × `height` image: place seeds, relax
+ * them, build the Voronoi cells, then snap borders to edges. Tilings
+ * skip all that and are generated directly. Finally cells are clipped
+ * to the window outline, with the piece count scaled up beforehand so
+ * about `cellCount` survive – but never past `MAX_CELLS`, so a small
+ * outline may get fewer pieces than asked for.
+ *
+ * A hand-edited seed set is used as it is, without count scaling.
+ *
+ * Content-aware seeding and weighted relaxation read `pixels` (a
+ * downsampled copy of the image); until it is available they fall
+ * back to the jittered grid and plain relaxation.
+ */
+export function tessellate(
+  settings: TessellationSettings,
+  width: number,
+  height: number,
+  pixels?: ImagePixels
+): VoronoiCell[] {
+  const outline = outlinePolygon(settings.outline, width, height);
+  if (settings.seeds) {
+    const cells = buildManualCells(settings, settings.seeds, width, height, pixels);
+    return outline ? clipCellsToOutline(cells, outline) : cells;
+  }
+  if (!outline) return buildCells(settings, settings.cellCount, width, height, pixels);
+
+  const coverage = polygonArea(outline) / (width * height);
+  const cellCount = Math.min(MAX_CELLS, Math.round(settings.cellCount / Math.max(coverage, 0.05)));
+  const cells = buildCells(settings, cellCount, width, height, pixels);
+  return clipCellsToOutline(cells, outline);
+}
+
+/**
+ * Whether the layout for `settings` depends on the image's pixels, i.e.
+ * comes out differently before and after they are read.
+ */
+export function usesDetailMap(settings: TessellationSettings): boolean {
+  if (settings.seeds) return settings.algorithm === "content-aware";
+  return (
+    settings.algorithm === "content-aware" ||
+    settings.algorithm === "quad-tree" ||
+    ((settings.relaxIterations ?? 0) > 0 && settings.relaxWeighted === true)
+  );
+}
+
+function buildManualCells(
+  settings: TessellationSettings,
+  seeds: ManualSeed[],
+  width: number,
+  height: number,
+  pixels?: ImagePixels
+): VoronoiCell[] {
+  const cells = manualCells(seeds, width, height);
+  if (settings.algorithm === "content-aware" && pixels) {
+    return snapToEdges(cells, detailMap(pixels), width, height, settings.edgeSnap ?? 0.5);
+  }
+  return cells;
+}
+
+function buildCells(
+  settings: TessellationSettings,
+  cellCount: number,
+  width: number,
+  height: number,
+  pixels?: ImagePixels
+): VoronoiCell[] {
+  const { algorithm, jitter, relaxIterations = 0 } = settings;
+  const rand = createRandom(settings.seed);
+  const map = pixels && usesDetailMap(settings) ? detailMap(pixels) : undefined;
+
+  let seeds: Point[];
+  switch (algorithm) {
+    case "hexagonal":
+      return hexagonalCells(width, height, cellCount, rand);
+    case "triangular":
+      return triangularCells(width, height, cellCount, rand);
+    case "rose-window":
+      return roseWindowCells(width, height, cellCount, rand);
+    case "quad-tree":
+      return quadTreeCells(width, height, cellCount, rand, map);
+    case "content-aware":
+      seeds = map
+        ? contentAwareSeeds(map, width, height, cellCount, rand)
+        : jitteredGridSeeds(width, height, cellCount, rand, jitter);
+      break;
+    case "poisson-disk":
+      seeds = poissonDiskSeeds(width, height, cellCount, rand);
+      break;
+    case "jittered-grid":
+      seeds = jitteredGridSeeds(width, height, cellCount, rand, jitter);
+      break;
+  }
+
+  if (relaxIterations > 0) {
+    const density = settings.relaxWeighted && map ? detailDensity(map, width, height) : undefined;
+    seeds = lloydRelax(seeds, width, height, relaxIterations, density);
+  }
+
+  const cells = voronoiFromSeeds(seeds, width, height);
+  if (algorithm === "content-aware" && map) {
+    return snapToEdges(cells, map, width, height, settings.edgeSnap ?? 0.5);
+  }
+  return cells;
+}
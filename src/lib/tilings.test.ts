@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { pointInPolygon, polygonArea } from "./delaunay";
+import { outlinePolygon } from "./outlines";
+import { MAX_CELLS, tessellate, TessellationAlgorithm, TessellationSettings } from "./tessellation";
+
+const WIDTH = 640;
+const HEIGHT = 480;
+
+const settings = (algorithm: TessellationAlgorithm, cellCount = 120): TessellationSettings => ({
+  algorithm,
+  cellCount,
+  seed: "tilings",
+  jitter: 0.5,
+});
+
+describe.each(["hexagonal", "triangular", "rose-window", "quad-tree"] as const)("%s tiling", (algorithm) => {
+  const cells = tessellate(settings(algorithm), WIDTH, HEIGHT);
+
+  it("covers the image without overlaps, short of slivers at the frame", () => {
+    const area = cells.reduce((sum, cell) => sum + polygonArea(cell.vertices), 0);
+    expect(area).toBeLessThanOrEqual(WIDTH * HEIGHT + 1e-6);
+    expect(area).toBeGreaterThan(WIDTH * HEIGHT * 0.99);
+  });
+
+  it("gives every piece its own id and a seed inside it", () => {
+    expect(new Set(cells.map((c) => c.id)).size).toBe(cells.length);
+    for (const cell of cells) {
+      expect(pointInPolygon(cell.seed.x, cell.seed.y, cell.vertices)).toBe(true);
+    }
+  });
+
+  it("comes close to the piece count asked for", () => {
+    expect(cells.length).toBeGreaterThan(120 / 2);
+    expect(cells.length).toBeLessThan(120 * 2);
+  });
+
+  it("is the same for the same settings", () => {
+    expect(tessellate(settings(algorithm), WIDTH, HEIGHT)).toEqual(cells);
+  });
+});
+
+describe("outline clipping", () => {
+  it("never generates more than MAX_CELLS pieces for a small outline", () => {
+    // A thin diagonal band, a tenth or so of the image
+    const outline = { shape: "custom" as const, path: "M0 0L8 0L100 92L100 100L92 100L0 8Z" };
+    const coverage = polygonArea(outlinePolygon(outline, WIDTH, HEIGHT)!) / (WIDTH * HEIGHT);
+    expect(coverage).toBeLessThan(0.2);
+
+    const cells = tessellate({ ...settings("jittered-grid", MAX_CELLS), outline }, WIDTH, HEIGHT);
+    expect(cells.length).toBeGreaterThan(0);
+    expect(cells.length).toBeLessThan(MAX_CELLS * coverage * 1.5);
+  });
+});
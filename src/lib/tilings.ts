@@ -0,0 +1,320 @@
+/**
+ * Regular and patterned tilings – hexagons, triangles, a radial rose
+ * window and an adaptive quad-tree. Each returns the same
+ * `VoronoiCell` shape as the Voronoi generators, so drawing, hit-testing
+ * and anchoring work unchanged. A cell's `seed` is a point inside it.
+ */
+
+import {
+  clipPolygon,
+  interiorPoint,
+  pointInPolygon,
+  Point,
+  polygonArea,
+  VoronoiCell,
+} from "./delaunay";
+import { DetailMap } from "./contentAware";
+
+/* ── helpers ─────────────────────────────────────────────── */
+
+/**
+ * Clip each polygon to the rectangle and turn the survivors into cells.
+ * Slivers left at the frame (under 5% of a full tile) are dropped.
+ */
+function toCells(
+  polygons: Array<{ vertices: Point[]; center?: Point }>,
+  width: number,
+  height: number,
+  tileArea: number
+): VoronoiCell[] {
+  const cells: VoronoiCell[] = [];
+  for (const { vertices, center } of polygons) {
+    const clipped = clipPolygon(vertices, width, height);
+    if (clipped.length < 3 || polygonArea(clipped) < tileArea * 0.05) continue;
+    const seed =
+      center && pointInPolygon(center.x, center.y, clipped)
+        ? center
+        : interiorPoint(clipped);
+    if (!seed) continue;
+    cells.push({ id: cells.length, seed, vertices: clipped });
+  }
+  return cells;
+}
+
+/* ── hexagonal (Tiffany panel) ───────────────────────────── */
+
+/**
+ * Pointy-top hexagons sized so about `numCells` fit the rectangle.
+ * `rand` only shifts the grid's phase.
+ */
+export function hexagonalCells(
+  width: number,
+  height: number,
+  numCells: number,
+  rand: () => number
+): VoronoiCell[] {
+  const tileArea = (width * height) / numCells;
+  const size = Math.sqrt(tileArea / (1.5 * Math.sqrt(3))); // centre to corner
+  const dx = Math.sqrt(3) * size;
+  const dy = 1.5 * size;
+  const ox = rand() * dx;
+  const oy = rand() * dy;
+
+  const polygons: Array<{ vertices: Point[]; center: Point }> = [];
+  for (let row = -1; row * dy - oy < height + dy; row++) {
+    const shift = row % 2 === 0 ? 0 : dx / 2;
+    for (let col = -1; col * dx - ox < width + dx; col++) {
+      const cx = col * dx + shift - ox;
+      const cy = row * dy - oy;
+      const vertices: Point[] = [];
+      for (let k = 0; k < 6; k++) {
+        const a = (Math.PI / 3) * k + Math.PI / 6;
+        vertices.push({ x: cx + size * Math.cos(a), y: cy + size * Math.sin(a) });
+      }
+      polygons.push({ vertices, center: { x: cx, y: cy } });
+    }
+  }
+  return toCells(polygons, width, height, tileArea);
+}
+
+/* ── triangular mosaic ───────────────────────────────────── */
+
+/**
+ * Rows of alternating up/down equilateral triangles, about `numCells`
+ * in total. `rand` only shifts the grid's phase.
+ */
+export function triangularCells(
+  width: number,
+  height: number,
+  numCells: number,
+  rand: () => number
+): VoronoiCell[] {
+  const tileArea = (width * height) / numCells;
+  const side = Math.sqrt((4 * tileArea) / Math.sqrt(3));
+  const rowHeight = (Math.sqrt(3) / 2) * side;
+  const ox = rand() * side;
+
+  const polygons: Array<{ vertices: Point[] }> = [];
+  for (let row = 0; row * rowHeight < height; row++) {
+    const top = row * rowHeight;
+    const bottom = top + rowHeight;
+    const shift = (row % 2 === 0 ? 0 : side / 2) - ox;
+    for (let col = -1; col * side + shift < width + side; col++) {
+      const left = col * side + shift;
+      // Upward triangle, then the downward one to its right
+      polygons.push({
+        vertices: [
+          { x: left, y: bottom },
+          { x: left + side / 2, y: top },
+          { x: left + side, y: bottom },
+        ],
+      });
+      polygons.push({
+        vertices: [
+          { x: left + side / 2, y: top },
+          { x: left + side * 1.5, y: top },
+          { x: left + side, y: bottom },
+        ],
+      });
+    }
+  }
+  return toCells(polygons, width, height, tileArea);
+}
+
+/* ── radial rose window ──────────────────────────────────── */
+
+/**
+ * Concentric rings around the centre, each split into petals. Ring `k`
+ * has a multiple of six petals close to 2k + 1, which keeps pieces
+ * roughly equal in area; alternate rings are offset by half a petal.
+ * `rand` only sets the overall rotation.
+ */
+export function roseWindowCells(
+  width: number,
+  height: number,
+  numCells: number,
+  rand: () => number
+): VoronoiCell[] {
+  const cx = width / 2;
+  const cy = height / 2;
+  const maxRadius = Math.hypot(cx, cy);
+  // Pieces over the whole disc ≈ rings², of which the rectangle sees its share
+  const rings = Math.max(
+    2,
+    Math.round(Math.sqrt((numCells * Math.PI * maxRadius * maxRadius) / (width * height)))
+  );
+  const step = maxRadius / rings;
+  const rotation = rand() * 2 * Math.PI;
+  const tileArea = Math.PI * step * step;
+
+  const at = (r: number, a: number): Point => ({
+    x: cx + r * Math.cos(a),
+    y: cy + r * Math.sin(a),
+  });
+  const TWO_PI = 2 * Math.PI;
+  const wrap = (a: number) => ((a % TWO_PI) + TWO_PI) % TWO_PI;
+  const petalsOf = (k: number) => 6 * Math.max(1, Math.round((2 * k + 1) / 6));
+  // Angle of corner `p` of ring k's petals
+  const corner = (k: number, p: number) => {
+    const petals = petalsOf(k);
+    const offset = k % 2 === 0 ? 0 : 0.5;
+    return wrap(rotation + ((((p % petals) + offset) * TWO_PI) / petals));
+  };
+
+  // Break angles on the circle between ring k - 1 and ring k: every 7.5°
+  // plus the petal corners of both rings, so the pieces on either side
+  // share their vertices exactly
+  const breaks = (k: number): number[] => {
+    const angles = Array.from({ length: 48 }, (_, i) => wrap(rotation + (i * Math.PI) / 24));
+    for (const ring of [k - 1, k]) {
+      if (ring < 1 || ring >= rings) continue;
+      for (let p = 0; p < petalsOf(ring); p++) angles.push(corner(ring, p));
+    }
+    angles.sort((a, b) => a - b);
+    return angles.filter((a, i) => i === 0 || a - angles[i - 1] > 1e-9);
+  };
+  const circles = Array.from({ length: rings + 1 }, (_, k) => (k > 0 ? breaks(k) : []));
+
+  // Points along circle k from angle `from` to `to`, counter-clockwise
+  const arc = (k: number, from: number, to: number): Point[] => {
+    const span = wrap(to - from);
+    const inside = circles[k]
+      .filter((a) => wrap(a - from) > 1e-9 && wrap(a - from) < span - 1e-9)
+      .sort((a, b) => wrap(a - from) - wrap(b - from));
+    return [from, ...inside, to].map((a) => at(k * step, a));
+  };
+
+  const polygons: Array<{ vertices: Point[]; center: Point }> = [
+    { vertices: circles[1].map((a) => at(step, a)), center: { x: cx, y: cy } },
+  ];
+  for (let k = 1; k < rings; k++) {
+    for (let p = 0; p < petalsOf(k); p++) {
+      const from = corner(k, p);
+      const to = corner(k, p + 1);
+      polygons.push({
+        vertices: [...arc(k + 1, from, to), ...arc(k, from, to).reverse()],
+        center: at((k + 0.5) * step, from + wrap(to - from) / 2),
+      });
+    }
+  }
+  return toCells(polygons, width, height, tileArea);
+}
+
+/* ── adaptive quad-tree ──────────────────────────────────── */
+
+interface Quad {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  score: number;
+}
+
+/**
+ * Squares split into four, largest-and-busiest first, until there are
+ * about `numCells`. With a detail map the subdivision follows the
+ * photo; without one it is driven by size alone. Corners of smaller
+ * neighbours are added to each square's outline so edges that meet at
+ * a T-junction share their endpoints.
+ */
+export function quadTreeCells(
+  width: number,
+  height: number,
+  numCells: number,
+  rand: () => number,
+  map?: DetailMap
+): VoronoiCell[] {
+  const detail = (q: { x: number; y: number; w: number; h: number }) => {
+    if (!map) return 1;
+    let sum = 0;
+    for (let i = 0; i < 4; i++) {
+      for (let j = 0; j < 4; j++) {
+        const mx = Math.floor(((q.x + ((i + 0.5) * q.w) / 4) / width) * map.width);
+        const my = Math.floor(((q.y + ((j + 0.5) * q.h) / 4) / height) * map.height);
+        sum += map.values[Math.min(map.height - 1, my) * map.width + Math.min(map.width - 1, mx)];
+      }
+    }
+    return 0.2 + sum / 16;
+  };
+  // Tiny random tie-break so equal squares do not split in raster order
+  const make = (x: number, y: number, w: number, h: number): Quad => ({
+    x, y, w, h,
+    score: w * h * detail({ x, y, w, h }) * (1 + 0.01 * rand()),
+  });
+
+  // Start from a grid of near-square tiles matching the aspect ratio
+  const cols = Math.max(1, Math.round(width / height));
+  const rows = Math.max(1, Math.round(height / width));
+  const leaves: Quad[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      leaves.push(make((c * width) / cols, (r * height) / rows, width / cols, height / rows));
+    }
+  }
+
+  while (leaves.length + 3 <= numCells) {
+    let best = 0;
+    for (let i = 1; i < leaves.length; i++) {
+      if (leaves[i].score > leaves[best].score) best = i;
+    }
+    const { x, y, w, h } = leaves[best];
+    const hw = w / 2, hh = h / 2;
+    leaves[best] = leaves[leaves.length - 1];
+    leaves.pop();
+    leaves.push(
+      make(x, y, hw, hh),
+      make(x + hw, y, hw, hh),
+      make(x, y + hh, hw, hh),
+      make(x + hw, y + hh, hw, hh)
+    );
+  }
+
+  // Corner coordinates by row and column, for finding T-junctions
+  const round = (v: number) => Math.round(v * 1000) / 1000;
+  const xsOnRow = new Map<number, number[]>();
+  const ysOnCol = new Map<number, number[]>();
+  for (const q of leaves) {
+    for (const [px, py] of [[q.x, q.y], [q.x + q.w, q.y], [q.x, q.y + q.h], [q.x + q.w, q.y + q.h]]) {
+      const rx = round(px), ry = round(py);
+      if (!xsOnRow.has(ry)) xsOnRow.set(ry, []);
+      if (!ysOnCol.has(rx)) ysOnCol.set(rx, []);
+      xsOnRow.get(ry)!.push(rx);
+      ysOnCol.get(rx)!.push(ry);
+    }
+  }
+  for (const lines of [xsOnRow, ysOnCol]) {
+    lines.forEach((values, k) => {
+      lines.set(k, Array.from(new Set(values)).sort((a, b) => a - b));
+    });
+  }
+  // Sorted corners strictly between `from` and `to`, in that direction
+  const between = (values: number[] | undefined, from: number, to: number) => {
+    if (!values) return [];
+    const lo = Math.min(from, to), hi = Math.max(from, to);
+    let start = 0, end = values.length;
+    while (start < end) {
+      const mid = (start + end) >> 1;
+      if (values[mid] <= lo) start = mid + 1;
+      else end = mid;
+    }
+    const inside: number[] = [];
+    for (let i = start; i < values.length && values[i] < hi; i++) inside.push(values[i]);
+    return from < to ? inside : inside.reverse();
+  };
+
+  return leaves.map((q, id) => {
+    const x0 = round(q.x), y0 = round(q.y);
+    const x1 = round(q.x + q.w), y1 = round(q.y + q.h);
+    const vertices: Point[] = [
+      { x: x0, y: y0 },
+      ...between(xsOnRow.get(y0), x0, x1).map((x) => ({ x, y: y0 })),
+      { x: x1, y: y0 },
+      ...between(ysOnCol.get(x1), y0, y1).map((y) => ({ x: x1, y })),
+      { x: x1, y: y1 },
+      ...between(xsOnRow.get(y1), x1, x0).map((x) => ({ x, y: y1 })),
+      { x: x0, y: y1 },
+      ...between(ysOnCol.get(x0), y1, y0).map((y) => ({ x: x0, y })),
+    ];
+    return { id, seed: { x: q.x + q.w / 2, y: q.y + q.h / 2 }, vertices };
+  });
+}
@@ -0,0 +1,21 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll } from "vitest";
+
+/**
+ * Point the filesystem driver at a fresh temp directory for the
+ * current test file. Call at the top level, before anything touches
+ * `getStorage` – the driver is created once per file.
+ */
+export function useTempStorage(): { dir: () => string } {
+  let dir = "";
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "stained-glass-"));
+    process.env.STORAGE_DRIVER = "fs";
+    process.env.LOCAL_DATA_DIR = path.join(dir, "data");
+    process.env.LOCAL_UPLOADS_DIR = path.join(dir, "uploads");
+  });
+  afterAll(() => rm(dir, { recursive: true, force: true }));
+  return { dir: () => dir };
+}